@@ -18,7 +18,7 @@ export default function Home() {
         </div>
       </section>
 
-      <section className="grid sm:grid-cols-2 gap-6">
+      <section className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
         <Link
           href="/visualizations/dyadic-explorer"
           className="rounded-lg border border-white/10 p-6 bg-gradient-to-br from-slate-900/80 to-sky-900/20 hover:border-white/20 transition"
@@ -37,6 +37,24 @@ export default function Home() {
             Navigate a 3D consonance surface for three-note chords, spot minima, and audition the richest triads.
           </p>
         </Link>
+        <Link
+          href="/visualizations/tetrad-explorer"
+          className="rounded-lg border border-white/10 p-6 bg-gradient-to-br from-slate-900/80 to-emerald-900/20 hover:border-white/20 transition"
+        >
+          <h3 className="font-semibold mb-2 text-white">Tetrad explorer</h3>
+          <p className="text-sm text-gray-300">
+            Slice through the dissonance volume of four-note chords and hunt for consonant seventh chords.
+          </p>
+        </Link>
+        <Link
+          href="/visualizations/midi-analysis"
+          className="rounded-lg border border-white/10 p-6 bg-gradient-to-br from-slate-900/80 to-rose-900/20 hover:border-white/20 transition"
+        >
+          <h3 className="font-semibold mb-2 text-white">MIDI analysis</h3>
+          <p className="text-sm text-gray-300">
+            Upload a MIDI file and trace its roughness over time, then audition any moment of the piece.
+          </p>
+        </Link>
       </section>
 
       <section className="rounded-lg border border-white/10 bg-slate-900/50 p-6 space-y-3">
@@ -44,7 +44,7 @@ const explorers: Explorer[] = [
   {
     name: "Triad explorer",
     blurb:
-      "Roam a consonance surface for three-note chords anchored to A₄ = 220 Hz and audition any coordinate instantly.",
+      "Roam a consonance surface for three-note chords anchored to A₃ = 220 Hz (concert pitch A₄ = 440 Hz) and audition any coordinate instantly.",
     outcomes: [
       "Spot the ridges of maximum smoothness before committing them to the keyboard.",
       "Capture triads that stay gentle even as you retune their third note.",
@@ -97,7 +97,10 @@ p &= \frac{x\,|f_1-f_2|}{s_1\min(f_1,f_2) + s_2}
       { constant: "s₂", value: "18.96", role: "Baseline bandwidth at low frequencies." },
       { constant: "b₁, b₂", value: "3.51, 5.75", role: "Shape where beating peaks before decaying." },
     ],
-    details: ["Unison cancels the kernel, one critical band maximises roughness, and wide separations decouple the tones."],
+    details: [
+      "Unison cancels the kernel, one critical band maximises roughness, and wide separations decouple the tones.",
+      "The explorers’ roughness-model selector swaps this kernel for Plomp–Levelt (ERB), Vassilakis, or Hutchinson–Knopoff.",
+    ],
     definitions: [
       {
         symbol: String.raw`f_1, f_2`,
@@ -222,8 +225,8 @@ const experiments: Experiment[] = [
   },
   {
     title: "Equal temperament check",
-    tweak: "Snap ratios to 12-TET steps.",
-    outcome: "Notice how tempered chords hover above valley floors, revealing residual beating.",
+    tweak: "Turn on the dyadic explorer’s EDO overlay and compare 12, 19 and 31 divisions.",
+    outcome: "Notice how tempered steps hover above valley floors, and read each tuning’s fit score for the current timbre.",
   },
   {
     title: "Register shifts",
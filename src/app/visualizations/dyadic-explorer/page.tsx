@@ -2,15 +2,63 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { SliderControl } from "@/components/visualizations/SliderControl";
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { SpectrumControls } from "@/components/visualizations/SpectrumControls";
+import { DownloadAudioButton } from "@/components/visualizations/DownloadAudioButton";
+import { EdoScoreCard } from "@/components/visualizations/EdoScoreCard";
+import { CopyLinkButton } from "@/components/visualizations/CopyLinkButton";
+import { EnvelopeControls } from "@/components/visualizations/EnvelopeControls";
+import { JustIntonationControls } from "@/components/visualizations/JustIntonationControls";
+import { MidiControls } from "@/components/visualizations/MidiControls";
+import { NoteNamingControls } from "@/components/visualizations/NoteNamingControls";
+import { PresetLibraryPanel } from "@/components/visualizations/PresetLibraryPanel";
+import { ScaleBuilderPanel } from "@/components/visualizations/ScaleBuilderPanel";
+import { ScalaImportControl } from "@/components/visualizations/ScalaImportControl";
+import { TimbreSolverPanel } from "@/components/visualizations/TimbreSolverPanel";
 import type { MouseEvent as ReactMouseEvent } from "react";
-import { dyadicDissonance, spectrumFromHarmonics } from "@/lib/dissonance/math";
+import { DEFAULT_ENVELOPE } from "@/lib/dissonance/audio";
+import type { Envelope } from "@/lib/dissonance/audio";
+import { adaptiveSample, refineExtrema } from "@/lib/dissonance/curveSampling";
+import { DEFAULT_JUST_INTONATION, formatCentsError, formatFraction, identifyJustInterval } from "@/lib/dissonance/intervals";
+import type { JustIntonationOptions } from "@/lib/dissonance/intervals";
+import { dyadicDissonance } from "@/lib/dissonance/math";
+import { DEFAULT_NOTE_NAMING, ratioToNoteName } from "@/lib/dissonance/noteNames";
+import type { NoteNaming } from "@/lib/dissonance/noteNames";
+import { ROUGHNESS_MODELS, getRoughnessModel } from "@/lib/dissonance/roughness";
+import type { RoughnessModelId } from "@/lib/dissonance/roughness";
+import { formatScalaPitch, mappingRootFrequency } from "@/lib/dissonance/scala";
+import type { ScalaScale } from "@/lib/dissonance/scala";
+import { DEFAULT_SPECTRUM_SETTINGS, buildSpectrum } from "@/lib/dissonance/spectra";
+import {
+  MAX_RANGE_OCTAVES,
+  RANGE_OCTAVE_OPTIONS,
+  RATIO_AXIS_SCALES,
+  adaptiveSampleCount,
+  axisToRatio,
+  ratioAxisTicks,
+  ratioAxisTitle,
+  ratioToAxis,
+} from "@/lib/dissonance/ratioAxis";
+import type { RatioAxisScale } from "@/lib/dissonance/ratioAxis";
+import { analyzeEdo, ratioToCents } from "@/lib/dissonance/tuning";
+import type { Spectrum, SpectrumSettings } from "@/lib/dissonance/types";
 import { useReferenceTonePlayer } from "@/lib/dissonance/useReferenceTonePlayer";
+import {
+  formatParamNumber,
+  readBooleanParam,
+  readChoiceParam,
+  readNoteNamingParams,
+  readNumberParam,
+  readSpectrumParams,
+  useUrlStateSync,
+  writeNoteNamingParams,
+  writeSpectrumParams,
+} from "@/lib/urlState";
 
 export default function DyadicExplorerPage() {
   const CHANNEL = "dissonance-audio";
   const SOURCE = "dyadic-explorer";
   const RATIO_MIN = 1;
-  const RATIO_MAX = 2;
   const SVG_WIDTH = 720;
   const SVG_HEIGHT = 360;
   const MARGIN = { top: 36, right: 32, bottom: 52, left: 68 };
@@ -18,15 +66,70 @@ export default function DyadicExplorerPage() {
   const INNER_HEIGHT = SVG_HEIGHT - MARGIN.top - MARGIN.bottom;
 
   const [f0, setF0] = useState(220);
-  const [partials, setPartials] = useState(1);
-  const [rolloff, setRolloff] = useState(1.0);
+  const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>(DEFAULT_SPECTRUM_SETTINGS);
+  const [modelId, setModelId] = useState<RoughnessModelId>("sethares");
   const [selectedRatio, setSelectedRatio] = useState(1.0);
+  const [rangeOctaves, setRangeOctaves] = useState(1);
+  const [axisScale, setAxisScale] = useState<RatioAxisScale>("ratio");
+  const [noteNaming, setNoteNaming] = useState<NoteNaming>(DEFAULT_NOTE_NAMING);
   const [showIntervalGuides, setShowIntervalGuides] = useState(false); // New state for toggle
+  const [showEdoOverlay, setShowEdoOverlay] = useState(false);
+  const [showMinima, setShowMinima] = useState(false);
+  const [justOptions, setJustOptions] = useState<JustIntonationOptions>(DEFAULT_JUST_INTONATION);
+  const [edoDivisions, setEdoDivisions] = useState(12);
+  const [importedScale, setImportedScale] = useState<ScalaScale | null>(null);
+  const [envelope, setEnvelope] = useState<Envelope>(DEFAULT_ENVELOPE);
+  const [holdNotes, setHoldNotes] = useState(false);
+  const [sweepDuration, setSweepDuration] = useState(8);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const sweepFrameRef = useRef<number | null>(null);
   const svgRef = useRef<SVGSVGElement | null>(null);
-  const { playChord, stopAll } = useReferenceTonePlayer();
+  const { playChord, playSequence, playSweep, updateHeldChord, stopAll } = useReferenceTonePlayer();
+  const RATIO_MAX = Math.pow(2, rangeOctaves);
+
+  const urlQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    params.set("f0", `${f0}`);
+    writeSpectrumParams(params, spectrumSettings);
+    params.set("model", modelId);
+    params.set("r", formatParamNumber(selectedRatio));
+    params.set("oct", `${rangeOctaves}`);
+    params.set("axis", axisScale);
+    writeNoteNamingParams(params, noteNaming);
+    params.set("guides", showIntervalGuides ? "1" : "0");
+    params.set("minima", showMinima ? "1" : "0");
+    params.set("jitol", `${justOptions.toleranceCents}`);
+    params.set("tenney", `${justOptions.maxTenneyHeight}`);
+    params.set("edo", showEdoOverlay ? `${edoDivisions}` : "0");
+    params.set("sweep", `${sweepDuration}`);
+    return params.toString();
+  }, [f0, spectrumSettings, modelId, selectedRatio, rangeOctaves, axisScale, noteNaming, showIntervalGuides, showMinima, justOptions, showEdoOverlay, edoDivisions, sweepDuration]);
+
+  const applyUrlState = useCallback((params: URLSearchParams) => {
+    const edo = readNumberParam(params, "edo", 0, 0, 72, 1);
+    setF0(readNumberParam(params, "f0", 220, 50, 1000, 1));
+    setSpectrumSettings(readSpectrumParams(params, DEFAULT_SPECTRUM_SETTINGS, { maxPartials: 6 }));
+    setModelId(readChoiceParam(params, "model", ROUGHNESS_MODELS.map((item) => item.id), "sethares"));
+    const octaves = readNumberParam(params, "oct", 1, 1, MAX_RANGE_OCTAVES, 1);
+    setRangeOctaves(octaves);
+    setAxisScale(readChoiceParam(params, "axis", RATIO_AXIS_SCALES.map((item) => item.value), "ratio"));
+    setNoteNaming(readNoteNamingParams(params));
+    setSelectedRatio(readNumberParam(params, "r", 1, RATIO_MIN, Math.pow(2, octaves)));
+    setShowIntervalGuides(readBooleanParam(params, "guides", false));
+    setShowMinima(readBooleanParam(params, "minima", false));
+    setJustOptions({
+      toleranceCents: readNumberParam(params, "jitol", DEFAULT_JUST_INTONATION.toleranceCents, 1, 50, 1),
+      maxTenneyHeight: readNumberParam(params, "tenney", DEFAULT_JUST_INTONATION.maxTenneyHeight, 4, 16, 0.5),
+    });
+    setShowEdoOverlay(edo >= 5);
+    if (edo >= 5) setEdoDivisions(edo);
+    setSweepDuration(readNumberParam(params, "sweep", 8, 2, 30, 1));
+  }, [RATIO_MIN]);
+
+  useUrlStateSync(urlQuery, applyUrlState);
 
   // Define interval guides
-  const intervalGuides = [
+  const defaultIntervalGuides = [
     { name: "Unison", ratio: 1, semitones: 0, text: "1:1", flavor: "consonant" as const },
     { name: "Major 2nd", ratio: 9 / 8, semitones: 2, text: "9:8", flavor: "rough" as const },
     { name: "Major 3rd", ratio: 5 / 4, semitones: 4, text: "5:4", flavor: "consonant" as const },
@@ -35,50 +138,187 @@ export default function DyadicExplorerPage() {
     { name: "Perfect 5th", ratio: 3 / 2, semitones: 7, text: "3:2", flavor: "consonant" as const },
     { name: "Major 6th", ratio: 5 / 3, semitones: 9, text: "5:3", flavor: "neutral" as const },
     { name: "Octave", ratio: 2, semitones: 12, text: "2:1", flavor: "consonant" as const },
-  ];
+    { name: "Major 10th", ratio: 5 / 2, semitones: 16, text: "5:2", flavor: "consonant" as const },
+    { name: "Perfect 12th", ratio: 3, semitones: 19, text: "3:1", flavor: "consonant" as const },
+    { name: "Double octave", ratio: 4, semitones: 24, text: "4:1", flavor: "consonant" as const },
+    { name: "Major 17th", ratio: 5, semitones: 28, text: "5:1", flavor: "consonant" as const },
+    { name: "Perfect 19th", ratio: 6, semitones: 31, text: "6:1", flavor: "consonant" as const },
+    { name: "Harmonic 7th", ratio: 7, semitones: 33.69, text: "7:1", flavor: "neutral" as const },
+    { name: "Triple octave", ratio: 8, semitones: 36, text: "8:1", flavor: "consonant" as const },
+    { name: "Quadruple octave", ratio: 16, semitones: 48, text: "16:1", flavor: "consonant" as const },
+  ].filter((guide) => guide.ratio <= RATIO_MAX + 1e-9);
+
+  // An imported Scala scale replaces the default guides with its own degrees (1/1 is implicit).
+  const intervalGuides = importedScale
+    ? [{ text: "1/1", cents: 0, ratio: 1 }, ...importedScale.pitches]
+        .filter((pitch) => pitch.ratio >= RATIO_MIN - 1e-9 && pitch.ratio <= RATIO_MAX + 1e-9)
+        .map((pitch) => ({
+          name: formatScalaPitch(pitch),
+          ratio: pitch.ratio,
+          semitones: pitch.cents / 100,
+          text: pitch.text,
+          flavor: "neutral" as const,
+        }))
+    : defaultIntervalGuides;
+
+  const spectrum = useMemo(() => buildSpectrum(spectrumSettings), [spectrumSettings]);
+  const model = useMemo(() => getRoughnessModel(modelId), [modelId]);
+
+  const curveAt = useCallback(
+    (ratio: number) => dyadicDissonance(f0, ratio, spectrum, model),
+    [f0, spectrum, model]
+  );
 
+  // Uniform along the current axis to start, bisected near cusps; extrema are then refined
+  // with Brent's method and spliced into the curve so its tips are drawn at the exact ratios.
   const samples = useMemo(() => {
-    const spectrum = spectrumFromHarmonics(f0, partials, rolloff);
-    const xs: number[] = [];
-    const ys: number[] = [];
-    for (let i = 0; i <= 240; i++) {
-      const ratio = 1 + i * (1 / 240);
-      xs.push(ratio);
-      ys.push(dyadicDissonance(f0, ratio, spectrum));
-    }
-    const max = Math.max(...ys);
-    const normYs = ys.map((y) => (max > 0 ? y / max : 0));
-    // detect local minima and peaks
-    const minima: { i: number; r: number; y: number }[] = [];
-    const peaks: { i: number; r: number; y: number }[] = [];
-    for (let i = 1; i < normYs.length - 1; i++) {
-      const y0 = normYs[i - 1];
-      const y1 = normYs[i];
-      const y2 = normYs[i + 1];
-      if (y1 < y0 && y1 < y2) minima.push({ i, r: xs[i], y: y1 });
-      if (y1 > y0 && y1 > y2) peaks.push({ i, r: xs[i], y: y1 });
-    }
-    return { xs, ys: normYs, minima, peaks };
-  }, [f0, partials, rolloff]);
+    const sampled = adaptiveSample(
+      (position) => curveAt(axisToRatio(position, axisScale)),
+      ratioToAxis(RATIO_MIN, axisScale),
+      ratioToAxis(RATIO_MAX, axisScale),
+      { initial: adaptiveSampleCount(RATIO_MIN, RATIO_MAX, 120) }
+    );
+    const ratios = sampled.xs.map((position) => axisToRatio(position, axisScale));
+    const extrema = refineExtrema(curveAt, ratios, sampled.ys);
+    const points = ratios.map((ratio, idx) => ({ x: ratio, y: sampled.ys[idx] }));
+    points.push(...extrema.minima, ...extrema.peaks);
+    points.sort((a, b) => a.x - b.x);
+
+    const max = Math.max(...points.map((point) => point.y));
+    const normalize = (y: number) => (max > 0 ? y / max : 0);
+    const toMarker = (extremum: { x: number; y: number }, idx: number) => ({ i: idx, r: extremum.x, y: normalize(extremum.y) });
+    return {
+      xs: points.map((point) => point.x),
+      ys: points.map((point) => normalize(point.y)),
+      minima: extrema.minima.map(toMarker),
+      peaks: extrema.peaks.map(toMarker),
+      max,
+    };
+  }, [curveAt, RATIO_MIN, RATIO_MAX, axisScale]);
+
+  // Each minimum read as the nearest just interval within tolerance that is simple enough.
+  const justMinima = useMemo(
+    () => samples.minima.map((minimum) => identifyJustInterval(minimum.r, justOptions)),
+    [samples.minima, justOptions]
+  );
+
+  const normalizedCurveAt = useCallback(
+    (ratio: number) => (samples.max > 0 ? curveAt(ratio) / samples.max : 0),
+    [curveAt, samples.max]
+  );
+
+  const axisTicks = useMemo(
+    () => ratioAxisTicks(RATIO_MIN, RATIO_MAX, axisScale, f0, noteNaming),
+    [RATIO_MIN, RATIO_MAX, axisScale, f0, noteNaming]
+  );
+
+  const edoAnalysis = useMemo(
+    () =>
+      analyzeEdo(edoDivisions, RATIO_MIN, RATIO_MAX, samples.minima, normalizedCurveAt),
+    [edoDivisions, samples, normalizedCurveAt, RATIO_MIN, RATIO_MAX]
+  );
 
   const stopAudio = useCallback(() => {
     stopAll();
   }, [stopAll]);
 
-  const playAudio = useCallback(async (baseFreq: number, ratio: number) => {
-    const partialMultipliers = Array.from({ length: partials }, (_, i) => i + 1);
-    const partialAmplitudes = partialMultipliers.map((k) => Math.pow(k, -rolloff));
-    if (!partialMultipliers.length) return;
+  const playAudio = useCallback(async (baseFreq: number, ratio: number, hold = false) => {
+    if (!spectrum.freq.length) return;
 
     await playChord({
       baseFrequency: baseFreq,
-      partialMultipliers,
-      partialAmplitudes,
+      partialMultipliers: spectrum.freq,
+      partialAmplitudes: spectrum.amp,
       tuning: [1, ratio],
       channel: CHANNEL,
       source: SOURCE,
+      envelope,
+      hold,
     });
-  }, [partials, rolloff, playChord]);
+  }, [spectrum, envelope, playChord]);
+
+  const handleMidiNotes = useCallback((notes: number[]) => {
+    if (notes.length < 2 || isSweeping) return;
+    const ratio = Math.pow(2, (notes[notes.length - 1] - notes[0]) / 12);
+    setSelectedRatio(Math.max(RATIO_MIN, Math.min(RATIO_MAX, ratio)));
+  }, [isSweeping, RATIO_MIN, RATIO_MAX]);
+
+  // The marker follows the sweep on the audio clock, so it stays in step with what is heard.
+  const startSweep = useCallback(async () => {
+    if (!spectrum.freq.length) return;
+
+    const handle = await playSweep({
+      baseFrequency: f0,
+      partialMultipliers: spectrum.freq,
+      partialAmplitudes: spectrum.amp,
+      // The base tone holds steady while the second voice glides across the range.
+      paths: [[1], [RATIO_MIN, RATIO_MAX]],
+      duration: sweepDuration,
+      channel: CHANNEL,
+      source: SOURCE,
+      envelope,
+    });
+    if (!handle) return;
+
+    if (sweepFrameRef.current !== null) cancelAnimationFrame(sweepFrameRef.current);
+    setIsSweeping(true);
+    const followSweep = () => {
+      const elapsed = handle.currentTime() - handle.startTime;
+      if (!handle.isActive() || elapsed >= handle.duration) {
+        if (handle.isActive()) setSelectedRatio(RATIO_MAX);
+        sweepFrameRef.current = null;
+        setIsSweeping(false);
+        return;
+      }
+      const progress = Math.max(elapsed, 0) / handle.duration;
+      setSelectedRatio(RATIO_MIN * Math.pow(RATIO_MAX / RATIO_MIN, progress));
+      sweepFrameRef.current = requestAnimationFrame(followSweep);
+    };
+    sweepFrameRef.current = requestAnimationFrame(followSweep);
+  }, [spectrum, f0, sweepDuration, envelope, playSweep, RATIO_MIN, RATIO_MAX]);
+
+  useEffect(() => () => {
+    if (sweepFrameRef.current !== null) cancelAnimationFrame(sweepFrameRef.current);
+  }, []);
+
+  // A held dyad follows the slider and cursor; a timbre or envelope change releases it.
+  useEffect(() => {
+    updateHeldChord({
+      baseFrequency: f0,
+      partialMultipliers: spectrum.freq,
+      partialAmplitudes: spectrum.amp,
+      tuning: [1, selectedRatio],
+      channel: CHANNEL,
+      source: SOURCE,
+      envelope,
+    });
+  }, [f0, spectrum, selectedRatio, envelope, updateHeldChord]);
+
+  const playSteps = useCallback(async (tunings: number[][], duration: number) => {
+    if (!spectrum.freq.length) return;
+
+    await playSequence({
+      baseFrequency: f0,
+      partialMultipliers: spectrum.freq,
+      partialAmplitudes: spectrum.amp,
+      steps: tunings.map((tuning) => ({ tuning, duration })),
+      channel: CHANNEL,
+      source: SOURCE,
+      envelope,
+    });
+  }, [f0, spectrum, envelope, playSequence]);
+
+  const auditionSpectrum = useCallback(async (candidate: Spectrum, tunings: number[][], duration: number) => {
+    await playSequence({
+      baseFrequency: f0,
+      partialMultipliers: candidate.freq,
+      partialAmplitudes: candidate.amp,
+      steps: tunings.map((tuning) => ({ tuning, duration })),
+      channel: CHANNEL,
+      source: SOURCE,
+      envelope,
+    });
+  }, [f0, envelope, playSequence]);
 
 
 
@@ -101,7 +341,7 @@ export default function DyadicExplorerPage() {
 
   const handleMouseMove = useCallback((e: ReactMouseEvent<SVGSVGElement>) => {
     const svgEl = svgRef.current;
-    if (!svgEl) return;
+    if (!svgEl || isSweeping) return;
     let svgX: number | null = null;
     try {
       const pt = svgEl.createSVGPoint();
@@ -125,13 +365,19 @@ export default function DyadicExplorerPage() {
       svgX = ((e.clientX - rect.left) / rect.width) * SVG_WIDTH;
     }
     const x = Math.max(MARGIN.left, Math.min(SVG_WIDTH - MARGIN.right, svgX));
-    const ratio = RATIO_MIN + ((x - MARGIN.left) / INNER_WIDTH) * (RATIO_MAX - RATIO_MIN);
-    setSelectedRatio(ratio);
-  }, [INNER_WIDTH, MARGIN.left, MARGIN.right, RATIO_MAX, RATIO_MIN]);
+    const axisMin = ratioToAxis(RATIO_MIN, axisScale);
+    const axisMax = ratioToAxis(RATIO_MAX, axisScale);
+    setSelectedRatio(axisToRatio(axisMin + ((x - MARGIN.left) / INNER_WIDTH) * (axisMax - axisMin), axisScale));
+  }, [INNER_WIDTH, MARGIN.left, MARGIN.right, RATIO_MAX, RATIO_MIN, axisScale, isSweeping]);
 
+  const axisPosition = (ratio: number) => {
+    const axisMin = ratioToAxis(RATIO_MIN, axisScale);
+    const axisMax = ratioToAxis(RATIO_MAX, axisScale);
+    return (ratioToAxis(ratio, axisScale) - axisMin) / (axisMax - axisMin);
+  };
   const ratioToX = (ratio: number) => {
     const clamped = Math.max(RATIO_MIN, Math.min(RATIO_MAX, ratio));
-    return MARGIN.left + ((clamped - RATIO_MIN) / (RATIO_MAX - RATIO_MIN)) * INNER_WIDTH;
+    return MARGIN.left + axisPosition(clamped) * INNER_WIDTH;
   };
   const valueToY = (value: number) => {
     const clamped = Math.max(0, Math.min(1, value));
@@ -152,13 +398,8 @@ export default function DyadicExplorerPage() {
   }
 
   const clampedSelectedRatio = Math.max(RATIO_MIN, Math.min(RATIO_MAX, selectedRatio));
-  const selectedNormalizedValue = (() => {
-    if (!samples.xs.length) return 0;
-    const position = (clampedSelectedRatio - RATIO_MIN) / (RATIO_MAX - RATIO_MIN);
-    const approximateIndex = Math.round(position * (samples.xs.length - 1));
-    const index = Math.max(0, Math.min(samples.ys.length - 1, approximateIndex));
-    return samples.ys[index];
-  })();
+  const selectedNormalizedValue = normalizedCurveAt(clampedSelectedRatio);
+  const selectedJust = identifyJustInterval(clampedSelectedRatio, justOptions);
   const selectedX = ratioToX(clampedSelectedRatio);
   const selectedY = valueToY(selectedNormalizedValue);
   const flavorStyles = {
@@ -188,35 +429,45 @@ export default function DyadicExplorerPage() {
                 onChange={setF0}
               />
 
-              <SliderControl
-                label="Partials"
-                value={partials}
-                displayValue={`${partials}`}
-                min={1}
-                max={6}
-                step={1}
-                onChange={(value) => setPartials(Math.round(value))}
-              />
+              <NoteNamingControls naming={noteNaming} onChange={setNoteNaming} />
+              <SpectrumControls settings={spectrumSettings} onChange={setSpectrumSettings} />
 
-              <SliderControl
-                label="Rolloff"
-                value={rolloff}
-                displayValue={rolloff.toFixed(1)}
-                min={0.5}
-                max={2.5}
-                step={0.1}
-                onChange={setRolloff}
-              />
+              <div className="space-y-1">
+                <SelectControl
+                  label="Roughness model"
+                  value={modelId}
+                  options={ROUGHNESS_MODELS.map((item) => ({ value: item.id, label: item.label }))}
+                  onChange={setModelId}
+                />
+                <p className="text-xs text-gray-500">{model.description}</p>
+              </div>
 
               <SliderControl
                 label="r (ratio)"
                 value={selectedRatio}
                 displayValue={`${selectedRatio.toFixed(3)}×`}
-                min={1}
-                max={2}
+                min={RATIO_MIN}
+                max={RATIO_MAX}
                 step={0.001}
                 onChange={setSelectedRatio}
               />
+
+              <div className="grid grid-cols-2 gap-3">
+                <SelectControl
+                  label="Range"
+                  value={`${rangeOctaves}`}
+                  options={RANGE_OCTAVE_OPTIONS.map((octaves) => ({
+                    value: `${octaves}`,
+                    label: `${octaves} octave${octaves === 1 ? "" : "s"} (${Math.pow(2, octaves)}:1)`,
+                  }))}
+                  onChange={(value) => {
+                    const octaves = Number(value);
+                    setRangeOctaves(octaves);
+                    setSelectedRatio((ratio) => Math.min(ratio, Math.pow(2, octaves)));
+                  }}
+                />
+                <SelectControl label="Axis" value={axisScale} options={RATIO_AXIS_SCALES} onChange={setAxisScale} />
+              </div>
               
               <div className="pt-2 space-y-3">
                 <div className="flex items-center">
@@ -229,13 +480,110 @@ export default function DyadicExplorerPage() {
                   />
                   <label htmlFor="show-interval-guides" className="ml-2 text-sm font-medium text-gray-300">Show interval guides</label>
                 </div>
+
+                <div className="flex items-start justify-between gap-2">
+                  <ScalaImportControl
+                    label="Use a Scala scale as guides…"
+                    onScale={(scale) => { setImportedScale(scale); setShowIntervalGuides(true); }}
+                    onMapping={(mapping) => setF0(Math.round(Math.min(1000, Math.max(50, mappingRootFrequency(mapping, importedScale)))))}
+                  />
+                  {importedScale && (
+                    <button type="button" onClick={() => setImportedScale(null)} className="text-xs text-gray-400 hover:text-gray-200">
+                      Reset guides
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="show-curve-minima"
+                    checked={showMinima}
+                    onChange={(e) => setShowMinima(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                  />
+                  <label htmlFor="show-curve-minima" className="ml-2 text-sm font-medium text-gray-300">Show curve minima and peaks</label>
+                </div>
+
+                {showMinima && <JustIntonationControls options={justOptions} onChange={setJustOptions} />}
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="show-edo-overlay"
+                    checked={showEdoOverlay}
+                    onChange={(e) => setShowEdoOverlay(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                  />
+                  <label htmlFor="show-edo-overlay" className="ml-2 text-sm font-medium text-gray-300">Show EDO overlay</label>
+                </div>
+
+                {showEdoOverlay && (
+                  <SliderControl
+                    label="EDO divisions"
+                    value={edoDivisions}
+                    displayValue={`${edoDivisions}-EDO`}
+                    min={5}
+                    max={72}
+                    step={1}
+                    onChange={(value) => setEdoDivisions(Math.round(value))}
+                  />
+                )}
                 
+                <EnvelopeControls
+                  envelope={envelope}
+                  hold={holdNotes}
+                  onChange={setEnvelope}
+                  onHoldChange={(hold) => { setHoldNotes(hold); if (!hold) stopAudio(); }}
+                />
+
                 <div className="flex gap-3 pt-2">
                   <button className="flex-1 py-2 px-4 bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg" 
-                    onClick={() => { void playAudio(f0, selectedRatio); }}>
+                    onClick={() => { void playAudio(f0, selectedRatio, holdNotes); }}>
                     ▶ Play
                   </button>
+                  {holdNotes && (
+                    <button
+                      type="button"
+                      onClick={stopAudio}
+                      className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-blue-400/70"
+                    >
+                      ■ Stop
+                    </button>
+                  )}
                 </div>
+                <div className="space-y-3 rounded-lg border border-white/10 px-3 py-3">
+                  <SliderControl
+                    label="Sweep duration"
+                    value={sweepDuration}
+                    displayValue={`${sweepDuration} s`}
+                    min={2}
+                    max={30}
+                    step={1}
+                    onChange={(value) => setSweepDuration(Math.round(value))}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => { if (isSweeping) stopAudio(); else void startSweep(); }}
+                    className="w-full py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-red-400/70"
+                  >
+                    {isSweeping ? "■ Stop sweep" : `↗ Sweep ${RATIO_MIN}× → ${RATIO_MAX}×`}
+                  </button>
+                </div>
+
+                <DownloadAudioButton
+                  f0={f0}
+                  spectrum={spectrum}
+                  tuning={[1, selectedRatio]}
+                  envelope={envelope}
+                  name={`dyad-${f0}hz-${selectedRatio.toFixed(3)}`}
+                />
+                <CopyLinkButton query={urlQuery} />
+                <MidiControls
+                  frequencies={[f0, f0 * selectedRatio]}
+                  onHeldNotes={handleMidiNotes}
+                  inputHint="Hold two keys: the equal-tempered interval between the lowest and highest sets the ratio."
+                />
               </div>
             </div>
             
@@ -244,9 +592,19 @@ export default function DyadicExplorerPage() {
               <div className="text-2xl font-bold text-center py-3 bg-gray-800/50 rounded-lg text-blue-300">
                 {selectedRatio.toFixed(3)}×
               </div>
+              <div className="text-center text-sm text-gray-300 mt-2 font-mono">
+                {ratioToNoteName(1, f0, noteNaming, justOptions)} – {ratioToNoteName(clampedSelectedRatio, f0, noteNaming, justOptions)}
+              </div>
               <div className="text-center text-sm text-gray-400 mt-2">
                 Relative dissonance: {selectedNormalizedValue.toFixed(2)}
               </div>
+              {selectedJust && (
+                <div className="text-center text-sm text-emerald-300 mt-1">
+                  ≈ {formatFraction(selectedJust)}
+                  {selectedJust.name ? ` ${selectedJust.name}` : ""}
+                  <span className="text-gray-500"> {formatCentsError(selectedJust.errorCents)}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -255,14 +613,14 @@ export default function DyadicExplorerPage() {
         <div className="flex-1 space-y-6">
           {/* Waveform build-up section */}
           <div className="rounded-xl border border-white/10 bg-gradient-to-br from-gray-900 to-gray-950 p-5 shadow-lg">
-            <WaveformBreakdown f0={f0} ratio={clampedSelectedRatio} partials={partials} rolloff={rolloff} />
+            <WaveformBreakdown f0={f0} ratio={clampedSelectedRatio} spectrum={spectrum} />
           </div>
           
           {/* Visualization */}
           <div className="rounded-xl border border-white/10 bg-gradient-to-br from-gray-900 to-gray-950 p-5 shadow-lg">
             <svg ref={svgRef} viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`} className="w-full h-[360px] cursor-crosshair"
               onMouseMove={handleMouseMove}
-              onClick={() => { void playAudio(f0, selectedRatio); }}
+              onClick={() => { void playAudio(f0, selectedRatio, holdNotes); }}
             >
               <rect x="0" y="0" width={SVG_WIDTH} height={SVG_HEIGHT} fill="transparent" />
               <defs>
@@ -299,6 +657,15 @@ export default function DyadicExplorerPage() {
               })}
               {/* Axes */}
               <line x1={MARGIN.left} y1={baselineY} x2={SVG_WIDTH - MARGIN.right} y2={baselineY} stroke="#ffffff33" strokeWidth="1" />
+              {axisTicks.map((tick) => {
+                const x = ratioToX(tick.ratio);
+                return (
+                  <g key={`tick-${tick.ratio}`}>
+                    <line x1={x} y1={baselineY} x2={x} y2={baselineY + 5} stroke="#ffffff55" />
+                    <text x={x} y={baselineY + 26} fill="#94a3b8" fontSize="10" textAnchor="middle">{tick.label}</text>
+                  </g>
+                );
+              })}
               <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={baselineY} stroke="#ffffff33" strokeWidth="1" />
               {/* Interval guides - shown when toggle is enabled */}
               {showIntervalGuides && intervalGuides.map((guide, idx) => {
@@ -307,17 +674,75 @@ export default function DyadicExplorerPage() {
                 const style = flavorStyles[guide.flavor];
                 return (
                   <g 
-                    key={`guide-${guide.name}`}
+                    key={`guide-${idx}-${guide.name}`}
                     style={{ cursor: 'pointer' }}
                     onClick={() => playAudio(f0, guide.ratio)}
                   >
+                    <title>{`${guide.name} (${guide.text}) · D = ${normalizedCurveAt(guide.ratio).toFixed(4)}`}</title>
                     <line x1={xJust} y1={MARGIN.top} x2={xJust} y2={baselineY} stroke={style.line} strokeDasharray="6 5" strokeWidth="1.4" strokeOpacity={0.9} />
+                    <circle cx={xJust} cy={valueToY(normalizedCurveAt(guide.ratio))} r="3" fill={style.line} />
                     <g transform={`translate(${xJust}, ${labelY})`}>
                       <text x="0" y="-2" fill={style.text} fontSize="10" textAnchor="middle" fontWeight="600">{guide.name}</text>
                     </g>
                   </g>
                 );
               })}
+              {/* Curve minima */}
+              {showMinima && samples.minima.map((minimum, idx) => {
+                const x = ratioToX(minimum.r);
+                const y = valueToY(minimum.y);
+                const just = justMinima[idx];
+                const identity = just
+                  ? ` ≈ ${formatFraction(just)}${just.name ? ` ${just.name}` : ""} (${formatCentsError(just.errorCents)})`
+                  : "";
+                return (
+                  <g
+                    key={`minimum-${minimum.i}`}
+                    style={{ cursor: 'pointer' }}
+                    onClick={(event) => { event.stopPropagation(); void playAudio(f0, minimum.r); }}
+                  >
+                    <title>{`Minimum at ${minimum.r.toFixed(6)}× (${ratioToCents(minimum.r).toFixed(2)}¢)${identity} · D = ${minimum.y.toFixed(4)}`}</title>
+                    <circle cx={x} cy={y} r="14" fill="url(#dyad-minima-glow)" />
+                    <circle cx={x} cy={y} r="4" fill="#22c55e" />
+                    {just && (
+                      <text x={x} y={y + 18} fill="#86efac" fontSize="10" textAnchor="middle" fontWeight="600">
+                        {formatFraction(just)}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+              {/* Curve peaks */}
+              {showMinima && samples.peaks.map((peak) => {
+                const x = ratioToX(peak.r);
+                const y = valueToY(peak.y);
+                return (
+                  <g key={`peak-${peak.i}`}>
+                    <title>{`Peak at ${peak.r.toFixed(6)}× (${ratioToCents(peak.r).toFixed(2)}¢) · D = ${peak.y.toFixed(4)}`}</title>
+                    <path d={`M ${x - 4} ${y - 7} L ${x + 4} ${y - 7} L ${x} ${y - 1} Z`} fill="#ef4444" />
+                  </g>
+                );
+              })}
+              {/* EDO overlay - each step marked on the curve */}
+              {showEdoOverlay && edoAnalysis.steps.map((step) => {
+                const x = ratioToX(step.ratio);
+                const y = valueToY(step.value);
+                const deviation = step.deviationCents === null ? "no minimum" : `${step.deviationCents >= 0 ? "+" : ""}${step.deviationCents.toFixed(1)}¢ from minimum`;
+                return (
+                  <g
+                    key={`edo-${step.step}`}
+                    style={{ cursor: 'pointer' }}
+                    onClick={(event) => { event.stopPropagation(); void playAudio(f0, step.ratio); }}
+                  >
+                    <title>{`Step ${step.step} · ${step.cents.toFixed(1)}¢ · D ≈ ${step.value.toFixed(3)} · ${deviation}`}</title>
+                    <line x1={x} y1={y} x2={x} y2={baselineY} stroke="#a78bfa" strokeOpacity={0.45} strokeWidth="1" />
+                    <circle cx={x} cy={y} r="3.5" fill="#a78bfa" stroke="#0f172a" strokeWidth="1" />
+                    {edoAnalysis.steps.length <= 25 && (
+                      <text x={x} y={baselineY + 14} fill="#c4b5fd" fontSize="9" textAnchor="middle">{step.step}</text>
+                    )}
+                  </g>
+                );
+              })}
               {/* Selected ratio marker */}
               {selectedRatio && (
                 <g>
@@ -327,15 +752,54 @@ export default function DyadicExplorerPage() {
                   <text x={selectedX} y={MARGIN.top - 14} fill="#f1f5f9" fontSize="11" textAnchor="middle">r = {clampedSelectedRatio.toFixed(3)}×</text>
                   <rect x={selectedX - 60} y={selectedY - 34} width="120" height="20" rx="6" fill="#111827" opacity="0.9" />
                   <text x={selectedX} y={selectedY - 20} fill="#f1f5f9" fontSize="10" textAnchor="middle">
-                    Relative dissonance ≈ {selectedNormalizedValue.toFixed(2)}
+                    Relative dissonance = {selectedNormalizedValue.toFixed(2)}
                   </text>
                 </g>
               )}
               {/* Axis labels */}
-              <text x={(MARGIN.left + SVG_WIDTH - MARGIN.right) / 2} y={SVG_HEIGHT - 8} fill="#cbd5f5" fontSize="12" textAnchor="middle" fontWeight="600">Interval ratio r</text>
+              <text x={(MARGIN.left + SVG_WIDTH - MARGIN.right) / 2} y={SVG_HEIGHT - 8} fill="#cbd5f5" fontSize="12" textAnchor="middle" fontWeight="600">{ratioAxisTitle(axisScale, "r")}</text>
               <text x={16} y={(MARGIN.top + baselineY) / 2} fill="#cbd5f5" fontSize="12" textAnchor="middle" fontWeight="600" transform={`rotate(-90, 16, ${(MARGIN.top + baselineY) / 2})`}>Relative dissonance index</text>
             </svg>
           </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-gray-900 to-gray-950 p-5 shadow-lg">
+            <ScaleBuilderPanel
+              f0={f0}
+              spectrum={spectrum}
+              model={model}
+              onPlayDegree={(ratio) => { void playAudio(f0, ratio); }}
+              onPlayRun={(ratios) => { void playSteps(ratios.map((ratio) => [ratio]), 0.45); }}
+              onPlayChords={(chords) => { void playSteps(chords, 1.2); }}
+            />
+          </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-gray-900 to-gray-950 p-5 shadow-lg">
+            <TimbreSolverPanel
+              f0={f0}
+              model={model}
+              onAudition={(candidate, tunings, duration) => { void auditionSpectrum(candidate, tunings, duration); }}
+              onUseSpectrum={(partials) => setSpectrumSettings((current) => ({ ...current, kind: "custom", custom: partials }))}
+            />
+          </div>
+
+          {showEdoOverlay && (
+            <div className="rounded-xl border border-white/10 bg-gradient-to-br from-gray-900 to-gray-950 p-5 shadow-lg">
+              <EdoScoreCard analysis={edoAnalysis} f0={f0} onPlayStep={(ratio) => { void playAudio(f0, ratio); }} />
+            </div>
+          )}
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-gray-900 to-gray-950 p-5 shadow-lg">
+            <PresetLibraryPanel
+              explorer="dyadic"
+              current={{ f0, spectrum: spectrumSettings, modelId, ratios: [selectedRatio] }}
+              onLoad={(preset) => {
+                setF0(Math.round(Math.min(1000, Math.max(50, preset.f0))));
+                setSpectrumSettings(preset.spectrum);
+                setModelId(preset.modelId);
+                setSelectedRatio(Math.max(RATIO_MIN, Math.min(RATIO_MAX, preset.ratios[0])));
+              }}
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -343,7 +807,8 @@ export default function DyadicExplorerPage() {
 }
 
 
-function WaveformBreakdown({ f0, ratio, partials, rolloff }: { f0: number; ratio: number; partials: number; rolloff: number }) {
+function WaveformBreakdown({ f0, ratio, spectrum }: { f0: number; ratio: number; spectrum: Spectrum }) {
+  const partials = spectrum.freq.length;
   const sampleCount = 360;
   const breakdown = useMemo(() => {
     // Short-term view (2 periods) - for detailed analysis
@@ -354,8 +819,9 @@ function WaveformBreakdown({ f0, ratio, partials, rolloff }: { f0: number; ratio
     const partnerSum = Array(sampleCount).fill(0);
     let maxAbs = 0;
 
-    for (let k = 1; k <= partials; k++) {
-      const amp = 1 / Math.pow(k, rolloff);
+    for (let idx = 0; idx < partials; idx++) {
+      const k = spectrum.freq[idx];
+      const amp = spectrum.amp[idx];
       const baseValues = shortTimes.map((t) => amp * Math.sin(2 * Math.PI * k * t));
       const partnerValues = shortTimes.map((t) => amp * Math.sin(2 * Math.PI * k * ratio * t));
       basePartialsValues.push(baseValues);
@@ -378,8 +844,9 @@ function WaveformBreakdown({ f0, ratio, partials, rolloff }: { f0: number; ratio
     const longSampleCount = 720; // Higher resolution for the longer view
     const longTimes = Array.from({ length: longSampleCount }, (_, i) => (i / (longSampleCount - 1)) * 20);
     
-    for (let k = 1; k <= partials; k++) {
-      const amp = 1 / Math.pow(k, rolloff);
+    for (let idx = 0; idx < partials; idx++) {
+      const k = spectrum.freq[idx];
+      const amp = spectrum.amp[idx];
       const longBaseValues = longTimes.map((t) => amp * Math.sin(2 * Math.PI * k * t));
       const longPartnerValues = longTimes.map((t) => amp * Math.sin(2 * Math.PI * k * ratio * t));
       for (let i = 0; i < longSampleCount; i++) {
@@ -425,8 +892,9 @@ function WaveformBreakdown({ f0, ratio, partials, rolloff }: { f0: number; ratio
     const longPartnerSum = Array(longSampleCount).fill(0);
     const longCombined = Array(longSampleCount).fill(0);
 
-    for (let k = 1; k <= partials; k++) {
-      const amp = 1 / Math.pow(k, rolloff);
+    for (let idx = 0; idx < partials; idx++) {
+      const k = spectrum.freq[idx];
+      const amp = spectrum.amp[idx];
       const longBaseValues = longTimes.map((t) => amp * Math.sin(2 * Math.PI * k * t));
       const longPartnerValues = longTimes.map((t) => amp * Math.sin(2 * Math.PI * k * ratio * t));
       for (let i = 0; i < longSampleCount; i++) {
@@ -472,10 +940,11 @@ function WaveformBreakdown({ f0, ratio, partials, rolloff }: { f0: number; ratio
       allPartialData: basePartialsValues.map((baseValues, idx) => ({
         basePath: toShortPath(baseValues),
         partnerPath: toShortPath(partnerPartialsValues[idx]),
-        partialNumber: idx + 1
+        partialNumber: idx + 1,
+        multiplier: spectrum.freq[idx]
       }))
     };
-  }, [partials, ratio, rolloff, sampleCount]);
+  }, [partials, ratio, spectrum, sampleCount]);
 
   const toneB = (f0 * ratio).toFixed(1);
 
@@ -489,7 +958,7 @@ function WaveformBreakdown({ f0, ratio, partials, rolloff }: { f0: number; ratio
             <div key={`partial-row-${idx}`} className="grid grid-cols-2 gap-4">
               <WavePanel
                 title={`Partial ${partialData.partialNumber}`}
-                subtitle={`Base tone, ${f0.toFixed(1)} Hz × ${partialData.partialNumber}`}
+                subtitle={`Base tone, ${f0.toFixed(1)} Hz × ${Number(partialData.multiplier.toFixed(3))}`}
                 partialPaths={[]}
                 partialColor="#38bdf8"
                 sumPath={partialData.basePath}
@@ -499,7 +968,7 @@ function WaveformBreakdown({ f0, ratio, partials, rolloff }: { f0: number; ratio
               />
               <WavePanel
                 title={`Partial ${partialData.partialNumber}`}
-                subtitle={`Shifted tone, ${(f0 * ratio).toFixed(1)} Hz × ${partialData.partialNumber}`}
+                subtitle={`Shifted tone, ${(f0 * ratio).toFixed(1)} Hz × ${Number(partialData.multiplier.toFixed(3))}`}
                 partialPaths={[]}
                 partialColor="#fb923c"
                 sumPath={partialData.partnerPath}
@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { ChangeEvent } from "react";
+import { RoughnessTimelinePlot } from "@/components/visualizations/RoughnessTimelinePlot";
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { NoteNamingControls } from "@/components/visualizations/NoteNamingControls";
+import { SpectrumControls } from "@/components/visualizations/SpectrumControls";
+import { downloadFile } from "@/lib/download";
+import { DEFAULT_NOTE_NAMING } from "@/lib/dissonance/noteNames";
+import type { NoteNaming } from "@/lib/dissonance/noteNames";
+import { ROUGHNESS_MODELS, getRoughnessModel } from "@/lib/dissonance/roughness";
+import type { RoughnessModelId } from "@/lib/dissonance/roughness";
+import { DEFAULT_SPECTRUM_SETTINGS, buildSpectrum } from "@/lib/dissonance/spectra";
+import { buildRoughnessTimeline, segmentNoteNames, timelineToCsv } from "@/lib/dissonance/timeline";
+import type { TimelineSegment } from "@/lib/dissonance/timeline";
+import type { SpectrumSettings } from "@/lib/dissonance/types";
+import { useReferenceTonePlayer } from "@/lib/dissonance/useReferenceTonePlayer";
+import { PERCUSSION_CHANNEL, parseMidiFile } from "@/lib/midi/smf";
+import type { MidiFile } from "@/lib/midi/smf";
+
+const MIN_SEGMENT_PLAYBACK = 0.25;
+const MAX_SEGMENT_PLAYBACK = 4;
+
+export default function MidiAnalysisPage() {
+  const CHANNEL = "dissonance-audio";
+  const SOURCE = "midi-analysis";
+
+  const [midi, setMidi] = useState<{ name: string; file: MidiFile } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>({
+    ...DEFAULT_SPECTRUM_SETTINGS,
+    partials: 6,
+  });
+  const [modelId, setModelId] = useState<RoughnessModelId>("sethares");
+  const [ignoreDrums, setIgnoreDrums] = useState(true);
+  const [noteNaming, setNoteNaming] = useState<NoteNaming>(DEFAULT_NOTE_NAMING);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const { playSequence, stopAll } = useReferenceTonePlayer();
+
+  const spectrum = useMemo(() => buildSpectrum(spectrumSettings), [spectrumSettings]);
+  const model = useMemo(() => getRoughnessModel(modelId), [modelId]);
+
+  const notes = useMemo(
+    () => (midi?.file.notes ?? []).filter((note) => !ignoreDrums || note.channel !== PERCUSSION_CHANNEL),
+    [midi, ignoreDrums]
+  );
+  const segments = useMemo(
+    () => buildRoughnessTimeline(notes, spectrum, model, noteNaming.concertPitch),
+    [notes, spectrum, model, noteNaming.concertPitch]
+  );
+  const selectedSegment = selectedIndex === null ? null : segments[selectedIndex] ?? null;
+
+  const summary = useMemo(() => {
+    if (!segments.length) return null;
+    const totalTime = segments.reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+    const weighted = segments.reduce((sum, segment) => sum + segment.dissonance * (segment.end - segment.start), 0);
+    const peak = segments.reduce((best, segment) => (segment.dissonance > best.dissonance ? segment : best));
+    return { mean: totalTime > 0 ? weighted / totalTime : 0, peak };
+  }, [segments]);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parseMidiFile(await file.arrayBuffer());
+      if (!parsed.notes.length) throw new Error("The file contains no notes");
+      setMidi({ name: file.name, file: parsed });
+      setSelectedIndex(null);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(`${file.name}: ${error instanceof Error ? error.message : "could not be read"}`);
+    }
+  };
+
+  const playSegment = useCallback(
+    (segment: TimelineSegment) => {
+      if (!spectrum.freq.length) return;
+      const duration = Math.min(Math.max(segment.end - segment.start, MIN_SEGMENT_PLAYBACK), MAX_SEGMENT_PLAYBACK);
+      void playSequence({
+        baseFrequency: segment.baseFrequency,
+        partialMultipliers: spectrum.freq,
+        partialAmplitudes: spectrum.amp,
+        steps: [{ tuning: segment.ratios, duration }],
+        sustain: true,
+        channel: CHANNEL,
+        source: SOURCE,
+      });
+    },
+    [playSequence, spectrum]
+  );
+
+  const selectSegment = (index: number) => {
+    setSelectedIndex(index);
+    playSegment(segments[index]);
+  };
+
+  const exportCsv = () => {
+    if (!midi) return;
+    const baseName = midi.name.replace(/\.midi?$/iu, "");
+    downloadFile(`${baseName}-roughness.csv`, timelineToCsv(segments, noteNaming), "text/csv");
+  };
+
+  useEffect(() => {
+    let bc: BroadcastChannel | null = null;
+    try {
+      bc = new BroadcastChannel(CHANNEL);
+      bc.onmessage = (event) => {
+        if (event?.data?.type === "stop-others" && event?.data?.src !== SOURCE) {
+          stopAll();
+        }
+      };
+    } catch {}
+
+    return () => {
+      stopAll();
+      try { bc?.close(); } catch {}
+    };
+  }, [stopAll]);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-semibold">MIDI Analysis</h1>
+
+      <div className="flex flex-col gap-6 lg:flex-row">
+        <div className="lg:w-80 w-full flex-shrink-0 lg:sticky lg:top-6 lg:self-start">
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-4 h-full">
+            <h2 className="text-lg font-semibold text-white mb-2">Parameters</h2>
+
+            <div className="space-y-5">
+              <div className="space-y-1">
+                <label className="block w-full cursor-pointer rounded-lg border border-dashed border-white/20 px-4 py-3 text-center text-sm text-gray-300 transition hover:border-orange-400/70">
+                  {midi ? `Loaded ${midi.name} — choose another…` : "Choose a MIDI file (.mid)…"}
+                  <input
+                    type="file"
+                    accept=".mid,.midi,audio/midi"
+                    className="hidden"
+                    onChange={(event) => { void handleFile(event); }}
+                  />
+                </label>
+                {loadError && <p className="text-xs text-red-300">{loadError}</p>}
+                <p className="text-xs text-gray-500">Files are parsed in the browser and never uploaded.</p>
+              </div>
+
+              <SpectrumControls settings={spectrumSettings} onChange={setSpectrumSettings} accent="orange" />
+              <NoteNamingControls naming={noteNaming} onChange={setNoteNaming} accent="orange" />
+
+              <div className="space-y-1">
+                <SelectControl
+                  label="Roughness model"
+                  value={modelId}
+                  options={ROUGHNESS_MODELS.map((item) => ({ value: item.id, label: item.label }))}
+                  onChange={setModelId}
+                  accent="orange"
+                />
+                <p className="text-xs text-gray-500">{model.description}</p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="midi-ignore-drums"
+                  checked={ignoreDrums}
+                  onChange={(event) => setIgnoreDrums(event.target.checked)}
+                  className="w-4 h-4 rounded focus:ring-2 text-orange-500 bg-slate-800 border-slate-700 focus:ring-orange-500"
+                />
+                <label htmlFor="midi-ignore-drums" className="text-sm text-gray-300">
+                  Ignore percussion (channel 10)
+                </label>
+              </div>
+
+              <button
+                type="button"
+                onClick={exportCsv}
+                disabled={!segments.length}
+                className="w-full py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-orange-400/70 disabled:opacity-40"
+              >
+                ⬇ Export timeline CSV
+              </button>
+            </div>
+
+            {midi && (
+              <div className="pt-4 border-t border-white/10 space-y-2 text-sm text-gray-300">
+                <div className="flex justify-between">
+                  <span>Tracks</span>
+                  <span className="font-mono text-gray-100">{midi.file.trackCount} (format {midi.file.format})</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Notes</span>
+                  <span className="font-mono text-gray-100">{notes.length}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Duration</span>
+                  <span className="font-mono text-gray-100">{midi.file.duration.toFixed(1)} s</span>
+                </div>
+                {summary && (
+                  <>
+                    <div className="flex justify-between">
+                      <span>Mean roughness</span>
+                      <span className="font-mono text-orange-300">{summary.mean.toFixed(3)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Peak</span>
+                      <span className="font-mono text-orange-300">
+                        {summary.peak.dissonance.toFixed(3)} at {summary.peak.start.toFixed(1)} s
+                      </span>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-6">
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
+            <h2 className="text-lg font-semibold text-white">Roughness timeline</h2>
+            <p className="text-sm text-gray-400">
+              The piece is cut at every note onset and release. Each window&apos;s sounding notes are scored as one chord
+              over its lowest note with the selected timbre and roughness model.
+            </p>
+            {segments.length ? (
+              <RoughnessTimelinePlot
+                segments={segments}
+                duration={midi?.file.duration ?? 0}
+                selectedIndex={selectedIndex}
+                onSelect={selectSegment}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">
+                {midi ? "No pitched notes to analyse." : "Load a MIDI file to see its roughness over time."}
+              </p>
+            )}
+          </div>
+
+          {selectedSegment && (
+            <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-white">Selected segment</h2>
+                <span className="text-xs uppercase tracking-widest text-white/60">
+                  {selectedSegment.start.toFixed(2)}–{selectedSegment.end.toFixed(2)} s
+                </span>
+              </div>
+              <div className="space-y-2 text-sm text-gray-300">
+                <div className="flex justify-between">
+                  <span>Notes</span>
+                  <span className="font-mono text-gray-100 text-right">{segmentNoteNames(selectedSegment, noteNaming).join(" – ")}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Ratios</span>
+                  <span className="font-mono text-gray-100 text-right">
+                    {selectedSegment.ratios.map((ratio) => `${ratio.toFixed(3)}×`).join(", ")}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Roughness</span>
+                  <span className="font-mono text-orange-300">{selectedSegment.dissonance.toFixed(3)}</span>
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => playSegment(selectedSegment)}
+                  className="flex-1 py-2 px-4 bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg"
+                >
+                  ▶ Play segment
+                </button>
+                <button
+                  type="button"
+                  onClick={stopAll}
+                  className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-orange-400/70"
+                >
+                  ■ Stop
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,538 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import { NoteNamingControls } from "@/components/visualizations/NoteNamingControls";
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { SpectrumControls } from "@/components/visualizations/SpectrumControls";
+import { extractConsonantMinima3D } from "@/lib/dissonance/minima";
+import type { ChordVolume, TetradMinimum } from "@/lib/dissonance/minima";
+import { DEFAULT_NOTE_NAMING, ratioToNoteName } from "@/lib/dissonance/noteNames";
+import type { NoteNaming } from "@/lib/dissonance/noteNames";
+import { ROUGHNESS_MODELS, getRoughnessModel } from "@/lib/dissonance/roughness";
+import type { RoughnessModelId } from "@/lib/dissonance/roughness";
+import { DEFAULT_SPECTRUM_SETTINGS, buildSpectrum } from "@/lib/dissonance/spectra";
+import type { SpectrumSettings } from "@/lib/dissonance/types";
+import { useChordVolume } from "@/lib/dissonance/useChordVolume";
+import { useReferenceTonePlayer } from "@/lib/dissonance/useReferenceTonePlayer";
+import { loadPlotly } from "@/lib/plotly";
+import type { PlotlyHTMLElement, PlotlyModule, PlotlyPointsEvent } from "@/lib/plotly";
+
+type TetradRatios = readonly [number, number, number];
+
+const PLOT_FONT = { color: "#e2e8f0" };
+
+function findNearestIndex(values: number[], target: number) {
+  let idx = 0;
+  let minDiff = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < values.length; i++) {
+    const diff = Math.abs(values[i] - target);
+    if (diff < minDiff) {
+      minDiff = diff;
+      idx = i;
+    }
+  }
+  return idx;
+}
+
+function sampleVolume(volume: ChordVolume, [r, s, t]: TetradRatios) {
+  const n = volume.axis.length;
+  const a = findNearestIndex(volume.axis, r);
+  const b = findNearestIndex(volume.axis, s);
+  const c = findNearestIndex(volume.axis, t);
+  return volume.values[(a * n + b) * n + c] ?? 0;
+}
+
+/** Heatmap rows are s, columns are r, at the grid plane nearest to t. */
+function sliceVolume(volume: ChordVolume, t: number) {
+  const n = volume.axis.length;
+  const c = findNearestIndex(volume.axis, t);
+  return Array.from({ length: n }, (_, b) =>
+    Array.from({ length: n }, (_, a) => volume.values[(a * n + b) * n + c])
+  );
+}
+
+export default function TetradExplorerPage() {
+  const CHANNEL = "dissonance-audio";
+  const SOURCE = "tetrad-explorer";
+  const UI_REVISION = "tetrad-explorer-volume";
+
+  const [f0, setF0] = useState(220);
+  const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>({
+    ...DEFAULT_SPECTRUM_SETTINGS,
+    partials: 4,
+  });
+  const [modelId, setModelId] = useState<RoughnessModelId>("sethares");
+  const [ratioR, setRatioR] = useState(5 / 4);
+  const [ratioS, setRatioS] = useState(3 / 2);
+  const [ratioT, setRatioT] = useState(7 / 4);
+  const [gridStep, setGridStep] = useState(0.05);
+  const [isoLevel, setIsoLevel] = useState(0.5);
+  const [minimaThreshold, setMinimaThreshold] = useState(0.5);
+  const [noteNaming, setNoteNaming] = useState<NoteNaming>(DEFAULT_NOTE_NAMING);
+
+  const volumeRef = useRef<HTMLDivElement | null>(null);
+  const sliceRef = useRef<HTMLDivElement | null>(null);
+  const playTetradRef = useRef<((ratios: TetradRatios) => void) | null>(null);
+  const latestTRef = useRef(ratioT);
+  const plotlyInstanceRef = useRef<PlotlyModule | null>(null);
+  const { playChord, stopAll } = useReferenceTonePlayer();
+
+  const spectrum = useMemo(() => buildSpectrum(spectrumSettings), [spectrumSettings]);
+  const model = useMemo(() => getRoughnessModel(modelId), [modelId]);
+
+  const { volume, isRefining } = useChordVolume({ baseFreq: f0, spectrum, modelId, step: gridStep });
+
+  const minima = useMemo(
+    () => extractConsonantMinima3D(volume, minimaThreshold, 8),
+    [volume, minimaThreshold]
+  );
+
+  const slice = useMemo(() => sliceVolume(volume, ratioT), [volume, ratioT]);
+
+  const selectedRatios = useMemo<TetradRatios>(() => [ratioR, ratioS, ratioT], [ratioR, ratioS, ratioT]);
+  const selectedValue = useMemo(() => sampleVolume(volume, selectedRatios), [volume, selectedRatios]);
+  const selectedNotes = useMemo(
+    () => [1, ...selectedRatios].map((ratio) => ratioToNoteName(ratio, f0, noteNaming)),
+    [f0, selectedRatios, noteNaming]
+  );
+
+  const playTetrad = useCallback(
+    (ratios: TetradRatios) => {
+      if (!spectrum.freq.length) return;
+      void playChord({
+        baseFrequency: f0,
+        partialMultipliers: spectrum.freq,
+        partialAmplitudes: spectrum.amp,
+        tuning: [1, ...ratios],
+        channel: CHANNEL,
+        source: SOURCE,
+      });
+    },
+    [f0, playChord, spectrum]
+  );
+
+  useEffect(() => {
+    playTetradRef.current = playTetrad;
+  }, [playTetrad]);
+
+  useEffect(() => {
+    latestTRef.current = ratioT;
+  }, [ratioT]);
+
+  const selectTetrad = useCallback(
+    (ratios: TetradRatios) => {
+      setRatioR(ratios[0]);
+      setRatioS(ratios[1]);
+      setRatioT(ratios[2]);
+      playTetrad(ratios);
+    },
+    [playTetrad]
+  );
+
+  // Purge only on unmount; redraws go through Plotly.react so clicks and new passes do not flicker.
+  useEffect(() => {
+    const volumeContainer = volumeRef.current;
+    const sliceContainer = sliceRef.current;
+    return () => {
+      const Plotly = plotlyInstanceRef.current;
+      if (!Plotly) return;
+      if (volumeContainer) Plotly.purge(volumeContainer);
+      if (sliceContainer) Plotly.purge(sliceContainer);
+    };
+  }, []);
+
+  // 3D isosurfaces with the current slice plane
+  useEffect(() => {
+    let isMounted = true;
+    const container = volumeRef.current;
+
+    const drawVolume = async () => {
+      const Plotly = await loadPlotly();
+      if (!container || !isMounted) return;
+
+      const n = volume.axis.length;
+      const xs: number[] = [];
+      const ys: number[] = [];
+      const zs: number[] = [];
+      for (let a = 0; a < n; a++) {
+        for (let b = 0; b < n; b++) {
+          for (let c = 0; c < n; c++) {
+            xs.push(volume.axis[a]);
+            ys.push(volume.axis[b]);
+            zs.push(volume.axis[c]);
+          }
+        }
+      }
+
+      const isoTrace = {
+        type: "isosurface" as const,
+        x: xs,
+        y: ys,
+        z: zs,
+        value: Array.from(volume.values),
+        isomin: 0,
+        isomax: isoLevel,
+        surface: { count: 3 },
+        caps: { x: { show: false }, y: { show: false }, z: { show: false } },
+        colorscale: "Viridis",
+        opacity: 0.35,
+        name: "Dissonance isosurfaces",
+      };
+
+      const planeTrace = {
+        type: "surface" as const,
+        x: volume.axis,
+        y: volume.axis,
+        z: volume.axis.map(() => volume.axis.map(() => latestTRef.current)),
+        showscale: false,
+        opacity: 0.25,
+        colorscale: [[0, "#f97316"], [1, "#f97316"]],
+        hoverinfo: "skip",
+        name: "Slice plane",
+      };
+
+      const minimaTrace = {
+        type: "scatter3d" as const,
+        mode: "markers",
+        x: minima.map((m) => m.ratios[0]),
+        y: minima.map((m) => m.ratios[1]),
+        z: minima.map((m) => m.ratios[2]),
+        marker: { color: "#22c55e", size: 4, symbol: "diamond" },
+        name: "Consonant minima",
+      };
+
+      const layout = {
+        margin: { t: 0, r: 0, b: 0, l: 0 },
+        scene: {
+          xaxis: { title: "Ratio r", gridcolor: "#1f2937" },
+          yaxis: { title: "Ratio s", gridcolor: "#1f2937" },
+          zaxis: { title: "Ratio t", gridcolor: "#1f2937" },
+          bgcolor: "rgba(15,23,42,0.85)",
+          camera: { eye: { x: 1.6, y: 1.4, z: 0.9 } },
+        },
+        paper_bgcolor: "rgba(15,23,42,0)",
+        font: PLOT_FONT,
+        showlegend: true,
+        legend: { x: 0.05, y: 0.95, bgcolor: "rgba(15,23,42,0.75)" },
+        uirevision: UI_REVISION,
+      };
+
+      await Plotly.react(container, [isoTrace, planeTrace, minimaTrace], layout, { responsive: true, displaylogo: false });
+      plotlyInstanceRef.current = Plotly;
+
+      const plotElement = container as unknown as PlotlyHTMLElement;
+      plotElement.removeAllListeners?.("plotly_click");
+      plotElement.on("plotly_click", (event) => {
+        const point = (event as PlotlyPointsEvent | undefined)?.points?.[0];
+        if (!point || typeof point.z !== "number") return;
+        playTetradRef.current?.([point.x, point.y, point.z]);
+        setRatioR(point.x);
+        setRatioS(point.y);
+        setRatioT(point.z);
+      });
+    };
+
+    drawVolume().catch((error) => {
+      console.warn("Failed to draw tetrad volume", error);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [volume, minima, isoLevel]);
+
+  // Move only the slice plane when t changes
+  useEffect(() => {
+    const Plotly = plotlyInstanceRef.current;
+    const container = volumeRef.current;
+    const plotElement = container as unknown as PlotlyHTMLElement | null;
+    if (!Plotly || !container || !Array.isArray(plotElement?.data) || !plotElement.data[1]) return;
+
+    const planeZ = volume.axis.map(() => volume.axis.map(() => ratioT));
+    Promise.resolve(Plotly.restyle(container, { z: [planeZ] }, [1])).catch((error) => {
+      console.warn("Failed to move tetrad slice plane, skipping frame", error);
+    });
+  }, [ratioT, volume.axis]);
+
+  // 2D slice at the current t
+  useEffect(() => {
+    let isMounted = true;
+    const container = sliceRef.current;
+
+    const drawSlice = async () => {
+      const Plotly = await loadPlotly();
+      if (!container || !isMounted) return;
+
+      const heatmapTrace = {
+        type: "heatmap" as const,
+        x: volume.axis,
+        y: volume.axis,
+        z: slice,
+        colorscale: "Viridis",
+        zmin: 0,
+        zmax: 1,
+        hovertemplate: "r=%{x:.3f}<br>s=%{y:.3f}<br>D=%{z:.3f}<extra></extra>",
+      };
+
+      const markerTrace = {
+        type: "scatter" as const,
+        mode: "markers",
+        x: [ratioR],
+        y: [ratioS],
+        marker: { color: "#f97316", size: 10, line: { color: "#0f172a", width: 2 } },
+        hoverinfo: "skip",
+        name: "Selected chord",
+      };
+
+      const layout = {
+        margin: { t: 10, r: 10, b: 48, l: 56 },
+        xaxis: { title: "Ratio r", gridcolor: "#1f2937" },
+        yaxis: { title: "Ratio s", gridcolor: "#1f2937", scaleanchor: "x" },
+        paper_bgcolor: "rgba(15,23,42,0)",
+        plot_bgcolor: "rgba(15,23,42,0.85)",
+        font: PLOT_FONT,
+        showlegend: false,
+        uirevision: UI_REVISION,
+      };
+
+      await Plotly.react(container, [heatmapTrace, markerTrace], layout, { responsive: true, displaylogo: false });
+      plotlyInstanceRef.current = Plotly;
+
+      const plotElement = container as unknown as PlotlyHTMLElement;
+      plotElement.removeAllListeners?.("plotly_click");
+      plotElement.on("plotly_click", (event) => {
+        const point = (event as PlotlyPointsEvent | undefined)?.points?.[0];
+        if (!point) return;
+        setRatioR(point.x);
+        setRatioS(point.y);
+        playTetradRef.current?.([point.x, point.y, latestTRef.current]);
+      });
+    };
+
+    drawSlice().catch((error) => {
+      console.warn("Failed to draw tetrad slice", error);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [volume.axis, slice, ratioR, ratioS]);
+
+  useEffect(() => {
+    let bc: BroadcastChannel | null = null;
+    try {
+      bc = new BroadcastChannel(CHANNEL);
+      bc.onmessage = (event) => {
+        if (event?.data?.type === "stop-others" && event?.data?.src !== SOURCE) {
+          stopAll();
+        }
+      };
+    } catch {}
+
+    return () => {
+      stopAll();
+      try { bc?.close(); } catch {}
+    };
+  }, [stopAll]);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-semibold">Tetrad Explorer</h1>
+
+      <div className="flex flex-col gap-6 lg:flex-row">
+        <div className="lg:w-80 w-full flex-shrink-0 lg:sticky lg:top-6 lg:self-start">
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-4 h-full">
+            <h2 className="text-lg font-semibold text-white mb-2">Parameters</h2>
+
+            <div className="space-y-5">
+              <SliderControl
+                label="Base f0 (Hz)"
+                value={f0}
+                displayValue={`${f0}`}
+                min={50}
+                max={1000}
+                step={1}
+                onChange={setF0}
+                accent="orange"
+              />
+              <NoteNamingControls naming={noteNaming} onChange={setNoteNaming} accent="orange" />
+              <SpectrumControls settings={spectrumSettings} onChange={setSpectrumSettings} accent="orange" />
+
+              <div className="space-y-1">
+                <SelectControl
+                  label="Roughness model"
+                  value={modelId}
+                  options={ROUGHNESS_MODELS.map((item) => ({ value: item.id, label: item.label }))}
+                  onChange={setModelId}
+                  accent="orange"
+                />
+                <p className="text-xs text-gray-500">{model.description}</p>
+              </div>
+
+              <SliderControl
+                label="Ratio r"
+                value={ratioR}
+                displayValue={`${ratioR.toFixed(3)}×`}
+                min={1}
+                max={2}
+                step={0.001}
+                onChange={setRatioR}
+                accent="orange"
+              />
+              <SliderControl
+                label="Ratio s"
+                value={ratioS}
+                displayValue={`${ratioS.toFixed(3)}×`}
+                min={1}
+                max={2}
+                step={0.001}
+                onChange={setRatioS}
+                accent="orange"
+              />
+              <SliderControl
+                label="Ratio t (slice)"
+                value={ratioT}
+                displayValue={`${ratioT.toFixed(3)}×`}
+                min={1}
+                max={2}
+                step={0.001}
+                onChange={setRatioT}
+                accent="orange"
+              />
+              <SliderControl
+                label="Grid step"
+                value={gridStep}
+                displayValue={gridStep.toFixed(3)}
+                min={0.025}
+                max={0.1}
+                step={0.005}
+                onChange={setGridStep}
+                accent="orange"
+              />
+              <SliderControl
+                label="Isosurface ceiling"
+                value={isoLevel}
+                displayValue={isoLevel.toFixed(2)}
+                min={0.2}
+                max={1}
+                step={0.01}
+                onChange={setIsoLevel}
+                accent="orange"
+              />
+              <SliderControl
+                label="Minima cutoff"
+                value={minimaThreshold}
+                displayValue={minimaThreshold.toFixed(2)}
+                min={0.2}
+                max={0.8}
+                step={0.01}
+                onChange={setMinimaThreshold}
+                accent="orange"
+              />
+
+              <button
+                className="w-full py-2 px-4 bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg"
+                onClick={() => playTetrad(selectedRatios)}
+              >
+                ▶ Play chord
+              </button>
+            </div>
+
+            <div className="pt-4 border-t border-white/10 space-y-2 text-sm text-gray-300">
+              <div className="flex justify-between">
+                <span>Chord</span>
+                <span className="font-mono text-gray-100 text-right">{selectedNotes.join(" – ")}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Ratios</span>
+                <span className="font-mono text-gray-100">
+                  {selectedRatios.map((ratio) => `${ratio.toFixed(3)}×`).join(", ")}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Roughness</span>
+                <span className="font-mono text-orange-300">{selectedValue.toFixed(3)}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 space-y-6">
+          <div className="relative rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
+            <h2 className="text-lg font-semibold text-white">Dissonance volume</h2>
+            <p className="text-sm text-gray-400">
+              Nested isosurfaces enclose the smoothest four-note chords. The orange plane marks the slice at t = {ratioT.toFixed(3)}×.
+            </p>
+            <div className="h-[460px]" ref={volumeRef} />
+            {isRefining && (
+              <span className="absolute right-5 top-5 rounded-full border border-white/10 bg-slate-900/80 px-3 py-1 text-[10px] uppercase tracking-widest text-orange-200">
+                Refining volume…
+              </span>
+            )}
+          </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
+            <h2 className="text-lg font-semibold text-white">Slice through the volume</h2>
+            <p className="text-sm text-gray-400">Click any cell to audition 1 : r : s : t with the current slice value of t.</p>
+            <div className="h-[420px]" ref={sliceRef} />
+          </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-white">Consonant tetrads</h2>
+              <span className="text-xs uppercase tracking-widest text-white/60">Local minima</span>
+            </div>
+            <p className="text-sm text-gray-400">
+              Minima of the full volume (r ≤ s ≤ t), compared against all 26 neighbouring grid cells.
+            </p>
+            <div className="space-y-3">
+              {minima.map((minimum) => (
+                <TetradMinimumCard
+                  key={minimum.ratios.map((ratio) => ratio.toFixed(4)).join("-")}
+                  minimum={minimum}
+                  notes={[1, ...minimum.ratios].map((ratio) => ratioToNoteName(ratio, f0, noteNaming))}
+                  onSelect={() => selectTetrad(minimum.ratios)}
+                />
+              ))}
+              {!minima.length && <p className="text-sm text-gray-500">No minima below the cutoff.</p>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type TetradMinimumCardProps = {
+  minimum: TetradMinimum;
+  notes: string[];
+  onSelect: () => void;
+};
+
+function TetradMinimumCard({ minimum, notes, onSelect }: TetradMinimumCardProps) {
+  const [r, s, t] = minimum.ratios;
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className="group w-full rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-left transition-all duration-200 hover:border-orange-400/70 hover:bg-orange-500/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-orange-400/80"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex gap-3">
+          <span className="mt-0.5 flex h-8 w-8 items-center justify-center rounded-full border border-white/20 bg-slate-900/60 text-xs font-semibold text-white transition group-hover:border-orange-400 group-hover:text-orange-200">
+            ▶
+          </span>
+          <div className="space-y-1">
+            <span className="font-medium text-white">{notes.join(" – ")}</span>
+            <div className="text-[11px] font-mono text-gray-500">{`r=${r.toFixed(3)}× · s=${s.toFixed(3)}× · t=${t.toFixed(3)}×`}</div>
+          </div>
+        </div>
+        <div className="flex flex-col items-end gap-1 text-xs">
+          <span className="font-mono text-emerald-300">{minimum.value.toFixed(3)}</span>
+          <span className="text-[10px] uppercase tracking-[0.3em] text-white/60">Roughness</span>
+        </div>
+      </div>
+    </button>
+  );
+}
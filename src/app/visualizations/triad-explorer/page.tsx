@@ -2,16 +2,66 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { SliderControl } from "@/components/visualizations/SliderControl";
-import { computeTriadSurface, ratioToNoteName, spectrumFromHarmonics } from "@/lib/dissonance/math";
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { DownloadAudioButton } from "@/components/visualizations/DownloadAudioButton";
+import { CopyLinkButton } from "@/components/visualizations/CopyLinkButton";
+import { EnvelopeControls } from "@/components/visualizations/EnvelopeControls";
+import { JustIntonationControls } from "@/components/visualizations/JustIntonationControls";
+import { MidiControls } from "@/components/visualizations/MidiControls";
+import { NoteNamingControls } from "@/components/visualizations/NoteNamingControls";
+import { PathProfilePlot } from "@/components/visualizations/PathProfilePlot";
+import { PresetLibraryPanel } from "@/components/visualizations/PresetLibraryPanel";
+import { ProgressionSequencer } from "@/components/visualizations/ProgressionSequencer";
+import { ScalaImportControl } from "@/components/visualizations/ScalaImportControl";
+import { SpectrumControls } from "@/components/visualizations/SpectrumControls";
+import { TRIAD_MAP_VIEWS, TriadMapPlot } from "@/components/visualizations/TriadMapPlot";
+import type { TriadMapView } from "@/components/visualizations/TriadMapPlot";
+import { DEFAULT_ENVELOPE } from "@/lib/dissonance/audio";
+import type { Envelope } from "@/lib/dissonance/audio";
+import { formatIntegerChord, identifyJustChord } from "@/lib/dissonance/chordNames";
+import type { JustChordMatch } from "@/lib/dissonance/chordNames";
+import { DEFAULT_JUST_INTONATION } from "@/lib/dissonance/intervals";
+import type { JustIntonationOptions } from "@/lib/dissonance/intervals";
+import { TRIAD_SURFACE_SAME_VOICE_WEIGHT, chordDissonance } from "@/lib/dissonance/math";
+import type { TriadSurface } from "@/lib/dissonance/math";
+import { extractConsonantMinima, refineTriadMinima } from "@/lib/dissonance/minima";
+import { DEFAULT_NOTE_NAMING, ratioToNoteName } from "@/lib/dissonance/noteNames";
+import type { NoteNaming } from "@/lib/dissonance/noteNames";
+import {
+  MAX_RANGE_OCTAVES,
+  RANGE_OCTAVE_OPTIONS,
+  RATIO_AXIS_SCALES,
+  adaptiveGridStep,
+  axisSpacing,
+  ratioAxisTicks,
+  ratioAxisTitle,
+} from "@/lib/dissonance/ratioAxis";
+import type { RatioAxisScale } from "@/lib/dissonance/ratioAxis";
+import { ROUGHNESS_MODELS, getRoughnessModel } from "@/lib/dissonance/roughness";
+import type { RoughnessModelId } from "@/lib/dissonance/roughness";
+import { formatScalaPitch, mappingRootFrequency } from "@/lib/dissonance/scala";
+import type { ScalaScale } from "@/lib/dissonance/scala";
+import { TRIAD_PATH_KINDS, circlePath, pointAlongPath, polylinePath, segmentPath } from "@/lib/dissonance/triadPaths";
+import type { TriadPathKind, TriadPoint } from "@/lib/dissonance/triadPaths";
+import { DEFAULT_SPECTRUM_SETTINGS, buildSpectrum } from "@/lib/dissonance/spectra";
+import type { Spectrum, SpectrumSettings } from "@/lib/dissonance/types";
 import { useReferenceTonePlayer } from "@/lib/dissonance/useReferenceTonePlayer";
-
-type SurfaceData = ReturnType<typeof computeTriadSurface>;
-
-type TriadMinimum = {
-  ratioX: number;
-  ratioY: number;
-  value: number;
-};
+import { useTriadSurface } from "@/lib/dissonance/useTriadSurface";
+import { loadPlotly, ratioAxisLayout, supportsWebGL } from "@/lib/plotly";
+import type { PlotlyHTMLElement, PlotlyModule, PlotlyPointsEvent } from "@/lib/plotly";
+import {
+  formatParamNumber,
+  readBooleanParam,
+  readChoiceParam,
+  readNoteNamingParams,
+  readNumberParam,
+  readSpectrumParams,
+  useUrlStateSync,
+  writeNoteNamingParams,
+  writeSpectrumParams,
+} from "@/lib/urlState";
+
+type SurfaceData = TriadSurface;
 
 type TriadSelection = {
   id: string;
@@ -20,31 +70,12 @@ type TriadSelection = {
   ratios: readonly [number, number];
   roughness: number;
   badge?: string;
-};
-
-type PlotlyModule = {
-  react: (
-    element: HTMLElement | null,
-    data: unknown[],
-    layout?: unknown,
-    config?: unknown
-  ) => Promise<unknown> | unknown;
-  purge: (element: HTMLElement | null) => void;
-  restyle: (
-    element: HTMLElement | null,
-    update: unknown,
-    traces?: number[]
-  ) => Promise<unknown> | unknown;
-};
-
-type PlotlyHTMLElement = HTMLElement & {
-  on: (event: string, handler: (event: unknown) => void) => void;
-  removeAllListeners?: (event?: string) => void;
-  data?: unknown[];
-  layout?: unknown;
+  /** Just-intonation reading of the chord, when every voice has a simple enough match. */
+  just?: JustChordMatch | null;
 };
 
 const TRIAD_TONE_COLORS = ["#38bdf8", "#fb923c", "#c084fc"] as const;
+const MAX_SCALE_CHORDS = 8;
 
 function ratioMatches(target: readonly [number, number], current: readonly [number, number], epsilon = 1e-3) {
   return Math.abs(target[0] - current[0]) < epsilon && Math.abs(target[1] - current[1]) < epsilon;
@@ -69,55 +100,41 @@ function sampleSurface(surface: SurfaceData, ratioA: number, ratioB: number) {
   return surface.values[ri]?.[rj] ?? 0;
 }
 
-function extractConsonantMinima(surface: SurfaceData, threshold: number, limit: number): TriadMinimum[] {
-  const minima: TriadMinimum[] = [];
-  const rows = surface.values.length;
-  const cols = surface.values[0]?.length ?? 0;
-
-  for (let i = 1; i < rows - 1; i++) {
-    for (let j = 1; j < cols - 1; j++) {
-      const current = surface.values[i][j];
-      if (current > threshold) continue;
-
-      let isMinimum = true;
-      for (let di = -1; di <= 1 && isMinimum; di++) {
-        for (let dj = -1; dj <= 1; dj++) {
-          if (di === 0 && dj === 0) continue;
-          if (surface.values[i + di][j + dj] < current) {
-            isMinimum = false;
-            break;
-          }
-        }
-      }
-
-      if (isMinimum) {
-        minima.push({
-          ratioX: surface.ratios[i],
-          ratioY: surface.ratios[j],
-          value: current,
-        });
-      }
-    }
-  }
-
-  return minima
-    .sort((a, b) => a.value - b.value)
-    .slice(0, limit);
-}
-
 export default function TriadExplorerPage() {
   const CHANNEL = "dissonance-audio";
   const SOURCE = "triad-explorer";
   const UI_REVISION = "triad-explorer-surface";
 
   const [f0, setF0] = useState(220);
-  const [partials, setPartials] = useState(4);
-  const [rolloff, setRolloff] = useState(1.0);
+  const [spectrumSettings, setSpectrumSettings] = useState<SpectrumSettings>({
+    ...DEFAULT_SPECTRUM_SETTINGS,
+    partials: 4,
+  });
+  const [modelId, setModelId] = useState<RoughnessModelId>("sethares");
   const [ratioA, setRatioA] = useState(5 / 4);
   const [ratioB, setRatioB] = useState(3 / 2);
   const [gridStep, setGridStep] = useState(0.02);
+  const [rangeOctaves, setRangeOctaves] = useState(1);
+  const [axisScale, setAxisScale] = useState<RatioAxisScale>("ratio");
+  const [noteNaming, setNoteNaming] = useState<NoteNaming>(DEFAULT_NOTE_NAMING);
   const [minimaThreshold, setMinimaThreshold] = useState(0.45);
+  const [justOptions, setJustOptions] = useState<JustIntonationOptions>(DEFAULT_JUST_INTONATION);
   const [showExampleGuides, setShowExampleGuides] = useState(false);
+  const [importedScale, setImportedScale] = useState<ScalaScale | null>(null);
+  const [envelope, setEnvelope] = useState<Envelope>(DEFAULT_ENVELOPE);
+  const [holdNotes, setHoldNotes] = useState(false);
+  const [pathKind, setPathKind] = useState<TriadPathKind>("segment");
+  const [pathStartId, setPathStartId] = useState("preset-a-minor");
+  const [pathEndId, setPathEndId] = useState("preset-a-major");
+  const [pathCenterId, setPathCenterId] = useState("preset-a-major");
+  const [pathRadius, setPathRadius] = useState(0.05);
+  const [pathMinimaIds, setPathMinimaIds] = useState<string[]>([]);
+  const [pathDuration, setPathDuration] = useState(8);
+  const [pathProgress, setPathProgress] = useState<number | null>(null);
+  const [mapView, setMapView] = useState<TriadMapView>("heatmap");
+  const [surfaceError, setSurfaceError] = useState<string | null>(null);
+  const pathFrameRef = useRef<number | null>(null);
+  const isPathPlayingRef = useRef(false);
 
   const surfaceRef = useRef<HTMLDivElement | null>(null);
   const plotlyInstanceRef = useRef<PlotlyModule | null>(null);
@@ -129,18 +146,60 @@ export default function TriadExplorerPage() {
   };
 
   const cameraStateRef = useRef<CameraState | null>(null);
+  // Mirrors the camera eye for the shareable URL; the ref above is what the plot reads.
+  const [cameraEye, setCameraEye] = useState<CameraState["eye"] | null>(null);
   const playTriadRef = useRef<((r: number, s: number) => void) | null>(null);
-  const { playChord, stopAll } = useReferenceTonePlayer();
+  const { playChord, playSequence, playSweep, updateHeldChord, stopAll } = useReferenceTonePlayer();
+
+  const urlQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    params.set("f0", `${f0}`);
+    writeSpectrumParams(params, spectrumSettings);
+    params.set("model", modelId);
+    params.set("r", formatParamNumber(ratioA));
+    params.set("s", formatParamNumber(ratioB));
+    params.set("grid", formatParamNumber(gridStep));
+    params.set("oct", `${rangeOctaves}`);
+    params.set("axis", axisScale);
+    writeNoteNamingParams(params, noteNaming);
+    params.set("cutoff", formatParamNumber(minimaThreshold));
+    params.set("jitol", `${justOptions.toleranceCents}`);
+    params.set("tenney", `${justOptions.maxTenneyHeight}`);
+    params.set("guides", showExampleGuides ? "1" : "0");
+    if (cameraEye) params.set("eye", [cameraEye.x, cameraEye.y, cameraEye.z].map((value) => value.toFixed(3)).join(","));
+    return params.toString();
+  }, [f0, spectrumSettings, modelId, ratioA, ratioB, gridStep, rangeOctaves, axisScale, noteNaming, minimaThreshold, justOptions, showExampleGuides, cameraEye]);
+
+  const applyUrlState = useCallback((params: URLSearchParams) => {
+    setF0(readNumberParam(params, "f0", 220, 50, 1000, 1));
+    setSpectrumSettings(readSpectrumParams(params, { ...DEFAULT_SPECTRUM_SETTINGS, partials: 4 }, { maxPartials: 6 }));
+    setModelId(readChoiceParam(params, "model", ROUGHNESS_MODELS.map((item) => item.id), "sethares"));
+    const octaves = readNumberParam(params, "oct", 1, 1, MAX_RANGE_OCTAVES, 1);
+    setRangeOctaves(octaves);
+    setAxisScale(readChoiceParam(params, "axis", RATIO_AXIS_SCALES.map((item) => item.value), "ratio"));
+    setNoteNaming(readNoteNamingParams(params));
+    setRatioA(readNumberParam(params, "r", 5 / 4, 1, Math.pow(2, octaves)));
+    setRatioB(readNumberParam(params, "s", 3 / 2, 1, Math.pow(2, octaves)));
+    setGridStep(readNumberParam(params, "grid", 0.02, 0.01, 0.05, 0.005));
+    setMinimaThreshold(readNumberParam(params, "cutoff", 0.45, 0.2, 0.8));
+    setJustOptions({
+      toleranceCents: readNumberParam(params, "jitol", DEFAULT_JUST_INTONATION.toleranceCents, 1, 50, 1),
+      maxTenneyHeight: readNumberParam(params, "tenney", DEFAULT_JUST_INTONATION.maxTenneyHeight, 4, 16, 0.5),
+    });
+    setShowExampleGuides(readBooleanParam(params, "guides", false));
+
+    const eye = (params.get("eye") ?? "").split(",").map(Number);
+    if (eye.length === 3 && eye.every(Number.isFinite)) {
+      const [x, y, z] = eye.map((value) => Math.min(10, Math.max(-10, value)));
+      cameraStateRef.current = { ...cameraStateRef.current, eye: { x, y, z } };
+      setCameraEye({ x, y, z });
+      if (plotlyInstanceRef.current && surfaceRef.current) {
+        void plotlyInstanceRef.current.relayout(surfaceRef.current, { "scene.camera.eye": { x, y, z } });
+      }
+    }
+  }, []);
 
-  const partialMultipliers = useMemo(
-    () => Array.from({ length: partials }, (_, i) => i + 1),
-    [partials]
-  );
-
-  const partialAmplitudes = useMemo(
-    () => partialMultipliers.map((k) => Math.pow(k, -rolloff)),
-    [partialMultipliers, rolloff]
-  );
+  useUrlStateSync(urlQuery, applyUrlState);
 
   const exampleTriads = useMemo(
     () => [
@@ -152,30 +211,44 @@ export default function TriadExplorerPage() {
   );
 
   const spectrum = useMemo(
-    () => spectrumFromHarmonics(f0, partials, rolloff),
-    [f0, partials, rolloff]
+    () => buildSpectrum(spectrumSettings),
+    [spectrumSettings]
   );
 
-  const surface = useMemo(
-    () =>
-      computeTriadSurface({
-        baseFreq: f0,
-        spectrum,
-        step: gridStep,
-      }),
-    [f0, gridStep, spectrum]
+  const model = useMemo(() => getRoughnessModel(modelId), [modelId]);
+
+  const maxRatio = Math.pow(2, rangeOctaves);
+  const spacing = axisSpacing(axisScale);
+  // Log axes get log-spaced grids; wide ranges coarsen the step to keep the grid affordable.
+  const surfaceGrid = useMemo(() => adaptiveGridStep(gridStep, 1, maxRatio, spacing), [gridStep, maxRatio, spacing]);
+  const axisTicks = useMemo(
+    () => ratioAxisTicks(1, maxRatio, axisScale, f0, noteNaming),
+    [maxRatio, axisScale, f0, noteNaming]
   );
 
+  const { surface, isRefining } = useTriadSurface({
+    baseFreq: f0,
+    spectrum,
+    modelId,
+    maxRatio,
+    step: surfaceGrid.step,
+    spacing,
+  });
+
+  // Grid minima are moved onto the exact minima between grid points, so they can be read as just chords.
   const minima = useMemo(
-    () => extractConsonantMinima(surface, minimaThreshold, 8),
-    [surface, minimaThreshold]
+    () =>
+      refineTriadMinima(surface, extractConsonantMinima(surface, minimaThreshold, 8), (r, s) =>
+        chordDissonance(f0, [1, r, s], spectrum, model, TRIAD_SURFACE_SAME_VOICE_WEIGHT)
+      ),
+    [surface, minimaThreshold, f0, spectrum, model]
   );
 
   const lastPlayedRef = useRef<{r: number, s: number, time: number} | null>(null);
   
   const playTriad = useCallback(
-    (r: number, s: number) => {
-      if (!partialMultipliers.length) return;
+    (r: number, s: number, hold = false) => {
+      if (!spectrum.freq.length) return;
       
       // Check if we just played this exact same triad to prevent duplicates
       const now = Date.now();
@@ -191,16 +264,31 @@ export default function TriadExplorerPage() {
       
       void playChord({
         baseFrequency: f0,
-        partialMultipliers,
-        partialAmplitudes,
+        partialMultipliers: spectrum.freq,
+        partialAmplitudes: spectrum.amp,
         tuning: [1, r, s],
         channel: CHANNEL,
         source: SOURCE,
+        envelope,
+        hold,
       });
     },
-    [partialAmplitudes, partialMultipliers, playChord, f0]
+    [spectrum, envelope, playChord, f0]
   );
 
+  // A held triad follows the ratio sliders; a timbre or envelope change releases it.
+  useEffect(() => {
+    updateHeldChord({
+      baseFrequency: f0,
+      partialMultipliers: spectrum.freq,
+      partialAmplitudes: spectrum.amp,
+      tuning: [1, ratioA, ratioB],
+      channel: CHANNEL,
+      source: SOURCE,
+      envelope,
+    });
+  }, [f0, spectrum, ratioA, ratioB, envelope, updateHeldChord]);
+
   // Keep the playTriad function ref updated
   useEffect(() => {
     playTriadRef.current = playTriad;
@@ -212,11 +300,18 @@ export default function TriadExplorerPage() {
         const [r, s] = triad.ratios;
         return {
           ...triad,
-          notes: [ratioToNoteName(1, f0), ratioToNoteName(r, f0), ratioToNoteName(s, f0)],
+          notes: [ratioToNoteName(1, f0, noteNaming, justOptions), ratioToNoteName(r, f0, noteNaming, justOptions), ratioToNoteName(s, f0, noteNaming, justOptions)],
           roughness: sampleSurface(surface, r, s),
+          just: identifyJustChord(triad.ratios, justOptions),
         };
       }),
-    [exampleTriads, f0, surface]
+    [exampleTriads, f0, noteNaming, surface, justOptions]
+  );
+
+  const mapSelected = useMemo(() => [ratioA, ratioB] as const, [ratioA, ratioB]);
+  const mapPresets = useMemo(
+    () => (showExampleGuides ? exampleTriadSummaries.map((triad) => ({ label: triad.label.replace(/ \(.*\)$/u, ""), ratios: triad.ratios })) : []),
+    [showExampleGuides, exampleTriadSummaries]
   );
 
   const minimaSummaries = useMemo<TriadSelection[]>(
@@ -224,9 +319,9 @@ export default function TriadExplorerPage() {
       minima.map((minimum, index) => {
         const ratios: readonly [number, number] = [minimum.ratioX, minimum.ratioY];
         const notes = [
-          ratioToNoteName(1, f0),
-          ratioToNoteName(minimum.ratioX, f0),
-          ratioToNoteName(minimum.ratioY, f0),
+          ratioToNoteName(1, f0, noteNaming, justOptions),
+          ratioToNoteName(minimum.ratioX, f0, noteNaming, justOptions),
+          ratioToNoteName(minimum.ratioY, f0, noteNaming, justOptions),
         ].join(" – ");
         return {
           id: `min-${index}-${minimum.ratioX.toFixed(4)}-${minimum.ratioY.toFixed(4)}`,
@@ -235,9 +330,66 @@ export default function TriadExplorerPage() {
           ratios,
           roughness: minimum.value,
           badge: "Minima",
+          just: identifyJustChord(ratios, justOptions),
         };
       }),
-    [f0, minima]
+    [f0, noteNaming, minima, justOptions]
+  );
+
+  // Candidate chords from an imported scale: every root-position triad on two of its degrees
+  // inside the surface's octave, smoothest first.
+  const scaleChordSummaries = useMemo<TriadSelection[]>(() => {
+    if (!importedScale) return [];
+    const maxRatio = surface.ratios[surface.ratios.length - 1] ?? 2;
+    const degrees = importedScale.pitches.filter((pitch) => pitch.ratio > 1 + 1e-9 && pitch.ratio <= maxRatio + 1e-9);
+    const chords: TriadSelection[] = [];
+    degrees.forEach((lower, i) => {
+      degrees.slice(i + 1).forEach((upper) => {
+        const ratios: readonly [number, number] = lower.ratio < upper.ratio ? [lower.ratio, upper.ratio] : [upper.ratio, lower.ratio];
+        chords.push({
+          id: `scale-${lower.text}-${upper.text}`,
+          title: `1/1 · ${formatScalaPitch(lower)} · ${formatScalaPitch(upper)}`,
+          subtitle: [ratioToNoteName(1, f0, noteNaming, justOptions), ratioToNoteName(ratios[0], f0, noteNaming, justOptions), ratioToNoteName(ratios[1], f0, noteNaming, justOptions)].join(" – "),
+          ratios,
+          roughness: sampleSurface(surface, ratios[0], ratios[1]),
+          badge: "Scale",
+          just: identifyJustChord(ratios, justOptions),
+        });
+      });
+    });
+    return chords.sort((a, b) => a.roughness - b.roughness).slice(0, MAX_SCALE_CHORDS);
+  }, [importedScale, surface, f0, noteNaming, justOptions]);
+
+  // Chords a path can start, end or centre on: the presets plus the current minima.
+  const pathAnchors = useMemo(
+    () => [
+      ...exampleTriads.map((triad) => ({ id: `preset-${triad.id}`, label: triad.label, ratios: triad.ratios as TriadPoint })),
+      ...minimaSummaries.map((selection) => ({ id: selection.id, label: `Minimum ${selection.title}`, ratios: selection.ratios })),
+    ],
+    [exampleTriads, minimaSummaries]
+  );
+
+  const sweepPath = useMemo<TriadPoint[] | null>(() => {
+    const anchor = (id: string) => pathAnchors.find((item) => item.id === id)?.ratios ?? null;
+    const minRatio = surface.ratios[0] ?? 1;
+    const maxRatio = surface.ratios[surface.ratios.length - 1] ?? 2;
+
+    if (pathKind === "segment") {
+      const from = anchor(pathStartId);
+      const to = anchor(pathEndId);
+      return from && to && !ratioMatches(from, to) ? segmentPath(from, to) : null;
+    }
+    if (pathKind === "circle") {
+      const center = anchor(pathCenterId);
+      return center ? circlePath(center, pathRadius, minRatio, maxRatio) : null;
+    }
+    const points = pathMinimaIds.map(anchor).filter((point): point is TriadPoint => point !== null);
+    return points.length >= 2 ? polylinePath(points) : null;
+  }, [pathKind, pathStartId, pathEndId, pathCenterId, pathRadius, pathMinimaIds, pathAnchors, surface]);
+
+  const pathProfile = useMemo(
+    () => sweepPath?.map(([r, s]) => sampleSurface(surface, r, s)) ?? null,
+    [sweepPath, surface]
   );
 
   const selectedValue = useMemo(
@@ -246,8 +398,13 @@ export default function TriadExplorerPage() {
   );
 
   const selectedNotes = useMemo(
-    () => [ratioToNoteName(1, f0), ratioToNoteName(ratioA, f0), ratioToNoteName(ratioB, f0)],
-    [f0, ratioA, ratioB]
+    () => [ratioToNoteName(1, f0, noteNaming, justOptions), ratioToNoteName(ratioA, f0, noteNaming, justOptions), ratioToNoteName(ratioB, f0, noteNaming, justOptions)],
+    [f0, noteNaming, ratioA, ratioB, justOptions]
+  );
+
+  const selectedJust = useMemo(
+    () => identifyJustChord([ratioA, ratioB], justOptions),
+    [ratioA, ratioB, justOptions]
   );
 
   useEffect(() => {
@@ -260,8 +417,10 @@ export default function TriadExplorerPage() {
     const container = surfaceRef.current;
 
     const drawSurface = async () => {
-      const plotlyImport = await import("plotly.js-dist-min");
-      const Plotly = (plotlyImport.default || plotlyImport) as PlotlyModule;
+      if (!supportsWebGL()) {
+        throw new Error("WebGL is not available in this browser");
+      }
+      const Plotly = await loadPlotly();
       if (!container || !isMounted) return;
 
       const { ratioA: initialRatioA, ratioB: initialRatioB } = latestRatiosRef.current;
@@ -324,9 +483,10 @@ export default function TriadExplorerPage() {
           }
         : null;
 
+    const logAxes = spacing === "log";
     const sceneConfig: Record<string, unknown> = {
-        xaxis: { title: "Ratio r (1 → 2)", gridcolor: "#1f2937", zerolinecolor: "#1f2937" },
-        yaxis: { title: "Ratio s (1 → 2)", gridcolor: "#1f2937", zerolinecolor: "#1f2937" },
+        xaxis: { ...ratioAxisLayout(axisTicks, logAxes, ratioAxisTitle(axisScale, "r")), gridcolor: "#1f2937", zerolinecolor: "#1f2937" },
+        yaxis: { ...ratioAxisLayout(axisTicks, logAxes, ratioAxisTitle(axisScale, "s")), gridcolor: "#1f2937", zerolinecolor: "#1f2937" },
         zaxis: { title: "Relative dissonance index", gridcolor: "#1f2937" },
         bgcolor: "rgba(15,23,42,0.85)",
         hovermode: "closest",
@@ -354,8 +514,22 @@ export default function TriadExplorerPage() {
         uirevision: UI_REVISION,
       };
 
-      const traces = [surfaceTrace, markerTrace, minimaTrace];
+      const pathTrace = sweepPath && pathProfile
+        ? {
+            type: "scatter3d" as const,
+            mode: "lines",
+            x: sweepPath.map(([r]) => r),
+            y: sweepPath.map(([, s]) => s),
+            z: pathProfile,
+            line: { color: "#f97316", width: 6 },
+            name: "Sweep path",
+            hoverinfo: "skip" as const,
+          }
+        : null;
+
+      const traces: unknown[] = [surfaceTrace, markerTrace, minimaTrace];
       if (guideTrace) traces.push(guideTrace);
+      if (pathTrace) traces.push(pathTrace);
 
       await Plotly.react(
         container,
@@ -384,18 +558,8 @@ export default function TriadExplorerPage() {
       }, 0);
 
       const plotElement = container as unknown as PlotlyHTMLElement;
-      type PlotlyClickPoint = {
-        x: number;
-        y: number;
-        fullData?: { name?: string };
-      };
-      type PlotlyClickEvent = {
-        points?: PlotlyClickPoint[];
-        event?: { isTrusted?: boolean };
-      };
-
       const handleClick = (event: unknown) => {
-        const plotlyEvent = event as PlotlyClickEvent | undefined;
+        const plotlyEvent = event as PlotlyPointsEvent | undefined;
         const points = plotlyEvent?.points;
         const domEvent = plotlyEvent?.event;
         if (!points || points.length === 0) return;
@@ -412,12 +576,9 @@ export default function TriadExplorerPage() {
         playTriadRef.current?.(x, y);
       };
 
-      type PlotlyHoverEvent = {
-        points?: PlotlyClickPoint[];
-      };
-
       const handleHover = (event: unknown) => {
-        const plotlyEvent = event as PlotlyHoverEvent | undefined;
+        if (isPathPlayingRef.current) return;
+        const plotlyEvent = event as PlotlyPointsEvent | undefined;
         const points = plotlyEvent?.points;
         if (!points || points.length === 0) return;
 
@@ -442,11 +603,24 @@ export default function TriadExplorerPage() {
 
       plotElement.removeAllListeners?.("plotly_hover");
       plotElement.on("plotly_hover", handleHover);
+
+      plotElement.removeAllListeners?.("plotly_relayout");
+      plotElement.on("plotly_relayout", (event) => {
+        const camera = (event as Record<string, unknown> | undefined)?.["scene.camera"] as CameraState | undefined;
+        if (!camera?.eye) return;
+        cameraStateRef.current = camera;
+        setCameraEye(camera.eye);
+      });
     };
 
-    drawSurface().catch(() => {
-      // Ignore failures in environments without WebGL
-    });
+    drawSurface()
+      .then(() => {
+        if (isMounted) setSurfaceError(null);
+      })
+      .catch((error) => {
+        console.warn("Failed to draw triad surface", error);
+        if (isMounted) setSurfaceError(error instanceof Error ? error.message : "The 3D surface could not be drawn");
+      });
 
     return () => {
       isMounted = false;
@@ -454,7 +628,7 @@ export default function TriadExplorerPage() {
         plotlyModule.purge(container);
       }
     };
-  }, [surface, minima, showExampleGuides, exampleTriadSummaries]);
+  }, [surface, minima, showExampleGuides, exampleTriadSummaries, sweepPath, pathProfile, spacing, axisTicks, axisScale]);
 
   // Effect for marker updates (when only the selected point changes)
   useEffect(() => {
@@ -495,8 +669,75 @@ export default function TriadExplorerPage() {
   }, [ratioA, ratioB, selectedValue, plotlyInstanceRef, surfaceRef]); // Only run when marker position/value changes
 
   const playChordPreview = useCallback(() => {
-    playTriad(ratioA, ratioB);
-  }, [playTriad, ratioA, ratioB]);
+    playTriad(ratioA, ratioB, holdNotes);
+  }, [playTriad, ratioA, ratioB, holdNotes]);
+
+  // Three held keys set r and s from their equal-tempered intervals above the lowest.
+  const handleMidiNotes = useCallback((notes: number[]) => {
+    if (notes.length < 3 || isPathPlayingRef.current) return;
+    const toRatio = (note: number) => Math.max(1, Math.min(maxRatio, Math.pow(2, (note - notes[0]) / 12)));
+    setRatioA(toRatio(notes[1]));
+    setRatioB(toRatio(notes[2]));
+  }, [maxRatio]);
+
+  // The two upper voices glide along the path while the marker follows on the audio clock.
+  const playPath = useCallback(async () => {
+    if (!sweepPath || !spectrum.freq.length) return;
+
+    const handle = await playSweep({
+      baseFrequency: f0,
+      partialMultipliers: spectrum.freq,
+      partialAmplitudes: spectrum.amp,
+      paths: [[1], sweepPath.map(([r]) => r), sweepPath.map(([, s]) => s)],
+      duration: pathDuration,
+      channel: CHANNEL,
+      source: SOURCE,
+      envelope,
+    });
+    if (!handle) return;
+
+    if (pathFrameRef.current !== null) cancelAnimationFrame(pathFrameRef.current);
+    isPathPlayingRef.current = true;
+    const followPath = () => {
+      const elapsed = handle.currentTime() - handle.startTime;
+      if (!handle.isActive() || elapsed >= handle.duration) {
+        isPathPlayingRef.current = false;
+        pathFrameRef.current = null;
+        setPathProgress(null);
+        return;
+      }
+      const progress = Math.max(elapsed, 0) / handle.duration;
+      const [r, s] = pointAlongPath(sweepPath, progress);
+      setRatioA(r);
+      setRatioB(s);
+      setPathProgress(progress);
+      pathFrameRef.current = requestAnimationFrame(followPath);
+    };
+    pathFrameRef.current = requestAnimationFrame(followPath);
+  }, [sweepPath, spectrum, f0, pathDuration, envelope, playSweep]);
+
+  useEffect(() => () => {
+    if (pathFrameRef.current !== null) cancelAnimationFrame(pathFrameRef.current);
+  }, []);
+
+  const playProgression = useCallback(
+    (steps: { tuning: number[]; duration: number }[]) =>
+      playSequence({
+        baseFrequency: f0,
+        partialMultipliers: spectrum.freq,
+        partialAmplitudes: spectrum.amp,
+        steps,
+        channel: CHANNEL,
+        source: SOURCE,
+        envelope,
+        sustain: true,
+      }),
+    [f0, spectrum, envelope, playSequence]
+  );
+
+  const togglePathMinimum = useCallback((id: string) => {
+    setPathMinimaIds((current) => (current.includes(id) ? current.filter((entry) => entry !== id) : [...current, id]));
+  }, []);
 
   const handleExampleSelect = useCallback(
     (r: number, s: number) => {
@@ -544,32 +785,24 @@ export default function TriadExplorerPage() {
                 onChange={setF0}
                 accent="orange"
               />
-              <SliderControl
-                label="Partials"
-                value={partials}
-                displayValue={`${partials}`}
-                min={1}
-                max={6}
-                step={1}
-                onChange={(value) => setPartials(Math.round(value))}
-                accent="orange"
-              />
-              <SliderControl
-                label="Rolloff"
-                value={rolloff}
-                displayValue={rolloff.toFixed(1)}
-                min={0.5}
-                max={2.5}
-                step={0.1}
-                onChange={setRolloff}
-                accent="orange"
-              />
+              <NoteNamingControls naming={noteNaming} onChange={setNoteNaming} accent="orange" />
+              <SpectrumControls settings={spectrumSettings} onChange={setSpectrumSettings} accent="orange" />
+
+              <div className="space-y-1">
+                <SelectControl
+                  label="Roughness model"
+                  value={modelId}
+                  options={ROUGHNESS_MODELS.map((item) => ({ value: item.id, label: item.label }))}
+                  onChange={setModelId} accent="orange"
+                />
+                <p className="text-xs text-gray-500">{model.description}</p>
+              </div>
               <SliderControl
                 label="Ratio r"
                 value={ratioA}
                 displayValue={`${ratioA.toFixed(3)}×`}
                 min={1}
-                max={2}
+                max={maxRatio}
                 step={0.001}
                 onChange={setRatioA}
                 accent="orange"
@@ -579,15 +812,33 @@ export default function TriadExplorerPage() {
                 value={ratioB}
                 displayValue={`${ratioB.toFixed(3)}×`}
                 min={1}
-                max={2}
+                max={maxRatio}
                 step={0.001}
                 onChange={setRatioB}
                 accent="orange"
               />
+              <div className="grid grid-cols-2 gap-3">
+                <SelectControl
+                  label="Range"
+                  value={`${rangeOctaves}`}
+                  options={RANGE_OCTAVE_OPTIONS.map((octaves) => ({
+                    value: `${octaves}`,
+                    label: `${octaves} octave${octaves === 1 ? "" : "s"} (${Math.pow(2, octaves)}:1)`,
+                  }))}
+                  onChange={(value) => {
+                    const top = Math.pow(2, Number(value));
+                    setRangeOctaves(Number(value));
+                    setRatioA((ratio) => Math.min(ratio, top));
+                    setRatioB((ratio) => Math.min(ratio, top));
+                  }}
+                  accent="orange"
+                />
+                <SelectControl label="Axis" value={axisScale} options={RATIO_AXIS_SCALES} onChange={setAxisScale} accent="orange" />
+              </div>
               <SliderControl
                 label="Grid step"
                 value={gridStep}
-                displayValue={gridStep.toFixed(3)}
+                displayValue={`${gridStep.toFixed(3)} · ${surfaceGrid.points}² grid`}
                 min={0.01}
                 max={0.05}
                 step={0.005}
@@ -604,13 +855,48 @@ export default function TriadExplorerPage() {
                 onChange={setMinimaThreshold}
                 accent="orange"
               />
+              <JustIntonationControls options={justOptions} onChange={setJustOptions} accent="orange" />
 
-              <button
-                className="w-full py-2 px-4 bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg"
-                onClick={() => { playChordPreview(); }}
-              >
-                ▶ Play chord
-              </button>
+              <EnvelopeControls
+                envelope={envelope}
+                hold={holdNotes}
+                onChange={setEnvelope}
+                onHoldChange={(hold) => { setHoldNotes(hold); if (!hold) stopAll(); }}
+                accent="orange"
+              />
+
+              <div className="flex gap-3">
+                <button
+                  className="flex-1 py-2 px-4 bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg"
+                  onClick={() => { playChordPreview(); }}
+                >
+                  ▶ Play chord
+                </button>
+                {holdNotes && (
+                  <button
+                    type="button"
+                    onClick={stopAll}
+                    className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-orange-400/70"
+                  >
+                    ■ Stop
+                  </button>
+                )}
+              </div>
+              <DownloadAudioButton
+                f0={f0}
+                spectrum={spectrum}
+                tuning={[1, ratioA, ratioB]}
+                envelope={envelope}
+                name={`triad-${f0}hz-${ratioA.toFixed(3)}-${ratioB.toFixed(3)}`}
+                accent="orange"
+              />
+              <CopyLinkButton query={urlQuery} accent="orange" />
+              <MidiControls
+                frequencies={[f0, f0 * ratioA, f0 * ratioB]}
+                onHeldNotes={handleMidiNotes}
+                inputHint="Hold three keys: the equal-tempered intervals above the lowest set r and s."
+                accent="orange"
+              />
             </div>
 
             <div className="pt-4 border-t border-white/10 space-y-2 text-sm text-gray-300">
@@ -620,6 +906,14 @@ export default function TriadExplorerPage() {
                   {selectedNotes.join(" – ")}
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span>Just intonation</span>
+                <span className="font-mono text-gray-100 text-right">
+                  {selectedJust
+                    ? `${formatIntegerChord(selectedJust.integers)}${selectedJust.name ? ` · ${selectedJust.name}` : ""}`
+                    : "—"}
+                </span>
+              </div>
               <div className="flex justify-between">
                 <span>Ratios</span>
                 <span className="font-mono text-gray-100">{`${ratioA.toFixed(3)}×, ${ratioB.toFixed(3)}×`}</span>
@@ -638,6 +932,11 @@ export default function TriadExplorerPage() {
                 />
                 <label htmlFor="show-example-guides" className="text-xs text-gray-400">Show A=220 triad guides</label>
               </div>
+              <ScalaImportControl
+                label="Chords from a Scala scale…"
+                onScale={setImportedScale}
+                onMapping={(mapping) => setF0(Math.round(Math.min(1000, Math.max(50, mappingRootFrequency(mapping, importedScale)))))}
+              />
             </div>
           </div>
         </div>
@@ -645,11 +944,170 @@ export default function TriadExplorerPage() {
         <div className="flex-1 space-y-6">
           <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-4">
             <h2 className="text-lg font-semibold text-white">Waveform breakdown</h2>
-            <TriadWaveformBreakdown f0={f0} ratioA={ratioA} ratioB={ratioB} partials={partials} rolloff={rolloff} />
+            <TriadWaveformBreakdown f0={f0} ratioA={ratioA} ratioB={ratioB} spectrum={spectrum} />
           </div>
 
-          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg">
-            <div className="h-[420px]" ref={surfaceRef} />
+          <div className="relative rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg">
+            <div className={surfaceError ? "hidden" : "h-[420px]"} ref={surfaceRef} />
+            {surfaceError && (
+              <p className="rounded-lg border border-red-400/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                3D surface unavailable: {surfaceError}. The 2D map below shows the same data.
+              </p>
+            )}
+            {isRefining && (
+              <span className="absolute right-5 top-5 rounded-full border border-white/10 bg-slate-900/80 px-3 py-1 text-[10px] uppercase tracking-widest text-orange-200">
+                Refining surface…
+              </span>
+            )}
+          </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-white">2D map</h2>
+              <div className="flex gap-2">
+                {TRIAD_MAP_VIEWS.map((item) => (
+                  <button
+                    key={item.view}
+                    type="button"
+                    onClick={() => setMapView(item.view)}
+                    className={`rounded-lg border px-3 py-1 text-xs transition ${
+                      mapView === item.view ? "border-orange-400/70 bg-orange-500/10 text-orange-200" : "border-white/10 text-gray-300 hover:border-orange-400/70"
+                    }`}
+                  >
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-sm text-gray-400">
+              {mapView === "heatmap"
+                ? "Roughness over the (r, s) plane with contour lines every 0.05; nothing is hidden behind peaks."
+                : "Each triad placed by its lower and upper interval in cents, on the equilateral chord-type triangle. Faint lines mark equal steps of the lower, upper and outer interval."}{" "}
+              Click to select and audition a chord.
+            </p>
+            <TriadMapPlot
+              surface={surface}
+              minima={minima}
+              presets={mapPresets}
+              selected={mapSelected}
+              view={mapView}
+              axisScale={axisScale}
+              baseFreq={f0}
+              noteNaming={noteNaming}
+              onSelect={(r, s) => {
+                setRatioA(r);
+                setRatioB(s);
+                playTriadRef.current?.(r, s);
+              }}
+            />
+          </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-white">Path sweep</h2>
+              <span className="text-xs uppercase tracking-widest text-white/60">Glide on the surface</span>
+            </div>
+            <p className="text-sm text-gray-400">
+              Both upper voices glide along a path on the (r, s) plane while the root holds. The path is drawn over the surface and its
+              roughness profile is plotted alongside.
+            </p>
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-4">
+                <SelectControl
+                  label="Path"
+                  value={pathKind}
+                  options={TRIAD_PATH_KINDS.map((item) => ({ value: item.kind, label: item.label }))}
+                  onChange={setPathKind}
+                  accent="orange"
+                />
+                {pathKind === "segment" && (
+                  <>
+                    <SelectControl
+                      label="From"
+                      value={pathStartId}
+                      options={pathAnchors.map((item) => ({ value: item.id, label: item.label }))}
+                      onChange={setPathStartId}
+                      accent="orange"
+                    />
+                    <SelectControl
+                      label="To"
+                      value={pathEndId}
+                      options={pathAnchors.map((item) => ({ value: item.id, label: item.label }))}
+                      onChange={setPathEndId}
+                      accent="orange"
+                    />
+                  </>
+                )}
+                {pathKind === "circle" && (
+                  <>
+                    <SelectControl
+                      label="Centre"
+                      value={pathCenterId}
+                      options={pathAnchors.map((item) => ({ value: item.id, label: item.label }))}
+                      onChange={setPathCenterId}
+                      accent="orange"
+                    />
+                    <SliderControl
+                      label="Radius"
+                      value={pathRadius}
+                      displayValue={pathRadius.toFixed(3)}
+                      min={0.01}
+                      max={0.2}
+                      step={0.005}
+                      onChange={setPathRadius}
+                      accent="orange"
+                    />
+                  </>
+                )}
+                {pathKind === "minima" && (
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-400">Pick minima in the order the path should visit them.</p>
+                    <div className="flex flex-wrap gap-2">
+                      {minimaSummaries.map((selection) => {
+                        const order = pathMinimaIds.indexOf(selection.id);
+                        return (
+                          <button
+                            key={selection.id}
+                            type="button"
+                            onClick={() => togglePathMinimum(selection.id)}
+                            className={`rounded-full border px-3 py-1 text-xs transition ${
+                              order >= 0 ? "border-orange-400 bg-orange-500/20 text-orange-100" : "border-white/10 bg-white/5 text-gray-300 hover:border-orange-400/70"
+                            }`}
+                          >
+                            {order >= 0 ? `${order + 1}. ` : ""}{selection.title}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+                <SliderControl
+                  label="Duration"
+                  value={pathDuration}
+                  displayValue={`${pathDuration} s`}
+                  min={2}
+                  max={30}
+                  step={1}
+                  onChange={(value) => setPathDuration(Math.round(value))}
+                  accent="orange"
+                />
+                <button
+                  type="button"
+                  onClick={() => { if (pathProgress !== null) stopAll(); else void playPath(); }}
+                  disabled={!sweepPath}
+                  className="w-full py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-orange-400/70 disabled:opacity-40"
+                >
+                  {pathProgress !== null ? "■ Stop path" : "▶ Play path"}
+                </button>
+              </div>
+              <div className="space-y-2">
+                {pathProfile ? (
+                  <PathProfilePlot values={pathProfile} progress={pathProgress} />
+                ) : (
+                  <p className="text-sm text-gray-500">Choose two different chords, a centre, or at least two minima to define a path.</p>
+                )}
+              </div>
+            </div>
           </div>
 
           <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
@@ -669,6 +1127,7 @@ export default function TriadExplorerPage() {
                   ratios: triad.ratios,
                   roughness: triad.roughness,
                   badge: "Preset",
+                  just: triad.just,
                 };
                 return (
                   <TriadSelectionCard
@@ -682,6 +1141,37 @@ export default function TriadExplorerPage() {
             </div>
           </div>
 
+          {importedScale && (
+            <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-white">Chords from {importedScale.description || "imported scale"}</h2>
+                <button
+                  type="button"
+                  onClick={() => setImportedScale(null)}
+                  className="text-xs uppercase tracking-widest text-white/60 hover:text-white"
+                >
+                  Clear
+                </button>
+              </div>
+              <p className="text-sm text-gray-400">
+                Every triad built on the root and two scale degrees within the octave, ranked by the roughness surface.
+              </p>
+              <div className="space-y-3">
+                {scaleChordSummaries.map((selection) => (
+                  <TriadSelectionCard
+                    key={selection.id}
+                    selection={selection}
+                    isActive={ratioMatches(selection.ratios, [ratioA, ratioB] as const)}
+                    onSelect={() => handleExampleSelect(selection.ratios[0], selection.ratios[1])}
+                  />
+                ))}
+                {!scaleChordSummaries.length && (
+                  <p className="text-xs text-gray-500">This scale has fewer than two degrees inside the octave.</p>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg space-y-3">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold text-white">Consonant triads</h2>
@@ -701,6 +1191,33 @@ export default function TriadExplorerPage() {
               ))}
             </div>
           </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg">
+            <ProgressionSequencer
+              f0={f0}
+              spectrum={spectrum}
+              model={model}
+              selectedChord={{ label: selectedNotes.join(" – "), ratios: [1, ratioA, ratioB] }}
+              onPlay={playProgression}
+              onStop={stopAll}
+            />
+          </div>
+
+          <div className="rounded-xl border border-white/10 bg-gradient-to-br from-slate-950 to-slate-900 p-5 shadow-lg">
+            <PresetLibraryPanel
+              explorer="triad"
+              current={{ f0, spectrum: spectrumSettings, modelId, ratios: [ratioA, ratioB] }}
+              onLoad={(preset) => {
+                const clampRatio = (ratio: number) => Math.max(1, Math.min(maxRatio, ratio));
+                setF0(Math.round(Math.min(1000, Math.max(50, preset.f0))));
+                setSpectrumSettings(preset.spectrum);
+                setModelId(preset.modelId);
+                setRatioA(clampRatio(preset.ratios[0]));
+                if (preset.ratios[1] !== undefined) setRatioB(clampRatio(preset.ratios[1]));
+              }}
+              accent="orange"
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -742,6 +1259,13 @@ function TriadSelectionCard({ selection, isActive, onSelect }: TriadSelectionCar
               ) : null}
             </div>
             <div className="text-xs text-gray-400">{selection.subtitle}</div>
+            {selection.just ? (
+              <div className="text-xs text-emerald-200/90">
+                {formatIntegerChord(selection.just.integers)}
+                {selection.just.name ? ` · ${selection.just.name}` : ""}
+                <span className="text-gray-500">{` · within ${selection.just.maxErrorCents.toFixed(1)}¢`}</span>
+              </div>
+            ) : null}
             <div className="text-[11px] font-mono text-gray-500">{`r=${r.toFixed(3)}× · s=${s.toFixed(3)}×`}</div>
           </div>
         </div>
@@ -758,11 +1282,11 @@ type TriadWaveformBreakdownProps = {
   f0: number;
   ratioA: number;
   ratioB: number;
-  partials: number;
-  rolloff: number;
+  spectrum: Spectrum;
 };
 
-function TriadWaveformBreakdown({ f0, ratioA, ratioB, partials, rolloff }: TriadWaveformBreakdownProps) {
+function TriadWaveformBreakdown({ f0, ratioA, ratioB, spectrum }: TriadWaveformBreakdownProps) {
+  const partials = spectrum.freq.length;
   const toneColors = TRIAD_TONE_COLORS;
   const sampleCount = 360;
   const breakdown = useMemo(() => {
@@ -777,8 +1301,9 @@ function TriadWaveformBreakdown({ f0, ratioA, ratioB, partials, rolloff }: Triad
 
     let maxAbs = 0;
 
-    for (let k = 1; k <= partials; k++) {
-      const amp = 1 / Math.pow(k, rolloff);
+    for (let idx = 0; idx < partials; idx++) {
+      const k = spectrum.freq[idx];
+      const amp = spectrum.amp[idx];
 
       ratios.forEach((ratio, toneIdx) => {
         const shortValues = shortTimes.map((t) => amp * Math.sin(2 * Math.PI * k * ratio * t));
@@ -849,6 +1374,7 @@ function TriadWaveformBreakdown({ f0, ratioA, ratioB, partials, rolloff }: Triad
 
     const partialRows = Array.from({ length: partials }, (_, idx) => ({
       partialNumber: idx + 1,
+      multiplier: spectrum.freq[idx],
       paths: tonePartialPaths.map((paths) => paths[idx] ?? ""),
     }));
 
@@ -866,7 +1392,7 @@ function TriadWaveformBreakdown({ f0, ratioA, ratioB, partials, rolloff }: Triad
       combined,
       partialRows,
     };
-  }, [partials, ratioA, ratioB, rolloff, toneColors]);
+  }, [partials, ratioA, ratioB, spectrum, toneColors]);
 
   const toneSummaries = [
     {
@@ -904,7 +1430,7 @@ function TriadWaveformBreakdown({ f0, ratioA, ratioB, partials, rolloff }: Triad
             <div key={`triad-partial-${row.partialNumber}`} className="grid gap-4 md:grid-cols-3">
               <WavePanel
                 title={`Partial ${row.partialNumber}`}
-                subtitle={`Root tone, ${f0.toFixed(1)} Hz × ${row.partialNumber}`}
+                subtitle={`Root tone, ${f0.toFixed(1)} Hz × ${Number(row.multiplier.toFixed(3))}`}
                 partialPaths={[]}
                 partialColor={toneColors[0]}
                 sumPath={row.paths[0]}
@@ -914,7 +1440,7 @@ function TriadWaveformBreakdown({ f0, ratioA, ratioB, partials, rolloff }: Triad
               />
               <WavePanel
                 title={`Partial ${row.partialNumber}`}
-                subtitle={`Ratio r, ${(f0 * ratioA).toFixed(1)} Hz × ${row.partialNumber}`}
+                subtitle={`Ratio r, ${(f0 * ratioA).toFixed(1)} Hz × ${Number(row.multiplier.toFixed(3))}`}
                 partialPaths={[]}
                 partialColor={toneColors[1]}
                 sumPath={row.paths[1]}
@@ -924,7 +1450,7 @@ function TriadWaveformBreakdown({ f0, ratioA, ratioB, partials, rolloff }: Triad
               />
               <WavePanel
                 title={`Partial ${row.partialNumber}`}
-                subtitle={`Ratio s, ${(f0 * ratioB).toFixed(1)} Hz × ${row.partialNumber}`}
+                subtitle={`Ratio s, ${(f0 * ratioB).toFixed(1)} Hz × ${Number(row.multiplier.toFixed(3))}`}
                 partialPaths={[]}
                 partialColor={toneColors[2]}
                 sumPath={row.paths[2]}
@@ -14,6 +14,12 @@ export default function NavBar() {
           <Link href="/visualizations/triad-explorer" className="hover:underline underline-offset-4">
             Triad explorer
           </Link>
+          <Link href="/visualizations/tetrad-explorer" className="hover:underline underline-offset-4">
+            Tetrad explorer
+          </Link>
+          <Link href="/visualizations/midi-analysis" className="hover:underline underline-offset-4">
+            MIDI analysis
+          </Link>
           <Link href="/theory" className="hover:underline underline-offset-4">
             Theory notes
           </Link>
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { shareableUrl } from "@/lib/urlState";
+
+type CopyLinkButtonProps = {
+  /** Query string describing the current configuration, without the leading "?". */
+  query: string;
+  accent?: "sky" | "orange";
+};
+
+export function CopyLinkButton({ query, accent = "sky" }: CopyLinkButtonProps) {
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const hover = accent === "orange" ? "hover:border-orange-400/70" : "hover:border-blue-400/70";
+
+  useEffect(() => {
+    if (!feedback) return;
+    const timer = window.setTimeout(() => setFeedback(null), 2000);
+    return () => window.clearTimeout(timer);
+  }, [feedback]);
+
+  const copy = async () => {
+    const url = shareableUrl(query);
+    try {
+      await navigator.clipboard.writeText(url);
+      setFeedback("Link copied");
+    } catch {
+      // Clipboard access can be blocked; the address bar already holds the same link.
+      setFeedback("Copy the link from the address bar");
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={() => { void copy(); }}
+      className={`w-full py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition ${hover}`}
+    >
+      {feedback ?? "🔗 Copy link"}
+    </button>
+  );
+}
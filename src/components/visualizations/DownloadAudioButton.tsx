@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { downloadFile } from "@/lib/download";
+import type { Envelope } from "@/lib/dissonance/audio";
+import { renderChordWav } from "@/lib/dissonance/offlineRender";
+import type { Spectrum } from "@/lib/dissonance/types";
+import type { WavBitDepth } from "@/lib/dissonance/wav";
+
+type DownloadAudioButtonProps = {
+  f0: number;
+  spectrum: Spectrum;
+  tuning: number[];
+  envelope?: Envelope;
+  /** File name without extension. */
+  name: string;
+  accent?: "sky" | "orange";
+};
+
+export function DownloadAudioButton({ f0, spectrum, tuning, envelope, name, accent = "sky" }: DownloadAudioButtonProps) {
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hover = accent === "orange" ? "hover:border-orange-400/70" : "hover:border-blue-400/70";
+
+  const download = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const wav = await renderChordWav(
+        { baseFrequency: f0, partialMultipliers: spectrum.freq, partialAmplitudes: spectrum.amp, tuning, envelope },
+        bitDepth
+      );
+      downloadFile(`${name}-${bitDepth}bit.wav`, wav, "audio/wav");
+    } catch (renderError) {
+      setError(renderError instanceof Error ? renderError.message : "Could not render audio");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => { void download(); }}
+          disabled={isRendering || !spectrum.freq.length}
+          className={`flex-1 py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition ${hover} disabled:opacity-40`}
+        >
+          {isRendering ? "Rendering…" : "⬇ Download audio"}
+        </button>
+        <select
+          aria-label="WAV bit depth"
+          value={bitDepth}
+          onChange={(event) => setBitDepth(Number(event.target.value) as WavBitDepth)}
+          className="rounded-lg border border-slate-700 bg-slate-800 px-2 text-xs text-gray-200"
+        >
+          <option value={16}>16-bit</option>
+          <option value={24}>24-bit</option>
+        </select>
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { ScalaExportButtons } from "@/components/visualizations/ScalaExportButtons";
+import { scalaPitchFromCents } from "@/lib/dissonance/scala";
+import type { EdoAnalysis } from "@/lib/dissonance/tuning";
+
+type EdoScoreCardProps = {
+  analysis: EdoAnalysis;
+  f0: number;
+  onPlayStep: (ratio: number) => void;
+};
+
+function formatDeviation(deviation: number | null) {
+  if (deviation === null) return "—";
+  return `${deviation >= 0 ? "+" : ""}${deviation.toFixed(1)}¢`;
+}
+
+export function EdoScoreCard({ analysis, f0, onPlayStep }: EdoScoreCardProps) {
+  const fitPercent = Math.round(analysis.fit * 100);
+  const scalaScale = {
+    description: `${analysis.divisions} equal divisions of the octave`,
+    pitches: Array.from({ length: analysis.divisions }, (_, idx) => scalaPitchFromCents((idx + 1) * analysis.stepCents)),
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">{analysis.divisions}-EDO against this timbre</h2>
+        <span className="text-xs uppercase tracking-widest text-white/60">Tuning fit</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="rounded-lg bg-gray-800/50 py-3">
+          <div className="text-2xl font-bold text-violet-300">{fitPercent}%</div>
+          <div className="text-xs text-gray-400">Fit score</div>
+        </div>
+        <div className="rounded-lg bg-gray-800/50 py-3">
+          <div className="text-2xl font-bold text-violet-300">{analysis.rmsErrorCents.toFixed(1)}¢</div>
+          <div className="text-xs text-gray-400">RMS miss</div>
+        </div>
+        <div className="rounded-lg bg-gray-800/50 py-3">
+          <div className="text-2xl font-bold text-violet-300">{analysis.meanStepValue.toFixed(2)}</div>
+          <div className="text-xs text-gray-400">Mean step dissonance</div>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        The fit weights each curve minimum by its depth and scores how close the nearest step lands, relative to half a step
+        ({(analysis.stepCents / 2).toFixed(1)}¢). 100% means every valley is hit exactly; 50% is what a randomly placed grid averages.
+      </p>
+
+      <ScalaExportButtons name={`${analysis.divisions}-edo`} scale={scalaScale} f0={f0} />
+
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full table-auto text-sm text-gray-300 [&_th]:text-left [&_th]:font-semibold [&_td]:py-1 [&_td]:pr-4">
+          <thead className="text-white">
+            <tr>
+              <th scope="col">step</th>
+              <th scope="col">cents</th>
+              <th scope="col">ratio</th>
+              <th scope="col">dissonance</th>
+              <th scope="col">vs. nearest minimum</th>
+              <th scope="col" />
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.steps.map((step) => (
+              <tr key={step.step} className="border-t border-white/10">
+                <td className="font-medium text-white">{step.step}</td>
+                <td className="font-mono">{step.cents.toFixed(1)}</td>
+                <td className="font-mono">{step.ratio.toFixed(4)}×</td>
+                <td className="font-mono">{step.value.toFixed(3)}</td>
+                <td className="font-mono">{formatDeviation(step.deviationCents)}</td>
+                <td>
+                  <button
+                    type="button"
+                    onClick={() => onPlayStep(step.ratio)}
+                    className="rounded border border-white/10 px-2 py-0.5 text-xs text-violet-200 hover:border-violet-400"
+                  >
+                    ▶
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useId } from "react";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import type { Envelope } from "@/lib/dissonance/audio";
+
+type EnvelopeControlsProps = {
+  envelope: Envelope;
+  hold: boolean;
+  accent?: "sky" | "orange";
+  onChange: (envelope: Envelope) => void;
+  onHoldChange: (hold: boolean) => void;
+};
+
+export function EnvelopeControls({ envelope, hold, onChange, onHoldChange, accent = "sky" }: EnvelopeControlsProps) {
+  const holdId = useId();
+  const update = (patch: Partial<Envelope>) => onChange({ ...envelope, ...patch });
+  const checkboxClass = accent === "orange"
+    ? "text-orange-500 bg-slate-800 border-slate-700 focus:ring-orange-500"
+    : "text-blue-600 bg-gray-700 border-gray-600 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-3">
+      <details className="rounded-lg border border-white/10 px-3 py-2">
+        <summary className="cursor-pointer text-sm font-medium text-gray-300">Envelope</summary>
+        <div className="space-y-4 pt-3">
+          <SliderControl
+            label="Attack"
+            value={envelope.attack}
+            displayValue={`${Math.round(envelope.attack * 1000)} ms`}
+            min={0.002}
+            max={1}
+            step={0.001}
+            onChange={(attack) => update({ attack })}
+            accent={accent}
+          />
+          <SliderControl
+            label="Decay"
+            value={envelope.decay}
+            displayValue={`${Math.round(envelope.decay * 1000)} ms`}
+            min={0}
+            max={2}
+            step={0.01}
+            onChange={(decay) => update({ decay })}
+            accent={accent}
+          />
+          <SliderControl
+            label="Sustain level"
+            value={envelope.sustain}
+            displayValue={envelope.sustain.toFixed(2)}
+            min={0}
+            max={1}
+            step={0.01}
+            onChange={(sustain) => update({ sustain })}
+            accent={accent}
+          />
+          <SliderControl
+            label="Release"
+            value={envelope.release}
+            displayValue={`${envelope.release.toFixed(2)} s`}
+            min={0.05}
+            max={6}
+            step={0.01}
+            onChange={(release) => update({ release })}
+            accent={accent}
+          />
+        </div>
+      </details>
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id={holdId}
+          checked={hold}
+          onChange={(event) => onHoldChange(event.target.checked)}
+          className={`w-4 h-4 rounded focus:ring-2 ${checkboxClass}`}
+        />
+        <label htmlFor={holdId} className="text-sm text-gray-300">
+          Hold until stopped (sliders retune live)
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import type { JustIntonationOptions } from "@/lib/dissonance/intervals";
+
+type JustIntonationControlsProps = {
+  options: JustIntonationOptions;
+  accent?: "sky" | "orange";
+  onChange: (options: JustIntonationOptions) => void;
+};
+
+/** Tolerance and complexity limit used when matching minima to just ratios. */
+export function JustIntonationControls({ options, accent, onChange }: JustIntonationControlsProps) {
+  return (
+    <div className="space-y-3">
+      <SliderControl
+        label="JI match tolerance"
+        value={options.toleranceCents}
+        displayValue={`±${options.toleranceCents}¢`}
+        min={1}
+        max={50}
+        step={1}
+        accent={accent}
+        onChange={(toleranceCents) => onChange({ ...options, toleranceCents })}
+      />
+      <SliderControl
+        label="Max Tenney height"
+        value={options.maxTenneyHeight}
+        displayValue={options.maxTenneyHeight.toFixed(1)}
+        min={4}
+        max={16}
+        step={0.5}
+        accent={accent}
+        onChange={(maxTenneyHeight) => onChange({ ...options, maxTenneyHeight })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import { DEFAULT_MPE_BEND_RANGE, MICROTONAL_MODES } from "@/lib/midi/messages";
+import type { MicrotonalMode } from "@/lib/midi/messages";
+import { useWebMidi } from "@/lib/midi/useWebMidi";
+
+type MidiControlsProps = {
+  /** The chord to send, in Hz. */
+  frequencies: number[];
+  /** Keys currently held on the selected MIDI input, ascending. */
+  onHeldNotes?: (notes: number[]) => void;
+  /** Explains what held keys do on this page. */
+  inputHint?: string;
+  accent?: "sky" | "orange";
+};
+
+export function MidiControls({ frequencies, onHeldNotes, inputHint, accent = "sky" }: MidiControlsProps) {
+  const midi = useWebMidi(onHeldNotes);
+  const [mode, setMode] = useState<MicrotonalMode>("mpe");
+  const [bendRange, setBendRange] = useState(DEFAULT_MPE_BEND_RANGE);
+  const [duration, setDuration] = useState(2);
+  const [error, setError] = useState<string | null>(null);
+  const hover = accent === "orange" ? "hover:border-orange-400/70" : "hover:border-blue-400/70";
+  const modeInfo = MICROTONAL_MODES.find((item) => item.mode === mode);
+
+  const send = () => {
+    try {
+      midi.sendChord(frequencies, { mode, bendRange, duration });
+      setError(null);
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : "Could not send to MIDI");
+    }
+  };
+
+  return (
+    <details className="rounded-lg border border-white/10 px-3 py-2">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">MIDI</summary>
+      <div className="space-y-4 pt-3">
+        {midi.status === "unsupported" && <p className="text-xs text-gray-500">This browser does not support Web MIDI.</p>}
+        {midi.status === "denied" && <p className="text-xs text-red-300">MIDI access was denied.</p>}
+        {(midi.status === "idle" || midi.status === "pending") && (
+          <button
+            type="button"
+            onClick={() => { void midi.enable(); }}
+            disabled={midi.status === "pending"}
+            className={`w-full py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-sm text-white font-medium transition ${hover} disabled:opacity-40`}
+          >
+            {midi.status === "pending" ? "Waiting for permission…" : "Connect MIDI devices"}
+          </button>
+        )}
+
+        {midi.status === "ready" && (
+          <>
+            {midi.outputs.length ? (
+              <SelectControl
+                label="Output"
+                value={midi.outputId ?? ""}
+                options={midi.outputs.map((port) => ({ value: port.id, label: port.name }))}
+                onChange={midi.setOutputId}
+                accent={accent}
+              />
+            ) : (
+              <p className="text-xs text-gray-500">No MIDI outputs found.</p>
+            )}
+            <div className="space-y-1">
+              <SelectControl
+                label="Microtuning"
+                value={mode}
+                options={MICROTONAL_MODES.map((item) => ({ value: item.mode, label: item.label }))}
+                onChange={setMode}
+                accent={accent}
+              />
+              {modeInfo && <p className="text-xs text-gray-500">{modeInfo.description}</p>}
+              {mode === "mts" && !midi.sysexEnabled && (
+                <p className="text-xs text-red-300">SysEx permission was not granted, so MTS cannot be sent.</p>
+              )}
+            </div>
+            {mode === "mpe" && (
+              <SliderControl
+                label="Pitch bend range"
+                value={bendRange}
+                displayValue={`±${bendRange} st`}
+                min={1}
+                max={96}
+                step={1}
+                onChange={(value) => setBendRange(Math.round(value))}
+                accent={accent}
+              />
+            )}
+            <SliderControl
+              label="Note length"
+              value={duration}
+              displayValue={`${duration.toFixed(1)} s`}
+              min={0.5}
+              max={10}
+              step={0.5}
+              onChange={setDuration}
+              accent={accent}
+            />
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={send}
+                disabled={!midi.outputId || !frequencies.length}
+                className={`flex-1 py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-sm text-white font-medium transition ${hover} disabled:opacity-40`}
+              >
+                ▶ Send chord
+              </button>
+              <button
+                type="button"
+                onClick={midi.stopAll}
+                disabled={!midi.outputId}
+                className={`py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-sm text-white font-medium transition ${hover} disabled:opacity-40`}
+              >
+                ■ Stop
+              </button>
+            </div>
+            {error && <p className="text-xs text-red-300">{error}</p>}
+
+            {onHeldNotes && (
+              <div className="space-y-1">
+                <SelectControl
+                  label="Keyboard input"
+                  value={midi.inputId ?? ""}
+                  options={[{ value: "", label: "None" }, ...midi.inputs.map((port) => ({ value: port.id, label: port.name }))]}
+                  onChange={(id) => midi.setInputId(id || null)}
+                  accent={accent}
+                />
+                {inputHint && <p className="text-xs text-gray-500">{inputHint}</p>}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
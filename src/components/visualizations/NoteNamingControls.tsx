@@ -0,0 +1,50 @@
+"use client";
+
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import { NOTE_NAME_SYSTEMS } from "@/lib/dissonance/noteNames";
+import type { NoteNaming } from "@/lib/dissonance/noteNames";
+
+type NoteNamingControlsProps = {
+  naming: NoteNaming;
+  accent?: "sky" | "orange";
+  onChange: (naming: NoteNaming) => void;
+};
+
+/** Note-name system and concert pitch for every note label in an explorer. */
+export function NoteNamingControls({ naming, accent, onChange }: NoteNamingControlsProps) {
+  return (
+    <div className="space-y-3">
+      <SelectControl
+        label="Note names"
+        value={naming.system}
+        options={NOTE_NAME_SYSTEMS}
+        accent={accent}
+        onChange={(system) => onChange({ ...naming, system })}
+      />
+      {naming.system === "edo" ? (
+        <SliderControl
+          label="EDO divisions"
+          value={naming.edo}
+          displayValue={`${naming.edo}-EDO`}
+          min={5}
+          max={72}
+          step={1}
+          accent={accent}
+          onChange={(edo) => onChange({ ...naming, edo })}
+        />
+      ) : (
+        <SliderControl
+          label="Concert pitch (A4)"
+          value={naming.concertPitch}
+          displayValue={`${naming.concertPitch} Hz`}
+          min={400}
+          max={480}
+          step={1}
+          accent={accent}
+          onChange={(concertPitch) => onChange({ ...naming, concertPitch })}
+        />
+      )}
+    </div>
+  );
+}
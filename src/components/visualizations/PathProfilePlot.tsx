@@ -0,0 +1,50 @@
+"use client";
+
+type PathProfilePlotProps = {
+  values: number[];
+  /** Playback position in [0, 1], or null when idle. */
+  progress: number | null;
+};
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const MARGIN = { top: 12, right: 12, bottom: 28, left: 44 };
+
+export function PathProfilePlot({ values, progress }: PathProfilePlotProps) {
+  const innerWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const innerHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const max = Math.max(...values, 1e-9);
+  const min = Math.min(...values, 0);
+  const toX = (index: number) => MARGIN.left + (index / Math.max(values.length - 1, 1)) * innerWidth;
+  const toY = (value: number) => MARGIN.top + (1 - (value - min) / Math.max(max - min, 1e-9)) * innerHeight;
+  const path = values.map((value, idx) => `${idx === 0 ? "M" : "L"}${toX(idx).toFixed(2)},${toY(value).toFixed(2)}`).join(" ");
+
+  let marker: { x: number; y: number } | null = null;
+  if (progress !== null && values.length > 1) {
+    const position = progress * (values.length - 1);
+    const index = Math.min(Math.floor(position), values.length - 2);
+    const t = position - index;
+    marker = { x: toX(position), y: toY(values[index] + (values[index + 1] - values[index]) * t) };
+  }
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40">
+      <line x1={MARGIN.left} y1={HEIGHT - MARGIN.bottom} x2={WIDTH - MARGIN.right} y2={HEIGHT - MARGIN.bottom} stroke="#ffffff33" />
+      <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={HEIGHT - MARGIN.bottom} stroke="#ffffff33" />
+      <path d={path} fill="none" stroke="#fb923c" strokeWidth="2" />
+      {marker && (
+        <>
+          <line x1={marker.x} y1={MARGIN.top} x2={marker.x} y2={HEIGHT - MARGIN.bottom} stroke="#f97316" strokeDasharray="4 3" />
+          <circle cx={marker.x} cy={marker.y} r="4" fill="#f97316" />
+        </>
+      )}
+      <text x={MARGIN.left - 6} y={MARGIN.top + 4} fill="#94a3b8" fontSize="10" textAnchor="end">{max.toFixed(2)}</text>
+      <text x={MARGIN.left - 6} y={HEIGHT - MARGIN.bottom} fill="#94a3b8" fontSize="10" textAnchor="end">{min.toFixed(2)}</text>
+      <text x={MARGIN.left} y={HEIGHT - 8} fill="#cbd5f5" fontSize="11">start</text>
+      <text x={WIDTH - MARGIN.right} y={HEIGHT - 8} fill="#cbd5f5" fontSize="11" textAnchor="end">end</text>
+      <text x={(MARGIN.left + WIDTH - MARGIN.right) / 2} y={HEIGHT - 8} fill="#cbd5f5" fontSize="11" textAnchor="middle" fontWeight="600">
+        Roughness along the path
+      </text>
+    </svg>
+  );
+}
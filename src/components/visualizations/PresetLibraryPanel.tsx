@@ -0,0 +1,163 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ChangeEvent } from "react";
+import { downloadFile } from "@/lib/download";
+import { SPECTRUM_KINDS } from "@/lib/dissonance/spectra";
+import { parseTagList, searchPresets, serializePresetLibrary, usePresetLibrary } from "@/lib/presets";
+import type { ExplorerPreset, PresetDraft, PresetExplorer } from "@/lib/presets";
+
+type PresetLibraryPanelProps = {
+  explorer: PresetExplorer;
+  /** The explorer's current configuration, saved as-is. */
+  current: Omit<PresetDraft, "name" | "tags" | "explorer">;
+  onLoad: (preset: ExplorerPreset) => void;
+  accent?: "sky" | "orange";
+};
+
+const inputClass = "min-w-0 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-xs text-gray-200";
+
+export function PresetLibraryPanel({ explorer, current, onLoad, accent = "sky" }: PresetLibraryPanelProps) {
+  const { presets, savePreset, editPreset, deletePreset, importPresets } = usePresetLibrary();
+  const [name, setName] = useState("");
+  const [tagText, setTagText] = useState("");
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const hover = accent === "orange" ? "hover:border-orange-400/70" : "hover:border-blue-400/70";
+
+  const visible = useMemo(() => searchPresets(presets, query), [presets, query]);
+
+  const save = () => {
+    if (!name.trim()) return;
+    savePreset({ ...current, name: name.trim(), tags: parseTagList(tagText), explorer });
+    setName("");
+    setTagText("");
+    setMessage({ text: `Saved "${name.trim()}"`, isError: false });
+  };
+
+  const commitEdit = () => {
+    if (!editing || !editing.name.trim()) return;
+    editPreset(editing.id, { name: editing.name.trim(), tags: parseTagList(editing.tags) });
+    setEditing(null);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const count = importPresets(await file.text());
+      setMessage({ text: `Imported ${count} preset${count === 1 ? "" : "s"} from ${file.name}`, isError: false });
+    } catch (error) {
+      setMessage({ text: `${file.name}: ${error instanceof Error ? error.message : "could not be read"}`, isError: true });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Saved presets</h2>
+        <span className="text-xs uppercase tracking-widest text-white/60">{presets.length} stored</span>
+      </div>
+      <p className="text-sm text-gray-400">
+        Presets keep f0, timbre, roughness model and the selected chord in this browser. Both explorers share the
+        library; a preset from the other explorer loads as many voices as fit here.
+      </p>
+
+      <div className="grid gap-2 md:grid-cols-[1fr_1fr_auto]">
+        <input value={name} onChange={(event) => setName(event.target.value)} placeholder="Preset name" className={inputClass} />
+        <input value={tagText} onChange={(event) => setTagText(event.target.value)} placeholder="Tags, comma separated" className={inputClass} />
+        <button
+          type="button"
+          onClick={save}
+          disabled={!name.trim()}
+          className={`rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm text-white font-medium transition ${hover} disabled:opacity-40`}
+        >
+          + Save current
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search names and tags"
+          className={`${inputClass} flex-1`}
+        />
+        <label className="cursor-pointer text-xs text-blue-300 hover:text-blue-200">
+          Import JSON…
+          <input type="file" accept=".json,application/json" className="hidden" onChange={(event) => { void handleImport(event); }} />
+        </label>
+        <button
+          type="button"
+          onClick={() => downloadFile("dissonance-presets.json", serializePresetLibrary(visible), "application/json")}
+          disabled={!visible.length}
+          className="text-xs text-blue-300 hover:text-blue-200 disabled:opacity-40"
+        >
+          Export {query.trim() ? "matches" : "all"}
+        </button>
+      </div>
+      {message && <p className={`text-xs ${message.isError ? "text-red-300" : "text-gray-400"}`}>{message.text}</p>}
+
+      <div className="max-h-80 space-y-2 overflow-y-auto">
+        {visible.map((preset) =>
+          editing?.id === preset.id ? (
+            <div key={preset.id} className="grid gap-2 rounded-lg border border-white/10 bg-white/5 p-3 md:grid-cols-[1fr_1fr_auto]">
+              <input
+                value={editing.name}
+                onChange={(event) => setEditing({ ...editing, name: event.target.value })}
+                onKeyDown={(event) => { if (event.key === "Enter") commitEdit(); }}
+                aria-label="Preset name"
+                className={inputClass}
+              />
+              <input
+                value={editing.tags}
+                onChange={(event) => setEditing({ ...editing, tags: event.target.value })}
+                onKeyDown={(event) => { if (event.key === "Enter") commitEdit(); }}
+                aria-label="Tags"
+                className={inputClass}
+              />
+              <div className="flex gap-2 text-xs">
+                <button type="button" onClick={commitEdit} className="text-blue-300 hover:text-blue-200">Save</button>
+                <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-200">Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <div key={preset.id} className="flex items-start justify-between gap-3 rounded-lg border border-white/10 bg-white/5 p-3">
+              <button type="button" onClick={() => onLoad(preset)} className="min-w-0 flex-1 text-left">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-white">{preset.name}</span>
+                  <span className="rounded-full border border-white/20 px-2 text-[10px] uppercase tracking-widest text-white/60">
+                    {preset.explorer}
+                  </span>
+                  {preset.tags.map((tag) => (
+                    <span key={tag} className="rounded-full bg-slate-800 px-2 text-[11px] text-gray-300">#{tag}</span>
+                  ))}
+                </div>
+                <div className="mt-1 font-mono text-[11px] text-gray-500">
+                  {`f0=${preset.f0} Hz · ${SPECTRUM_KINDS.find((item) => item.kind === preset.spectrum.kind)?.label ?? preset.spectrum.kind} · ${preset.ratios.map((ratio) => `${ratio.toFixed(3)}×`).join(", ")}`}
+                </div>
+              </button>
+              <div className="flex gap-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setEditing({ id: preset.id, name: preset.name, tags: preset.tags.join(", ") })}
+                  className="text-gray-400 hover:text-gray-200"
+                >
+                  Edit
+                </button>
+                <button type="button" onClick={() => deletePreset(preset.id)} className="text-gray-400 hover:text-red-300">
+                  Delete
+                </button>
+              </div>
+            </div>
+          )
+        )}
+        {!visible.length && (
+          <p className="text-sm text-gray-500">{presets.length ? "No presets match the search." : "No presets saved yet."}</p>
+        )}
+      </div>
+    </div>
+  );
+}
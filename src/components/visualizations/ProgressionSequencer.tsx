@@ -0,0 +1,259 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { parseChordRatios, scoreProgression } from "@/lib/dissonance/progression";
+import type { ProgressionStep, ScoredStep } from "@/lib/dissonance/progression";
+import type { RoughnessModel } from "@/lib/dissonance/roughness";
+import type { Spectrum } from "@/lib/dissonance/types";
+import type { PlaybackHandle } from "@/lib/dissonance/useReferenceTonePlayer";
+
+type ProgressionSequencerProps = {
+  f0: number;
+  spectrum: Spectrum;
+  model: RoughnessModel;
+  /** The chord currently selected in the explorer, offered as the next step. */
+  selectedChord: { label: string; ratios: number[] };
+  onPlay: (steps: { tuning: number[]; duration: number }[]) => Promise<PlaybackHandle | null>;
+  onStop: () => void;
+};
+
+const DEFAULT_STEP_DURATION = 1.5;
+
+const INITIAL_STEPS: ProgressionStep[] = [
+  { id: "step-1", label: "Major 4:5:6", ratios: [1, 5 / 4, 3 / 2], duration: DEFAULT_STEP_DURATION },
+  { id: "step-2", label: "Sus4 6:8:9", ratios: [1, 4 / 3, 3 / 2], duration: DEFAULT_STEP_DURATION },
+  { id: "step-3", label: "Minor 10:12:15", ratios: [1, 6 / 5, 3 / 2], duration: DEFAULT_STEP_DURATION },
+];
+
+export function ProgressionSequencer({ f0, spectrum, model, selectedChord, onPlay, onStop }: ProgressionSequencerProps) {
+  const [steps, setSteps] = useState<ProgressionStep[]>(INITIAL_STEPS);
+  const [chordText, setChordText] = useState("");
+  const [chordError, setChordError] = useState<string | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const nextIdRef = useRef(INITIAL_STEPS.length + 1);
+  const frameRef = useRef<number | null>(null);
+
+  const scored = useMemo(() => scoreProgression(steps, f0, spectrum, model), [steps, f0, spectrum, model]);
+  const activeIndex = playhead === null
+    ? -1
+    : scored.findIndex((step) => playhead >= step.startTime && playhead < step.startTime + step.duration);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const addStep = (label: string, ratios: number[]) => {
+    const id = `step-${nextIdRef.current++}`;
+    setSteps((current) => [...current, { id, label, ratios, duration: DEFAULT_STEP_DURATION }]);
+  };
+
+  const addTypedChord = () => {
+    try {
+      addStep(chordText.trim(), parseChordRatios(chordText));
+      setChordText("");
+      setChordError(null);
+    } catch (error) {
+      setChordError(error instanceof Error ? error.message : "Invalid chord");
+    }
+  };
+
+  const updateStep = (id: string, patch: Partial<ProgressionStep>) =>
+    setSteps((current) => current.map((step) => (step.id === id ? { ...step, ...patch } : step)));
+
+  const moveStep = (index: number, offset: number) =>
+    setSteps((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = current.slice();
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const play = async () => {
+    const handle = await onPlay(steps.map((step) => ({ tuning: step.ratios, duration: step.duration })));
+    if (!handle) return;
+
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    const follow = () => {
+      const elapsed = handle.currentTime() - handle.startTime;
+      if (!handle.isActive() || elapsed >= handle.duration) {
+        frameRef.current = null;
+        setPlayhead(null);
+        return;
+      }
+      setPlayhead(Math.max(elapsed, 0));
+      frameRef.current = requestAnimationFrame(follow);
+    };
+    frameRef.current = requestAnimationFrame(follow);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Progression sequencer</h2>
+        <span className="text-xs uppercase tracking-widest text-white/60">{steps.length} chords</span>
+      </div>
+      <p className="text-sm text-gray-400">
+        Build a timeline from the selected chord or typed ratios (4:5:6 or 5/4 3/2). Each step is scored with the
+        N-voice roughness of the current timbre; voice leading is the total cents the voices move.
+      </p>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <button
+          type="button"
+          onClick={() => addStep(selectedChord.label, selectedChord.ratios)}
+          className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-sm text-white font-medium transition hover:border-orange-400/70"
+        >
+          + Add selected chord ({selectedChord.label})
+        </button>
+        <div className="space-y-1">
+          <div className="flex gap-2">
+            <input
+              value={chordText}
+              onChange={(event) => setChordText(event.target.value)}
+              onKeyDown={(event) => { if (event.key === "Enter") addTypedChord(); }}
+              placeholder="4:5:6"
+              className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 font-mono text-xs text-gray-200"
+            />
+            <button
+              type="button"
+              onClick={addTypedChord}
+              className="rounded-lg border border-white/10 px-3 text-sm text-white transition hover:border-orange-400/70"
+            >
+              + Add
+            </button>
+          </div>
+          {chordError && <p className="text-xs text-red-300">{chordError}</p>}
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full table-auto text-sm text-gray-300 [&_th]:text-left [&_th]:font-semibold [&_td]:py-1 [&_td]:pr-3">
+          <thead className="text-white">
+            <tr>
+              <th scope="col">#</th>
+              <th scope="col">chord</th>
+              <th scope="col">ratios</th>
+              <th scope="col">seconds</th>
+              <th scope="col">roughness</th>
+              <th scope="col">voice leading</th>
+              <th scope="col" />
+            </tr>
+          </thead>
+          <tbody>
+            {scored.map((step, idx) => (
+              <tr key={step.id} className={`border-t border-white/10 ${idx === activeIndex ? "bg-orange-500/10" : ""}`}>
+                <td className="font-medium text-white">{idx + 1}</td>
+                <td>{step.label}</td>
+                <td className="font-mono text-xs">{step.ratios.map((ratio) => ratio.toFixed(3)).join(" · ")}</td>
+                <td>
+                  <input
+                    type="number"
+                    min={0.25}
+                    max={8}
+                    step={0.25}
+                    value={step.duration}
+                    onChange={(event) => {
+                      const duration = Number(event.target.value);
+                      if (Number.isFinite(duration) && duration > 0) updateStep(step.id, { duration: Math.min(duration, 8) });
+                    }}
+                    className="w-16 rounded border border-slate-700 bg-slate-800 px-1 font-mono text-xs text-gray-200"
+                  />
+                </td>
+                <td className="font-mono text-orange-300">{step.dissonance.toFixed(3)}</td>
+                <td className="font-mono">{step.voiceLeading === null ? "—" : `${step.voiceLeading.toFixed(0)}¢`}</td>
+                <td className="whitespace-nowrap text-xs">
+                  <button type="button" onClick={() => moveStep(idx, -1)} className="px-1 text-gray-400 hover:text-white" aria-label="Move up">↑</button>
+                  <button type="button" onClick={() => moveStep(idx, 1)} className="px-1 text-gray-400 hover:text-white" aria-label="Move down">↓</button>
+                  <button
+                    type="button"
+                    onClick={() => setSteps((current) => current.filter((entry) => entry.id !== step.id))}
+                    className="px-1 text-gray-400 hover:text-red-300"
+                    aria-label="Remove"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {scored.length > 0 && <TensionPlot steps={scored} playhead={playhead} />}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => { void play(); }}
+          disabled={!steps.length}
+          className="flex-1 py-2 px-4 bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg disabled:opacity-40"
+        >
+          ▶ Play progression
+        </button>
+        <button
+          type="button"
+          onClick={onStop}
+          className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-orange-400/70"
+        >
+          ■ Stop
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const PLOT_WIDTH = 640;
+const PLOT_HEIGHT = 180;
+const PLOT_MARGIN = { top: 14, right: 14, bottom: 30, left: 48 };
+
+/** Roughness as a step curve over time, with voice-leading bars at each chord change. */
+function TensionPlot({ steps, playhead }: { steps: ScoredStep[]; playhead: number | null }) {
+  const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+  const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+  const last = steps[steps.length - 1];
+  const totalTime = Math.max(last.startTime + last.duration, 1e-6);
+  const maxDissonance = Math.max(...steps.map((step) => step.dissonance), 1e-9);
+  const maxLeading = Math.max(...steps.map((step) => step.voiceLeading ?? 0), 1e-9);
+  const toX = (time: number) => PLOT_MARGIN.left + (time / totalTime) * innerWidth;
+  const toY = (value: number) => PLOT_MARGIN.top + (1 - value / maxDissonance) * innerHeight;
+  const baseline = PLOT_HEIGHT - PLOT_MARGIN.bottom;
+
+  const curve = steps
+    .map((step, idx) => {
+      const y = toY(step.dissonance).toFixed(2);
+      const move = idx === 0 ? `M${toX(step.startTime).toFixed(2)},${y}` : `L${toX(step.startTime).toFixed(2)},${y}`;
+      return `${move} L${toX(step.startTime + step.duration).toFixed(2)},${y}`;
+    })
+    .join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-44">
+      <line x1={PLOT_MARGIN.left} y1={baseline} x2={PLOT_WIDTH - PLOT_MARGIN.right} y2={baseline} stroke="#ffffff33" />
+      <line x1={PLOT_MARGIN.left} y1={PLOT_MARGIN.top} x2={PLOT_MARGIN.left} y2={baseline} stroke="#ffffff33" />
+      {steps.map((step) =>
+        step.voiceLeading === null ? null : (
+          <rect
+            key={`vl-${step.id}`}
+            x={toX(step.startTime) - 3}
+            y={baseline - (step.voiceLeading / maxLeading) * innerHeight * 0.4}
+            width={6}
+            height={(step.voiceLeading / maxLeading) * innerHeight * 0.4}
+            fill="#a78bfa"
+            opacity={0.6}
+          />
+        )
+      )}
+      <path d={curve} fill="none" stroke="#fb923c" strokeWidth="2" />
+      {playhead !== null && (
+        <line x1={toX(playhead)} y1={PLOT_MARGIN.top} x2={toX(playhead)} y2={baseline} stroke="#f97316" strokeDasharray="4 3" />
+      )}
+      <text x={PLOT_MARGIN.left - 6} y={PLOT_MARGIN.top + 4} fill="#94a3b8" fontSize="10" textAnchor="end">{maxDissonance.toFixed(2)}</text>
+      <text x={PLOT_MARGIN.left - 6} y={baseline} fill="#94a3b8" fontSize="10" textAnchor="end">0</text>
+      <text x={PLOT_WIDTH - PLOT_MARGIN.right} y={PLOT_HEIGHT - 8} fill="#94a3b8" fontSize="10" textAnchor="end">{totalTime.toFixed(1)} s</text>
+      <text x={(PLOT_MARGIN.left + PLOT_WIDTH - PLOT_MARGIN.right) / 2} y={PLOT_HEIGHT - 8} fill="#cbd5f5" fontSize="11" textAnchor="middle" fontWeight="600">
+        Tension (roughness) over time · bars: voice leading
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import type { TimelineSegment } from "@/lib/dissonance/timeline";
+
+type RoughnessTimelinePlotProps = {
+  segments: TimelineSegment[];
+  duration: number;
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+};
+
+const WIDTH = 720;
+const HEIGHT = 220;
+const MARGIN = { top: 14, right: 14, bottom: 30, left: 48 };
+
+/** Roughness of each sounding window as a bar over its time span; bars are clickable. */
+export function RoughnessTimelinePlot({ segments, duration, selectedIndex, onSelect }: RoughnessTimelinePlotProps) {
+  const innerWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const innerHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const totalTime = Math.max(duration, 1e-6);
+  const maxDissonance = Math.max(...segments.map((segment) => segment.dissonance), 1e-9);
+  const toX = (time: number) => MARGIN.left + (time / totalTime) * innerWidth;
+  const toY = (value: number) => MARGIN.top + (1 - value / maxDissonance) * innerHeight;
+  const baseline = HEIGHT - MARGIN.bottom;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-56">
+      <line x1={MARGIN.left} y1={baseline} x2={WIDTH - MARGIN.right} y2={baseline} stroke="#ffffff33" />
+      <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={baseline} stroke="#ffffff33" />
+      {segments.map((segment, idx) => {
+        const x = toX(segment.start);
+        const y = toY(segment.dissonance);
+        const isSelected = idx === selectedIndex;
+        return (
+          <rect
+            key={`${segment.start}-${idx}`}
+            x={x}
+            y={y}
+            width={Math.max(toX(segment.end) - x, 1)}
+            height={Math.max(baseline - y, 1)}
+            fill={isSelected ? "#f97316" : "#fb923c"}
+            opacity={isSelected ? 1 : 0.55}
+            className="cursor-pointer hover:opacity-90"
+            onClick={() => onSelect(idx)}
+          >
+            <title>{`${segment.start.toFixed(2)}–${segment.end.toFixed(2)} s · ${segment.notes.length} notes · ${segment.dissonance.toFixed(3)}`}</title>
+          </rect>
+        );
+      })}
+      <text x={MARGIN.left - 6} y={MARGIN.top + 4} fill="#94a3b8" fontSize="10" textAnchor="end">{maxDissonance.toFixed(2)}</text>
+      <text x={MARGIN.left - 6} y={baseline} fill="#94a3b8" fontSize="10" textAnchor="end">0</text>
+      <text x={MARGIN.left} y={HEIGHT - 8} fill="#94a3b8" fontSize="10">0 s</text>
+      <text x={WIDTH - MARGIN.right} y={HEIGHT - 8} fill="#94a3b8" fontSize="10" textAnchor="end">{totalTime.toFixed(1)} s</text>
+      <text x={(MARGIN.left + WIDTH - MARGIN.right) / 2} y={HEIGHT - 8} fill="#cbd5f5" fontSize="11" textAnchor="middle" fontWeight="600">
+        Roughness over time · click a segment to hear it
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import { formatNoteName, frequencyToNoteName } from "@/lib/dissonance/noteNames";
+import { extractSpectrum, mixToMono } from "@/lib/dissonance/sampleSpectrum";
+import type { ExtractedSpectrum } from "@/lib/dissonance/sampleSpectrum";
+import type { SpectrumPartial } from "@/lib/dissonance/types";
+
+type SampleSpectrumImportProps = {
+  accent?: "sky" | "orange";
+  onExtract: (partials: SpectrumPartial[]) => void;
+};
+
+type DecodedSample = { name: string; samples: Float32Array; sampleRate: number };
+
+async function decodeSample(file: File): Promise<DecodedSample> {
+  // An offline context decodes without opening an audio device; its own length is irrelevant here.
+  const ctx = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, idx) => buffer.getChannelData(idx));
+  return { name: file.name, samples: mixToMono(channels), sampleRate: buffer.sampleRate };
+}
+
+function describePitch(frequency: number) {
+  return formatNoteName(frequencyToNoteName(frequency));
+}
+
+/** Turns a recorded note (WAV, MP3, …) into a custom partial list via FFT peak picking. */
+export function SampleSpectrumImport({ onExtract, accent = "sky" }: SampleSpectrumImportProps) {
+  const [sample, setSample] = useState<DecodedSample | null>(null);
+  const [result, setResult] = useState<ExtractedSpectrum | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [maxPartials, setMaxPartials] = useState(12);
+  const [floorDb, setFloorDb] = useState(40);
+
+  const analyse = (source: DecodedSample, options: { maxPartials: number; floorDb: number }) => {
+    try {
+      const extracted = extractSpectrum(source.samples, source.sampleRate, options);
+      setResult(extracted);
+      setError(null);
+      onExtract(extracted.partials);
+    } catch (analysisError) {
+      setResult(null);
+      setError(`${source.name}: ${analysisError instanceof Error ? analysisError.message : "analysis failed"}`);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setIsDecoding(true);
+    try {
+      const decoded = await decodeSample(file);
+      setSample(decoded);
+      analyse(decoded, { maxPartials, floorDb });
+    } catch {
+      setError(`${file.name}: the browser could not decode this audio file`);
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="inline-block cursor-pointer text-xs text-blue-300 hover:text-blue-200">
+        {isDecoding ? "Analysing sample…" : "Extract from audio sample…"}
+        <input type="file" accept="audio/*,.wav,.mp3,.ogg,.flac" className="hidden" onChange={(event) => { void handleFile(event); }} />
+      </label>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {sample && result && (
+        <div className="space-y-4 rounded-lg border border-white/10 px-3 py-3">
+          <p className="text-xs text-gray-400">
+            {sample.name}: f0 ≈ {result.fundamental.toFixed(1)} Hz ({describePitch(result.fundamental)}),{" "}
+            {result.partials.length} partials
+          </p>
+          <PartialStems partials={result.partials} />
+          <SliderControl
+            label="Max partials"
+            value={maxPartials}
+            displayValue={`${maxPartials}`}
+            min={2}
+            max={24}
+            step={1}
+            onChange={(value) => {
+              setMaxPartials(value);
+              analyse(sample, { maxPartials: value, floorDb });
+            }}
+            accent={accent}
+          />
+          <SliderControl
+            label="Peak floor"
+            value={floorDb}
+            displayValue={`−${floorDb} dB`}
+            min={20}
+            max={70}
+            step={1}
+            onChange={(value) => {
+              setFloorDb(value);
+              analyse(sample, { maxPartials, floorDb: value });
+            }}
+            accent={accent}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+const STEM_WIDTH = 240;
+const STEM_HEIGHT = 64;
+
+function PartialStems({ partials }: { partials: SpectrumPartial[] }) {
+  const maxRatio = Math.max(...partials.map((partial) => partial.ratio), 2);
+  const toX = (ratio: number) => 6 + (Math.log2(ratio) / Math.log2(maxRatio)) * (STEM_WIDTH - 12);
+
+  return (
+    <svg viewBox={`0 0 ${STEM_WIDTH} ${STEM_HEIGHT}`} className="w-full h-16" aria-label="Extracted partials">
+      <line x1={0} y1={STEM_HEIGHT - 1} x2={STEM_WIDTH} y2={STEM_HEIGHT - 1} stroke="#ffffff33" />
+      {partials.map((partial) => (
+        <line
+          key={partial.ratio}
+          x1={toX(partial.ratio)}
+          x2={toX(partial.ratio)}
+          y1={STEM_HEIGHT - 1}
+          y2={STEM_HEIGHT - 1 - partial.amplitude * (STEM_HEIGHT - 6)}
+          stroke="#60a5fa"
+          strokeWidth="2"
+        >
+          <title>{`${partial.ratio.toFixed(3)}× · ${partial.amplitude.toFixed(2)}`}</title>
+        </line>
+      ))}
+    </svg>
+  );
+}
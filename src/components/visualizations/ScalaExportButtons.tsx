@@ -0,0 +1,38 @@
+"use client";
+
+import { downloadFile } from "@/lib/download";
+import { formatKbm, formatScl } from "@/lib/dissonance/scala";
+import type { ScalaScale } from "@/lib/dissonance/scala";
+
+type ScalaExportButtonsProps = {
+  /** File name without extension. */
+  name: string;
+  scale: ScalaScale;
+  f0: number;
+};
+
+export function ScalaExportButtons({ name, scale, f0 }: ScalaExportButtonsProps) {
+  const exportScl = () => {
+    const filename = `${name}.scl`;
+    downloadFile(filename, formatScl(filename, scale), "text/plain");
+  };
+
+  const exportKbm = () => {
+    const filename = `${name}.kbm`;
+    downloadFile(filename, formatKbm(filename, scale.pitches.length, f0), "text/plain");
+  };
+
+  const buttonClass =
+    "rounded border border-white/10 px-2 py-1 text-xs text-blue-200 transition hover:border-blue-400 disabled:opacity-40";
+
+  return (
+    <div className="flex items-center gap-2">
+      <button type="button" onClick={exportScl} disabled={!scale.pitches.length} className={buttonClass}>
+        Export .scl
+      </button>
+      <button type="button" onClick={exportKbm} disabled={!scale.pitches.length} className={buttonClass}>
+        Export .kbm ({f0} Hz)
+      </button>
+    </div>
+  );
+}
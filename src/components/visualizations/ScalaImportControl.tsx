@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { parseKbm, parseScl } from "@/lib/dissonance/scala";
+import type { KeyboardMapping, ScalaScale } from "@/lib/dissonance/scala";
+
+type ScalaImportControlProps = {
+  label?: string;
+  onScale: (scale: ScalaScale) => void;
+  /** When set, `.kbm` files are accepted too. */
+  onMapping?: (mapping: KeyboardMapping) => void;
+};
+
+export function ScalaImportControl({ label = "Import Scala file…", onScale, onMapping }: ScalaImportControlProps) {
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith(".kbm")) {
+        if (!onMapping) throw new Error("Keyboard mappings are not used here; choose a .scl file");
+        const mapping = parseKbm(text);
+        onMapping(mapping);
+        setMessage({ text: `${file.name}: reference ${mapping.referenceFrequency.toFixed(2)} Hz`, isError: false });
+        return;
+      }
+      const scale = parseScl(text);
+      onScale(scale);
+      setMessage({ text: `${file.name}: ${scale.pitches.length} notes${scale.description ? ` — ${scale.description}` : ""}`, isError: false });
+    } catch (error) {
+      setMessage({ text: `${file.name}: ${error instanceof Error ? error.message : "could not be read"}`, isError: true });
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="inline-block cursor-pointer text-xs text-blue-300 hover:text-blue-200">
+        {label}
+        <input
+          type="file"
+          accept={onMapping ? ".scl,.kbm" : ".scl"}
+          className="hidden"
+          onChange={(event) => { void handleFile(event); }}
+        />
+      </label>
+      {message && <p className={`text-xs ${message.isError ? "text-red-300" : "text-gray-400"}`}>{message.text}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ScalaExportButtons } from "@/components/visualizations/ScalaExportButtons";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import { formatCentsError, formatFraction } from "@/lib/dissonance/intervals";
+import type { RoughnessModel } from "@/lib/dissonance/roughness";
+import { scalaPitchFromCents } from "@/lib/dissonance/scala";
+import { generateScale, tertianChord } from "@/lib/dissonance/scales";
+import { ratioToCents } from "@/lib/dissonance/tuning";
+import type { Spectrum } from "@/lib/dissonance/types";
+
+type ScaleBuilderPanelProps = {
+  f0: number;
+  spectrum: Spectrum;
+  model: RoughnessModel;
+  onPlayDegree: (ratio: number) => void;
+  onPlayRun: (ratios: number[]) => void;
+  onPlayChords: (chords: number[][]) => void;
+};
+
+export function ScaleBuilderPanel({ f0, spectrum, model, onPlayDegree, onPlayRun, onPlayChords }: ScaleBuilderPanelProps) {
+  const [period, setPeriod] = useState(2);
+  const [mergeCents, setMergeCents] = useState(20);
+
+  const degrees = useMemo(
+    () => generateScale({ baseFreq: f0, spectrum, model, minRatio: 1, maxRatio: period, mergeCents }),
+    [f0, spectrum, model, period, mergeCents]
+  );
+
+  // Degrees below the period are the scale's pitch classes; the period itself closes the run.
+  const pitchClasses = useMemo(
+    () => degrees.filter((degree) => degree.ratio < period - 1e-6).map((degree) => degree.ratio),
+    [degrees, period]
+  );
+
+  const scalaScale = useMemo(
+    () => ({
+      description: `Dissonance-curve minima, ${model.label}, f0 = ${f0} Hz`,
+      pitches: [...pitchClasses.slice(1), period].map((ratio) => scalaPitchFromCents(ratioToCents(ratio))),
+    }),
+    [pitchClasses, period, model, f0]
+  );
+
+  const playRun = () => onPlayRun([...pitchClasses, period]);
+  const playChords = () => onPlayChords(pitchClasses.map((_, degree) => tertianChord(pitchClasses, degree, period)));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Scale from curve minima</h2>
+        <span className="text-xs uppercase tracking-widest text-white/60">{pitchClasses.length} notes</span>
+      </div>
+      <p className="text-sm text-gray-400">
+        The valleys of this timbre&apos;s dissonance curve become the scale: change the spectrum and the scale follows.
+      </p>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <SliderControl
+          label="Range (period)"
+          value={period}
+          displayValue={`${period.toFixed(2)}×`}
+          min={1.5}
+          max={4}
+          step={0.01}
+          onChange={setPeriod}
+        />
+        <SliderControl
+          label="Merge minima closer than"
+          value={mergeCents}
+          displayValue={`${mergeCents}¢`}
+          min={0}
+          max={100}
+          step={1}
+          onChange={(value) => setMergeCents(Math.round(value))}
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={playRun}
+          className="flex-1 py-2 px-4 bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg"
+        >
+          ▶ Ascending run
+        </button>
+        <button
+          type="button"
+          onClick={playChords}
+          disabled={pitchClasses.length < 3}
+          className="flex-1 py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-blue-400/70 disabled:opacity-40"
+        >
+          ▶ Stacked-third chords
+        </button>
+      </div>
+
+      <ScalaExportButtons name="curve-minima" scale={scalaScale} f0={f0} />
+
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full table-auto text-sm text-gray-300 [&_th]:text-left [&_th]:font-semibold [&_td]:py-1 [&_td]:pr-4">
+          <thead className="text-white">
+            <tr>
+              <th scope="col">degree</th>
+              <th scope="col">ratio</th>
+              <th scope="col">cents</th>
+              <th scope="col">nearest just</th>
+              <th scope="col">dissonance</th>
+              <th scope="col" />
+            </tr>
+          </thead>
+          <tbody>
+            {degrees.map((degree, idx) => (
+              <tr key={degree.cents.toFixed(2)} className="border-t border-white/10">
+                <td className="font-medium text-white">{idx}</td>
+                <td className="font-mono">{degree.ratio.toFixed(4)}×</td>
+                <td className="font-mono">{degree.cents.toFixed(1)}</td>
+                <td className="font-mono">
+                  {formatFraction(degree.just)} <span className="text-gray-500">{formatCentsError(degree.just.errorCents)}</span>
+                </td>
+                <td className="font-mono">{degree.value.toFixed(3)}</td>
+                <td>
+                  <button
+                    type="button"
+                    onClick={() => onPlayDegree(degree.ratio)}
+                    className="rounded border border-white/10 px-2 py-0.5 text-xs text-blue-200 hover:border-blue-400"
+                  >
+                    ▶
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
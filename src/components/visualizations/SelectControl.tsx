@@ -0,0 +1,41 @@
+"use client";
+
+type SelectOption<T extends string> = {
+  value: T;
+  label: string;
+};
+
+type SelectControlProps<T extends string> = {
+  label: string;
+  value: T;
+  options: readonly SelectOption<T>[];
+  accent?: "sky" | "orange";
+  onChange: (value: T) => void;
+};
+
+export function SelectControl<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  accent = "sky",
+}: SelectControlProps<T>) {
+  const focusClass = accent === "orange" ? "focus:ring-orange-500" : "focus:ring-blue-500";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-300">{label}</label>
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value as T)}
+        className={`w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 ${focusClass}`}
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
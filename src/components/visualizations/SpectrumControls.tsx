@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { SampleSpectrumImport } from "@/components/visualizations/SampleSpectrumImport";
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import { SPECTRUM_KINDS, formatPartialList, parsePartialList, parseSpectrumPreset } from "@/lib/dissonance/spectra";
+import type { SpectrumSettings } from "@/lib/dissonance/types";
+
+type SpectrumControlsProps = {
+  settings: SpectrumSettings;
+  accent?: "sky" | "orange";
+  /** Slider limit for generated spectra; kinds with a fixed partial table use its length. */
+  maxPartials?: number;
+  onChange: (settings: SpectrumSettings) => void;
+};
+
+export function SpectrumControls({ settings, onChange, accent = "sky", maxPartials = 6 }: SpectrumControlsProps) {
+  const [customText, setCustomText] = useState(() => formatPartialList(settings.custom));
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [syncedCustom, setSyncedCustom] = useState(settings.custom);
+  const [presetMessage, setPresetMessage] = useState<string | null>(null);
+  const kindInfo = SPECTRUM_KINDS.find((item) => item.kind === settings.kind);
+  const partialLimit = (kind: SpectrumSettings["kind"]) =>
+    SPECTRUM_KINDS.find((item) => item.kind === kind)?.partialCount ?? maxPartials;
+
+  // Partials set from outside (a loaded preset, an extracted sample, a solved timbre) replace whatever was typed.
+  if (settings.custom !== syncedCustom) {
+    setSyncedCustom(settings.custom);
+    setCustomText(formatPartialList(settings.custom));
+    setCustomError(null);
+  }
+
+  const update = (patch: Partial<SpectrumSettings>) => onChange({ ...settings, ...patch });
+
+  const handleCustomText = (text: string) => {
+    setCustomText(text);
+    try {
+      const custom = parsePartialList(text);
+      setSyncedCustom(custom);
+      update({ custom });
+      setCustomError(null);
+    } catch (error) {
+      setCustomError(error instanceof Error ? error.message : "Invalid partial list");
+    }
+  };
+
+  const handlePresetFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const preset = parseSpectrumPreset(await file.text());
+      update({ kind: "custom", custom: preset.partials });
+      setPresetMessage(`Loaded "${preset.name}"`);
+    } catch (error) {
+      setPresetMessage(error instanceof Error ? error.message : "Could not read preset");
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-1">
+        <SelectControl
+          label="Timbre"
+          value={settings.kind}
+          options={SPECTRUM_KINDS.map((item) => ({ value: item.kind, label: item.label }))}
+          onChange={(kind) => update({ kind, partials: Math.min(settings.partials, partialLimit(kind)) })}
+          accent={accent}
+        />
+        {kindInfo && <p className="text-xs text-gray-500">{kindInfo.description}</p>}
+        <label className="inline-block cursor-pointer text-xs text-blue-300 hover:text-blue-200">
+          Load spectrum preset…
+          <input type="file" accept=".json,application/json" className="hidden" onChange={(event) => { void handlePresetFile(event); }} />
+        </label>
+        {presetMessage && <p className="text-xs text-gray-400">{presetMessage}</p>}
+        <SampleSpectrumImport onExtract={(custom) => update({ kind: "custom", custom })} accent={accent} />
+      </div>
+
+      {settings.kind === "custom" ? (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">Partials (ratio:amplitude)</label>
+          <textarea
+            value={customText}
+            onChange={(event) => handleCustomText(event.target.value)}
+            rows={3}
+            className="w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 font-mono text-xs text-gray-200"
+          />
+          {customError && <p className="text-xs text-red-300">{customError}</p>}
+        </div>
+      ) : (
+        <>
+          <SliderControl
+            label="Partials"
+            value={settings.partials}
+            displayValue={`${settings.partials}`}
+            min={1}
+            max={partialLimit(settings.kind)}
+            step={1}
+            onChange={(value) => update({ partials: Math.round(value) })}
+            accent={accent}
+          />
+          <SliderControl
+            label="Rolloff"
+            value={settings.rolloff}
+            displayValue={settings.rolloff.toFixed(1)}
+            min={0.5}
+            max={2.5}
+            step={0.1}
+            onChange={(rolloff) => update({ rolloff })}
+            accent={accent}
+          />
+          {settings.kind === "stretched" && (
+            <SliderControl
+              label="Stretch exponent"
+              value={settings.stretch}
+              displayValue={settings.stretch.toFixed(2)}
+              min={0.8}
+              max={1.2}
+              step={0.01}
+              onChange={(stretch) => update({ stretch })}
+              accent={accent}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
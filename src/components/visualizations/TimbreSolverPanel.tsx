@@ -0,0 +1,197 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { SelectControl } from "@/components/visualizations/SelectControl";
+import { SliderControl } from "@/components/visualizations/SliderControl";
+import { downloadFile } from "@/lib/download";
+import type { RoughnessModel } from "@/lib/dissonance/roughness";
+import { serializeSpectrumPreset, spectrumFromPartials } from "@/lib/dissonance/spectra";
+import { solveTimbreForScale } from "@/lib/dissonance/timbreSolver";
+import type { TimbreSolution } from "@/lib/dissonance/timbreSolver";
+import { parseCentsList } from "@/lib/dissonance/tuning";
+import type { Spectrum, SpectrumPartial } from "@/lib/dissonance/types";
+
+type ScaleSource = "edo" | "cents";
+
+type TimbreSolverPanelProps = {
+  f0: number;
+  model: RoughnessModel;
+  onAudition: (spectrum: Spectrum, tunings: number[][], duration: number) => void;
+  onUseSpectrum: (partials: SpectrumPartial[]) => void;
+};
+
+const SCALE_SOURCES = [
+  { value: "edo", label: "Equal division (EDO)" },
+  { value: "cents", label: "Custom cents list" },
+] as const;
+
+export function TimbreSolverPanel({ f0, model, onAudition, onUseSpectrum }: TimbreSolverPanelProps) {
+  const [source, setSource] = useState<ScaleSource>("edo");
+  const [divisions, setDivisions] = useState(10);
+  const [centsText, setCentsText] = useState("240, 480, 720, 960, 1200");
+  const [partialCount, setPartialCount] = useState(8);
+  const [solution, setSolution] = useState<{ name: string; result: TimbreSolution } | null>(null);
+
+  const scale = useMemo(() => {
+    if (source === "edo") {
+      const stepCents = 1200 / divisions;
+      return {
+        name: `${divisions}-EDO`,
+        degrees: Array.from({ length: divisions - 1 }, (_, idx) => (idx + 1) * stepCents),
+        periodCents: 1200,
+        error: null,
+      };
+    }
+    try {
+      const { degrees, periodCents } = parseCentsList(centsText);
+      return { name: "Custom scale", degrees, periodCents, error: null };
+    } catch (error) {
+      return { name: "Custom scale", degrees: [], periodCents: 1200, error: error instanceof Error ? error.message : "Invalid cents list" };
+    }
+  }, [source, divisions, centsText]);
+
+  const solve = () => {
+    if (scale.error) return;
+    const result = solveTimbreForScale({
+      baseFreq: f0,
+      scaleCents: scale.degrees,
+      periodCents: scale.periodCents,
+      partials: partialCount,
+      model,
+    });
+    setSolution({ name: `${scale.name} timbre`, result });
+  };
+
+  const solvedSpectrum = solution ? spectrumFromPartials(solution.result.partials) : null;
+  const hits = solution ? solution.result.steps.filter((step) => step.isMinimum).length : 0;
+
+  const auditionRun = () => {
+    if (!solution || !solvedSpectrum) return;
+    onAudition(solvedSpectrum, [[1], ...solution.result.steps.map((step) => [step.ratio])], 0.4);
+  };
+
+  const auditionDyads = () => {
+    if (!solution || !solvedSpectrum) return;
+    onAudition(solvedSpectrum, solution.result.steps.map((step) => [1, step.ratio]), 0.9);
+  };
+
+  const exportPreset = () => {
+    if (!solution) return;
+    const filename = `${solution.name.toLowerCase().replace(/[^a-z0-9]+/gu, "-")}.json`;
+    downloadFile(filename, serializeSpectrumPreset(solution.name, solution.result.partials), "application/json");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Timbre from scale</h2>
+        {solution && (
+          <span className="text-xs uppercase tracking-widest text-white/60">
+            {hits}/{solution.result.steps.length} steps on minima
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-gray-400">
+        The inverse problem: pick a tuning and solve for a spectrum whose dissonance curve dips at every step. Partials are
+        snapped onto the scale, then their amplitudes are tuned.
+      </p>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <SelectControl label="Target tuning" value={source} options={SCALE_SOURCES} onChange={setSource} />
+        <SliderControl
+          label="Partials"
+          value={partialCount}
+          displayValue={`${partialCount}`}
+          min={3}
+          max={12}
+          step={1}
+          onChange={(value) => setPartialCount(Math.round(value))}
+        />
+      </div>
+
+      {source === "edo" ? (
+        <SliderControl
+          label="Divisions of the octave"
+          value={divisions}
+          displayValue={`${divisions}-EDO`}
+          min={5}
+          max={24}
+          step={1}
+          onChange={(value) => setDivisions(Math.round(value))}
+        />
+      ) : (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">Scale degrees in cents (last value is the period)</label>
+          <textarea
+            value={centsText}
+            onChange={(event) => setCentsText(event.target.value)}
+            rows={2}
+            className="w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 font-mono text-xs text-gray-200"
+          />
+          {scale.error && <p className="text-xs text-red-300">{scale.error}</p>}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={solve}
+        disabled={Boolean(scale.error)}
+        className="w-full py-2 px-4 bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg disabled:opacity-40"
+      >
+        Solve for a timbre
+      </button>
+
+      {solution && (
+        <>
+          <div className="rounded-lg bg-gray-800/50 p-3 font-mono text-xs text-gray-300">
+            {solution.result.partials.map((partial) => `${partial.ratio.toFixed(3)}:${partial.amplitude.toFixed(2)}`).join("  ")}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {solution.result.steps.map((step) => (
+              <span
+                key={step.cents.toFixed(2)}
+                className={`rounded px-2 py-0.5 font-mono text-xs ${
+                  step.isMinimum ? "bg-emerald-500/20 text-emerald-200" : "bg-white/5 text-gray-500"
+                }`}
+              >
+                {step.cents.toFixed(0)}¢
+              </span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              type="button"
+              onClick={auditionRun}
+              className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-blue-400/70"
+            >
+              ▶ Scale run
+            </button>
+            <button
+              type="button"
+              onClick={auditionDyads}
+              className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-blue-400/70"
+            >
+              ▶ Step dyads
+            </button>
+            <button
+              type="button"
+              onClick={() => onUseSpectrum(solution.result.partials)}
+              className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-blue-400/70"
+            >
+              Use in explorer
+            </button>
+            <button
+              type="button"
+              onClick={exportPreset}
+              className="py-2 px-4 rounded-lg border border-white/10 bg-white/5 text-white font-medium transition hover:border-blue-400/70"
+            >
+              Export preset
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import type { TriadSurface } from "@/lib/dissonance/math";
+import type { TriadMinimum } from "@/lib/dissonance/minima";
+import type { NoteNaming } from "@/lib/dissonance/noteNames";
+import { axisSpacing, ratioAxisTicks, ratioAxisTitle } from "@/lib/dissonance/ratioAxis";
+import type { RatioAxisScale } from "@/lib/dissonance/ratioAxis";
+import {
+  intervalsToTriangle,
+  surfaceSpanCents,
+  surfaceToTriangleGrid,
+  triadToTriangle,
+  triangleGuideLines,
+  triangleToTriad,
+} from "@/lib/dissonance/triadGeometry";
+import { loadPlotly, ratioAxisLayout } from "@/lib/plotly";
+import type { PlotlyHTMLElement, PlotlyModule, PlotlyPointsEvent } from "@/lib/plotly";
+
+export type TriadMapView = "heatmap" | "triangle";
+
+export const TRIAD_MAP_VIEWS: { view: TriadMapView; label: string }[] = [
+  { view: "heatmap", label: "Heatmap (r, s)" },
+  { view: "triangle", label: "Interval triangle" },
+];
+
+type TriadMapPlotProps = {
+  surface: TriadSurface;
+  minima: TriadMinimum[];
+  presets: { label: string; ratios: readonly [number, number] }[];
+  selected: readonly [number, number];
+  view: TriadMapView;
+  /** Axis scale of the heatmap; the triangle is always in cents. */
+  axisScale: RatioAxisScale;
+  /** Root frequency, for note-name tick labels. */
+  baseFreq: number;
+  noteNaming: NoteNaming;
+  onSelect: (r: number, s: number) => void;
+};
+
+const PLOT_FONT = { color: "#e2e8f0" };
+const CONTOURS = { coloring: "heatmap" as const, showlines: true, start: 0, end: 1, size: 0.05 };
+const CONTOUR_LINE = { color: "rgba(15,23,42,0.45)", width: 0.6 };
+
+/**
+ * 2D views of the triad surface: an (r, s) heatmap with contour lines, or the interval triangle.
+ * Both are SVG-rendered, so they also stand in for the 3D surface when WebGL is missing.
+ */
+export function TriadMapPlot({ surface, minima, presets, selected, view, axisScale, baseFreq, noteNaming, onSelect }: TriadMapPlotProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const plotlyRef = useRef<PlotlyModule | null>(null);
+  const onSelectRef = useRef(onSelect);
+
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  }, [onSelect]);
+
+  const triangleGrid = useMemo(() => (view === "triangle" ? surfaceToTriangleGrid(surface) : null), [surface, view]);
+  const span = surfaceSpanCents(surface);
+  // 100¢ guides per octave of span keep the line count constant as the range widens.
+  const guideStep = 100 * Math.ceil(span / 1200 - 1e-9);
+  const guides = useMemo(() => triangleGuideLines(guideStep, span), [guideStep, span]);
+  const ticks = useMemo(
+    () => ratioAxisTicks(surface.ratios[0] ?? 1, surface.ratios[surface.ratios.length - 1] ?? 2, axisScale, baseFreq, noteNaming),
+    [surface, axisScale, baseFreq, noteNaming]
+  );
+
+  // Purge only on unmount; redraws go through Plotly.react so the marker can move without flicker.
+  useEffect(() => {
+    const container = containerRef.current;
+    return () => {
+      if (container && plotlyRef.current) plotlyRef.current.purge(container);
+    };
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    const container = containerRef.current;
+
+    const draw = async () => {
+      const Plotly = await loadPlotly();
+      if (!container || !isMounted) return;
+
+      const place = (r: number, s: number) => {
+        if (view === "heatmap") return { x: r, y: s };
+        const { u, v } = triadToTriangle(r, s);
+        return { x: u, y: v };
+      };
+      const markerTrace = (name: string, points: { x: number; y: number }[], marker: Record<string, unknown>, text?: string[]) => ({
+        type: "scatter" as const,
+        mode: text ? "markers+text" : "markers",
+        x: points.map((point) => point.x),
+        y: points.map((point) => point.y),
+        text,
+        textposition: "top center",
+        textfont: { color: "#fde68a", size: 10 },
+        marker,
+        name,
+        hoverinfo: "skip",
+      });
+
+      const minimaPoints = minima.map((minimum) => place(minimum.ratioX, minimum.ratioY));
+      const presetPoints = presets.map((preset) => place(preset.ratios[0], preset.ratios[1]));
+      const overlays = [
+        markerTrace("Consonant minima", minimaPoints, { color: "#22c55e", size: 8, symbol: "diamond", line: { color: "#0f172a", width: 1 } }),
+        markerTrace("Presets", presetPoints, { color: "#facc15", size: 8, symbol: "star" }, presets.map((preset) => preset.label)),
+        markerTrace("Selected chord", [place(selected[0], selected[1])], { color: "#f97316", size: 11, line: { color: "#0f172a", width: 2 } }),
+      ];
+
+      let traces: unknown[];
+      let layout: Record<string, unknown>;
+      if (view === "heatmap" || !triangleGrid) {
+        traces = [
+          {
+            type: "contour" as const,
+            x: surface.ratios,
+            y: surface.ratios,
+            // Rows of a Plotly z grid run along y; the surface is symmetric, so this only fixes orientation.
+            z: surface.ratios.map((_, j) => surface.ratios.map((__, i) => surface.values[i][j])),
+            colorscale: "Viridis",
+            contours: CONTOURS,
+            line: CONTOUR_LINE,
+            hovertemplate: "r=%{x:.3f}<br>s=%{y:.3f}<br>D=%{z:.3f}<extra></extra>",
+          },
+          ...overlays,
+        ];
+        const log = axisSpacing(axisScale) === "log";
+        layout = {
+          xaxis: { ...ratioAxisLayout(ticks, log, ratioAxisTitle(axisScale, "r")), gridcolor: "#1f2937" },
+          yaxis: { ...ratioAxisLayout(ticks, log, ratioAxisTitle(axisScale, "s")), gridcolor: "#1f2937", scaleanchor: "x" },
+        };
+      } else {
+        const corner = (lower: number, upper: number) => intervalsToTriangle(lower, upper);
+        const outline = [corner(0, 0), corner(span, 0), corner(0, span), corner(0, 0)];
+        const top = Number(Math.pow(2, span / 1200).toFixed(2));
+        traces = [
+          {
+            type: "contour" as const,
+            x: triangleGrid.u,
+            y: triangleGrid.v,
+            z: triangleGrid.z,
+            colorscale: "Viridis",
+            contours: CONTOURS,
+            line: CONTOUR_LINE,
+            connectgaps: false,
+            hoverinfo: "z",
+          },
+          {
+            type: "scatter" as const,
+            mode: "lines",
+            x: guides.u,
+            y: guides.v,
+            line: { color: "rgba(226,232,240,0.12)", width: 1 },
+            hoverinfo: "skip",
+            name: `${guideStep}¢ grid`,
+          },
+          {
+            type: "scatter" as const,
+            mode: "lines",
+            x: outline.map((point) => point.u),
+            y: outline.map((point) => point.v),
+            line: { color: "#e2e8f0", width: 1.5 },
+            hoverinfo: "skip",
+            name: "Outline",
+          },
+          ...overlays,
+        ];
+        layout = {
+          xaxis: { visible: false },
+          yaxis: { visible: false, scaleanchor: "x" },
+          annotations: [
+            { ...toAnnotation(corner(0, 0)), text: "1:1:1", yshift: -14 },
+            { ...toAnnotation(corner(span, 0)), text: `1:${top}:${top}`, yshift: -14 },
+            { ...toAnnotation(corner(0, span)), text: `1:1:${top}`, yshift: 14 },
+            { ...toAnnotation(corner(span / 2, 0)), text: "lower interval →", yshift: -14 },
+            { ...toAnnotation(corner(0, span / 2)), text: "upper interval", xshift: -40 },
+          ],
+        };
+      }
+
+      await Plotly.react(
+        container,
+        traces,
+        {
+          ...layout,
+          margin: { t: 10, r: 10, b: 40, l: 50 },
+          paper_bgcolor: "rgba(15,23,42,0)",
+          plot_bgcolor: "rgba(15,23,42,0.85)",
+          font: PLOT_FONT,
+          showlegend: false,
+          uirevision: view,
+        },
+        { responsive: true, displaylogo: false }
+      );
+      plotlyRef.current = Plotly;
+
+      const plotElement = container as unknown as PlotlyHTMLElement;
+      plotElement.removeAllListeners?.("plotly_click");
+      plotElement.on("plotly_click", (event) => {
+        const point = (event as PlotlyPointsEvent | undefined)?.points?.[0];
+        if (!point) return;
+        if (view === "heatmap") {
+          onSelectRef.current(point.x, point.y);
+          return;
+        }
+        const triad = triangleToTriad(point.x, point.y, 1, span);
+        if (triad) onSelectRef.current(triad[0], triad[1]);
+      });
+    };
+
+    draw().catch((error) => {
+      console.warn("Failed to draw triad map", error);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [surface, minima, presets, selected, view, axisScale, triangleGrid, guides, guideStep, span, ticks]);
+
+  return <div className="h-[420px]" ref={containerRef} />;
+}
+
+function toAnnotation({ u, v }: { u: number; v: number }) {
+  return { x: u, y: v, showarrow: false, font: { color: "#cbd5f5", size: 11 } };
+}
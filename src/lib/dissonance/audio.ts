@@ -1,16 +1,52 @@
 const MIN_GAIN = 0.000001;
 const BASE_FADE_IN = 0.002;
 const BASE_RELEASE = 6.91 * 0.5;
-const RELEASE_STAGGER = 6.91 * 0.05;
+// Each higher partial finishes its release this fraction of the release time earlier.
+const RELEASE_STAGGER = 0.1;
 const QUICK_RELEASE = 0.12;
 const QUICK_STAGGER = 0.03;
+const RETUNE_GLIDE = 0.05;
+// With no decay, a sustain below 1 is still reached, over this short ramp rather than a click.
+const SUSTAIN_SETTLE = 0.02;
+
+/**
+ * ADSR envelope in seconds, with `sustain` as a fraction of each partial's amplitude. One-shot
+ * notes release straight after the decay; held notes stay at the sustain level until stopped.
+ */
+export type Envelope = {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+};
+
+export const DEFAULT_ENVELOPE: Envelope = {
+  attack: BASE_FADE_IN,
+  decay: 0,
+  sustain: 1,
+  release: BASE_RELEASE,
+};
+
+/** Seconds from the peak of the attack until the sustain level is reached. */
+function decayTime(envelope: Envelope) {
+  return envelope.decay > 0 || envelope.sustain >= 1 ? envelope.decay : SUSTAIN_SETTLE;
+}
+
+/** Seconds from the start of a one-shot `ReferenceSynth.play` until its last oscillator stops. */
+export function envelopeDuration(envelope: Envelope) {
+  return envelope.attack + decayTime(envelope) + envelope.release;
+}
+
+function sustainLevel(amplitude: number, envelope: Envelope) {
+  return Math.max(amplitude * envelope.sustain, MIN_GAIN);
+}
 
 class ReferenceOsc {
   private readonly osc: OscillatorNode;
   private readonly gain: GainNode;
   private scheduledStop: number | null = null;
 
-  constructor(private ctx: AudioContext) {
+  constructor(private ctx: BaseAudioContext) {
     this.osc = ctx.createOscillator();
     this.osc.type = "sine";
     this.gain = ctx.createGain();
@@ -56,8 +92,36 @@ class ReferenceOsc {
     this.osc.frequency.setValueAtTime(frequency, time);
   }
 
-  fadeIn(amplitude: number, targetTime: number) {
-    this.gain.gain.linearRampToValueAtTime(amplitude, targetTime);
+  /** Exponential glide from the previously scheduled frequency, i.e. linear in cents. */
+  rampFrequencyAtTime(frequency: number, endTime: number) {
+    this.osc.frequency.exponentialRampToValueAtTime(frequency, endTime);
+  }
+
+  glideFrequency(frequency: number, time: number, glide: number) {
+    const param = this.osc.frequency;
+    try { param.cancelScheduledValues(time); } catch {}
+    param.setValueAtTime(param.value, time);
+    param.linearRampToValueAtTime(frequency, time + glide);
+  }
+
+  /** Attack to `amplitude`, then decay to the sustain level; returns when the sustain starts. */
+  scheduleAttack(amplitude: number, startTime: number, envelope: Envelope) {
+    const param = this.gain.gain;
+    const peakTime = startTime + Math.max(envelope.attack, BASE_FADE_IN);
+    param.setValueAtTime(0, startTime);
+    param.linearRampToValueAtTime(amplitude, peakTime);
+    const decay = decayTime(envelope);
+    if (decay <= 0) return peakTime;
+    const sustainTime = peakTime + decay;
+    param.exponentialRampToValueAtTime(sustainLevel(amplitude, envelope), sustainTime);
+    return sustainTime;
+  }
+
+  /** Holds the sustain level until `releaseStart`, then fades out by `releaseEnd`. */
+  scheduleRelease(amplitude: number, envelope: Envelope, releaseStart: number, releaseEnd: number) {
+    const param = this.gain.gain;
+    param.setValueAtTime(sustainLevel(amplitude, envelope), releaseStart);
+    param.exponentialRampToValueAtTime(MIN_GAIN, releaseEnd);
   }
 
   scheduleFadeOut(targetTime: number) {
@@ -81,7 +145,7 @@ export class ReferenceSynth {
   private readonly oscillators: ReferenceOsc[];
 
   constructor(
-    private ctx: AudioContext,
+    private ctx: BaseAudioContext,
     private partialMultipliers: number[],
     private partialAmplitudes: number[],
     voiceCount: number
@@ -104,21 +168,62 @@ export class ReferenceSynth {
     this.oscillators.forEach((osc) => osc.disconnect());
   }
 
-  play(baseFrequency: number, startTime: number): number {
+  play(baseFrequency: number, startTime: number, envelope: Envelope = DEFAULT_ENVELOPE): number {
     if (!this.partialMultipliers.length) {
       return startTime;
     }
 
+    const stopTime = startTime + envelopeDuration(envelope);
     this.oscillators.forEach((osc, idx) => {
       osc.setFrequencyAtTime(baseFrequency * this.partialMultipliers[idx], startTime);
       osc.start(startTime);
-      osc.fadeIn(this.partialAmplitudes[idx], startTime + BASE_FADE_IN);
-      const releaseMoment = Math.max(startTime, startTime + BASE_RELEASE - RELEASE_STAGGER * idx);
+      const sustainStart = osc.scheduleAttack(this.partialAmplitudes[idx], startTime, envelope);
+      const releaseMoment = Math.max(sustainStart + 0.01, stopTime - RELEASE_STAGGER * envelope.release * idx);
       osc.scheduleFadeOut(releaseMoment);
-      osc.stop(startTime + BASE_RELEASE);
+      osc.stop(stopTime);
+    });
+
+    return stopTime;
+  }
+
+  /** Starts a note that holds at the sustain level until `forceSilence`. */
+  hold(baseFrequency: number, startTime: number, envelope: Envelope = DEFAULT_ENVELOPE) {
+    this.oscillators.forEach((osc, idx) => {
+      osc.setFrequencyAtTime(baseFrequency * this.partialMultipliers[idx], startTime);
+      osc.start(startTime);
+      osc.scheduleAttack(this.partialAmplitudes[idx], startTime, envelope);
     });
+  }
+
+  /**
+   * Sustains a note for `duration` seconds while its fundamental glides exponentially through
+   * `frequencies`, evenly spaced in time, then releases. A single frequency holds steady.
+   * Returns the stop time.
+   */
+  sweep(frequencies: number[], startTime: number, duration: number, envelope: Envelope = DEFAULT_ENVELOPE) {
+    const sweepEnd = startTime + duration;
+    const releaseStart = Math.max(sweepEnd, startTime + Math.max(envelope.attack, BASE_FADE_IN) + decayTime(envelope));
+    const stopTime = releaseStart + Math.max(envelope.release, QUICK_RELEASE);
+    const segments = Math.max(frequencies.length - 1, 1);
+    this.oscillators.forEach((osc, idx) => {
+      const multiplier = this.partialMultipliers[idx];
+      osc.setFrequencyAtTime(frequencies[0] * multiplier, startTime);
+      frequencies.slice(1).forEach((frequency, step) => {
+        osc.rampFrequencyAtTime(frequency * multiplier, startTime + (duration * (step + 1)) / segments);
+      });
+      osc.start(startTime);
+      osc.scheduleAttack(this.partialAmplitudes[idx], startTime, envelope);
+      osc.scheduleRelease(this.partialAmplitudes[idx], envelope, releaseStart, stopTime);
+      osc.stop(stopTime);
+    });
+    return stopTime;
+  }
 
-    return startTime + BASE_RELEASE;
+  /** Glides a sounding note to a new fundamental without retriggering it. */
+  retune(baseFrequency: number, time: number, glide = RETUNE_GLIDE) {
+    this.oscillators.forEach((osc, idx) => {
+      osc.glideFrequency(baseFrequency * this.partialMultipliers[idx], time, glide);
+    });
   }
 
   forceSilence(now: number): number {
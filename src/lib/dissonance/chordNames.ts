@@ -0,0 +1,96 @@
+import { DEFAULT_JUST_INTONATION, identifyJustInterval } from "./intervals";
+import type { JustIntervalMatch, JustIntonationOptions } from "./intervals";
+
+export type JustChordMatch = {
+  /** Integer chord in lowest terms, bass first, e.g. [4, 5, 6]. */
+  integers: number[];
+  /** Each upper voice's just interval above the bass. */
+  intervals: JustIntervalMatch[];
+  /** Chord type and inversion, e.g. "major triad, first inversion"; null for unlisted shapes. */
+  name: string | null;
+  /** Largest distance of any voice from its just position. */
+  maxErrorCents: number;
+};
+
+/** Chord shapes as octave-reduced intervals above the root, listed root, third, fifth. */
+const CHORD_SHAPES: { name: string; tones: string[] }[] = [
+  { name: "major triad", tones: ["5/4", "3/2"] },
+  { name: "minor triad", tones: ["6/5", "3/2"] },
+  { name: "sus4 chord", tones: ["4/3", "3/2"] },
+  { name: "sus2 chord", tones: ["9/8", "3/2"] },
+  { name: "subminor triad", tones: ["7/6", "3/2"] },
+  { name: "supermajor triad", tones: ["9/7", "3/2"] },
+  { name: "diminished triad", tones: ["6/5", "36/25"] },
+  { name: "septimal diminished triad", tones: ["6/5", "7/5"] },
+  { name: "augmented triad", tones: ["5/4", "25/16"] },
+  { name: "harmonic seventh (no fifth)", tones: ["5/4", "7/4"] },
+  { name: "open fifth", tones: ["3/2"] },
+];
+
+const INVERSIONS = ["root position", "first inversion", "second inversion"];
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/** a/b folded into [1, 2) and reduced, as "n/d". */
+function pitchClassKey(a: number, b: number) {
+  let numerator = a;
+  let denominator = b;
+  while (numerator >= 2 * denominator) denominator *= 2;
+  while (numerator < denominator) numerator *= 2;
+  const divisor = gcd(numerator, denominator);
+  return `${numerator / divisor}/${denominator / divisor}`;
+}
+
+/** Names an integer chord by trying each voice as the root; the bass is tried first. */
+export function nameIntegerChord(integers: number[]): string | null {
+  const span = integers[integers.length - 1] / integers[0];
+  for (const root of integers) {
+    const classes = new Set(integers.map((voice) => pitchClassKey(voice, root)));
+    classes.delete("1/1");
+    const shape = CHORD_SHAPES.find(
+      (candidate) => candidate.tones.length === classes.size && candidate.tones.every((tone) => classes.has(tone))
+    );
+    if (!shape) continue;
+    const bassClass = pitchClassKey(integers[0], root);
+    const bassTone = bassClass === "1/1" ? 0 : shape.tones.indexOf(bassClass) + 1;
+    const position = shape.tones.length === 2 ? INVERSIONS[bassTone] : bassTone === 0 ? null : "inverted";
+    return [shape.name, position, span > 2 + 1e-9 ? "open voicing" : null].filter(Boolean).join(", ");
+  }
+  return null;
+}
+
+/**
+ * Reads a chord 1 : r : s… as just intonation: every voice is matched to the nearest acceptable
+ * fraction above the bass, and the fractions are scaled to a common integer chord.
+ * Null when any voice has no acceptable match.
+ */
+export function identifyJustChord(
+  ratios: readonly number[],
+  options: JustIntonationOptions = DEFAULT_JUST_INTONATION
+): JustChordMatch | null {
+  const voices = [1, ...ratios].sort((a, b) => a - b);
+  const intervals: JustIntervalMatch[] = [];
+  for (const voice of voices.slice(1)) {
+    const match = identifyJustInterval(voice / voices[0], options);
+    if (!match) return null;
+    intervals.push(match);
+  }
+
+  const common = intervals.reduce((lcm, match) => (lcm * match.denominator) / gcd(lcm, match.denominator), 1);
+  const raw = [common, ...intervals.map((match) => (match.numerator * common) / match.denominator)];
+  const divisor = raw.reduce((acc, value) => gcd(acc, value));
+  const integers = raw.map((value) => value / divisor);
+
+  return {
+    integers,
+    intervals,
+    name: nameIntegerChord(integers),
+    maxErrorCents: intervals.reduce((max, match) => Math.max(max, Math.abs(match.errorCents)), 0),
+  };
+}
+
+export function formatIntegerChord(integers: number[]) {
+  return integers.join(":");
+}
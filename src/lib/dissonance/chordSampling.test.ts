@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { sampleChordGrid, sampleChordsLatinHypercube, sampleChordsRandom } from "./chordSampling";
+import { chordDissonance, ratioGrid, spectrumFromHarmonics } from "./math";
+
+const spectrum = spectrumFromHarmonics(1, 4, 1);
+
+/** Small deterministic generator (mulberry32) so the samples are reproducible. */
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("sampleChordGrid", () => {
+  it("scores every grid point like chordDissonance, last free voice fastest", () => {
+    const grid = sampleChordGrid({ baseFreq: 220, spectrum, template: [1, null, 1.5, null], step: 0.25 });
+    expect(grid.axis).toEqual(ratioGrid(1, 2, 0.25));
+    expect(grid.shape).toEqual([5, 5]);
+    grid.axis.forEach((r, a) => {
+      grid.axis.forEach((t, b) => {
+        expect(grid.values[a * 5 + b]).toBeCloseTo(chordDissonance(220, [1, r, 1.5, t], spectrum), 12);
+      });
+    });
+    expect(grid.max).toBe(Math.max(...grid.values));
+  });
+});
+
+describe("sampleChordsRandom", () => {
+  it("keeps the root at 1 and every upper voice in range", () => {
+    const samples = sampleChordsRandom({
+      baseFreq: 220,
+      spectrum,
+      voices: 4,
+      count: 50,
+      minRatio: 1.1,
+      maxRatio: 1.9,
+      random: seededRandom(1),
+    });
+    expect(samples).toHaveLength(50);
+    samples.forEach(({ ratios, value }) => {
+      expect(ratios).toHaveLength(4);
+      expect(ratios[0]).toBe(1);
+      ratios.slice(1).forEach((ratio) => {
+        expect(ratio).toBeGreaterThanOrEqual(1.1);
+        expect(ratio).toBeLessThanOrEqual(1.9);
+      });
+      expect(value).toBe(chordDissonance(220, ratios, spectrum));
+    });
+  });
+});
+
+describe("sampleChordsLatinHypercube", () => {
+  it("uses each stratum exactly once per dimension", () => {
+    const count = 16;
+    const samples = sampleChordsLatinHypercube({ baseFreq: 220, spectrum, voices: 4, count, random: seededRandom(7) });
+    expect(samples).toHaveLength(count);
+    for (let dimension = 1; dimension < 4; dimension++) {
+      const strata = samples.map(({ ratios }) => Math.floor((ratios[dimension] - 1) * count)).sort((a, b) => a - b);
+      expect(strata).toEqual(Array.from({ length: count }, (_, idx) => idx));
+    }
+  });
+
+  it("is reproducible for a given random source", () => {
+    const options = { baseFreq: 220, spectrum, voices: 3, count: 8 };
+    expect(sampleChordsLatinHypercube({ ...options, random: seededRandom(3) })).toEqual(
+      sampleChordsLatinHypercube({ ...options, random: seededRandom(3) })
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { SAME_VOICE_WEIGHT, chordDissonance, ratioGrid } from "./math";
+import { SETHARES_MODEL } from "./roughness";
+import type { RoughnessModel } from "./roughness";
+import type { Spectrum } from "./types";
+
+type ChordSamplingBase = {
+  baseFreq: number;
+  spectrum: Spectrum;
+  model?: RoughnessModel;
+  minRatio?: number;
+  maxRatio?: number;
+};
+
+export type ChordGridOptions = ChordSamplingBase & {
+  /** Voice ratios, root included; `null` entries are the free axes swept over the grid. */
+  template: readonly (number | null)[];
+  step?: number;
+};
+
+export type ChordGrid = {
+  axis: number[];
+  /** One entry per free voice, in template order. */
+  shape: number[];
+  /** Row-major over the free axes: the last free voice varies fastest. */
+  values: Float64Array;
+  max: number;
+};
+
+export type ChordSampleOptions = ChordSamplingBase & {
+  /** Number of voices including the root, which stays at ratio 1. */
+  voices: number;
+  count: number;
+  random?: () => number;
+};
+
+export type ChordSample = {
+  ratios: number[];
+  value: number;
+};
+
+/**
+ * Caches the voice-pair sums T(x, y) = Σ_ij K(x·f_i, y·f_j) for a fixed set of ratios, so scoring
+ * a chord costs one table lookup per pair of voices instead of P² kernel calls.
+ */
+function pairTermTable(baseFreq: number, spectrum: Spectrum, model: RoughnessModel, ratios: number[]) {
+  const { kernel } = model;
+  const numPartials = spectrum.freq.length;
+  const weights = Float64Array.from(spectrum.amp, model.weight);
+  const size = ratios.length;
+  const table = new Float64Array(size * size);
+
+  for (let a = 0; a < size; a++) {
+    for (let b = a; b < size; b++) {
+      let term = 0;
+      for (let i = 0; i < numPartials; i++) {
+        for (let j = 0; j < numPartials; j++) {
+          term += kernel(
+            baseFreq * ratios[a] * spectrum.freq[i],
+            baseFreq * ratios[b] * spectrum.freq[j],
+            weights[i],
+            weights[j]
+          );
+        }
+      }
+      table[a * size + b] = term;
+      table[b * size + a] = term;
+    }
+  }
+
+  return table;
+}
+
+/** Same weighting as chordDissonance, evaluated from cached pair terms. */
+function scoreFromTable(table: Float64Array, size: number, voiceIndices: ArrayLike<number>) {
+  let score = 0;
+  for (let u = 0; u < voiceIndices.length; u++) {
+    score += SAME_VOICE_WEIGHT * table[voiceIndices[u] * size + voiceIndices[u]];
+    for (let v = u + 1; v < voiceIndices.length; v++) {
+      score += table[voiceIndices[u] * size + voiceIndices[v]];
+    }
+  }
+  return score / 2;
+}
+
+/**
+ * Raw chord roughness over a regular grid of the free voices in `template`, with the other voices
+ * held fixed. Two free voices give a slice, three give a volume.
+ */
+export function sampleChordGrid({
+  baseFreq,
+  spectrum,
+  model = SETHARES_MODEL,
+  template,
+  minRatio = 1,
+  maxRatio = 2,
+  step = 0.02,
+}: ChordGridOptions): ChordGrid {
+  const axis = ratioGrid(minRatio, maxRatio, step);
+  const fixedValues = template.filter((ratio): ratio is number => ratio !== null);
+  const ratioTable = [...axis, ...fixedValues];
+  const size = ratioTable.length;
+  const table = pairTermTable(baseFreq, spectrum, model, ratioTable);
+
+  const freeSlots = template.flatMap((ratio, idx) => (ratio === null ? [idx] : []));
+  const voiceIndices = new Int32Array(template.length);
+  let fixedCursor = axis.length;
+  template.forEach((ratio, idx) => {
+    if (ratio !== null) voiceIndices[idx] = fixedCursor++;
+  });
+
+  const shape = freeSlots.map(() => axis.length);
+  const total = shape.reduce((product, length) => product * length, 1);
+  const values = new Float64Array(total);
+  let max = Number.NEGATIVE_INFINITY;
+
+  for (let flat = 0; flat < total; flat++) {
+    let remainder = flat;
+    for (let k = freeSlots.length - 1; k >= 0; k--) {
+      voiceIndices[freeSlots[k]] = remainder % axis.length;
+      remainder = Math.floor(remainder / axis.length);
+    }
+    const value = scoreFromTable(table, size, voiceIndices);
+    values[flat] = value;
+    if (value > max) max = value;
+  }
+
+  return { axis, shape, values, max };
+}
+
+function scoreSamples(
+  { baseFreq, spectrum, model = SETHARES_MODEL }: ChordSamplingBase,
+  chords: number[][]
+): ChordSample[] {
+  return chords.map((upper) => {
+    const ratios = [1, ...upper];
+    return { ratios, value: chordDissonance(baseFreq, ratios, spectrum, model) };
+  });
+}
+
+/** Uniform random chords: every upper voice drawn independently from [minRatio, maxRatio]. */
+export function sampleChordsRandom(options: ChordSampleOptions): ChordSample[] {
+  const { voices, count, minRatio = 1, maxRatio = 2, random = Math.random } = options;
+  const span = maxRatio - minRatio;
+  const chords = Array.from({ length: count }, () =>
+    Array.from({ length: Math.max(voices - 1, 0) }, () => minRatio + random() * span)
+  );
+  return scoreSamples(options, chords);
+}
+
+/**
+ * Latin-hypercube chords: each upper voice's range is cut into `count` strata and every stratum
+ * is used exactly once per voice, which covers high-dimensional chord spaces far more evenly.
+ */
+export function sampleChordsLatinHypercube(options: ChordSampleOptions): ChordSample[] {
+  const { voices, count, minRatio = 1, maxRatio = 2, random = Math.random } = options;
+  const span = maxRatio - minRatio;
+  const dimensions = Math.max(voices - 1, 0);
+  const columns = Array.from({ length: dimensions }, () => {
+    const strata = Array.from({ length: count }, (_, idx) => idx);
+    for (let idx = strata.length - 1; idx > 0; idx--) {
+      const swap = Math.floor(random() * (idx + 1));
+      [strata[idx], strata[swap]] = [strata[swap], strata[idx]];
+    }
+    return strata.map((stratum) => minRatio + ((stratum + random()) / count) * span);
+  });
+  const chords = Array.from({ length: count }, (_, row) => columns.map((column) => column[row]));
+  return scoreSamples(options, chords);
+}
@@ -0,0 +1,19 @@
+import { computeChordVolume } from "./chordVolumeJob";
+import type { ChordVolumeJob, ChordVolumeResult } from "./chordVolumeJob";
+import { refinementSteps } from "./triadSurfaceJob";
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<ChordVolumeJob>) => void) | null;
+  postMessage: (message: ChordVolumeResult) => void;
+};
+
+// Superseded jobs are cancelled by the client, which terminates a busy worker outright.
+ctx.onmessage = (event) => {
+  const { jobId, request } = event.data;
+  const steps = refinementSteps(request);
+
+  for (let idx = 0; idx < steps.length; idx++) {
+    const volume = computeChordVolume({ ...request, step: steps[idx] });
+    ctx.postMessage({ jobId, volume, step: steps[idx], final: idx === steps.length - 1 });
+  }
+};
@@ -0,0 +1,14 @@
+import { computeChordVolume } from "./chordVolumeJob";
+import type { ChordVolumeRequest, ChordVolumeResult } from "./chordVolumeJob";
+import { WorkerJobClient } from "./workerJobClient";
+
+/** Runs tetrad volume jobs on a dedicated worker, streaming coarse-to-fine passes. */
+export class ChordVolumeClient extends WorkerJobClient<ChordVolumeRequest, ChordVolumeResult> {
+  constructor() {
+    super(
+      "Tetrad volume",
+      () => new Worker(new URL("./chordVolume.worker.ts", import.meta.url), { type: "module" }),
+      (jobId, request) => ({ jobId, volume: computeChordVolume(request), step: request.step, final: true })
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { ChordVolumeClient } from "./chordVolumeClient";
+import { computeChordVolume } from "./chordVolumeJob";
+import { chordDissonance, spectrumFromHarmonics } from "./math";
+
+const request = { baseFreq: 220, spectrum: spectrumFromHarmonics(1, 3, 1), modelId: "sethares" as const, step: 0.25 };
+
+describe("computeChordVolume", () => {
+  it("normalises the tetrad roughness over the (r, s, t) grid, t fastest", () => {
+    const { axis, values } = computeChordVolume(request);
+    const n = axis.length;
+    expect(values).toHaveLength(n * n * n);
+    expect(Math.max(...values)).toBeCloseTo(1, 12);
+    const raw = (a: number, b: number, c: number) => chordDissonance(220, [1, axis[a], axis[b], axis[c]], request.spectrum);
+    expect(values[(1 * n + 2) * n + 3] / values[(3 * n + 0) * n + 4]).toBeCloseTo(raw(1, 2, 3) / raw(3, 0, 4), 12);
+  });
+});
+
+describe("ChordVolumeClient", () => {
+  it("finishes the job inline when workers are unavailable", () => {
+    const results: unknown[] = [];
+    new ChordVolumeClient().request(request, (result) => results.push(result));
+    expect(results).toEqual([{ jobId: 1, volume: computeChordVolume(request), step: 0.25, final: true }]);
+  });
+});
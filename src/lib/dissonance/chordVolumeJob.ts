@@ -0,0 +1,42 @@
+import { sampleChordGrid } from "./chordSampling";
+import type { ChordVolume } from "./minima";
+import { getRoughnessModel } from "./roughness";
+import type { RoughnessModelId } from "./roughness";
+import type { Spectrum } from "./types";
+
+/** Serializable request for the tetrad volume 1 : r : s : t; the model travels by id. */
+export type ChordVolumeRequest = {
+  baseFreq: number;
+  spectrum: Spectrum;
+  modelId: RoughnessModelId;
+  minRatio?: number;
+  maxRatio?: number;
+  step: number;
+};
+
+export type ChordVolumeJob = {
+  jobId: number;
+  request: ChordVolumeRequest;
+};
+
+export type ChordVolumeResult = {
+  jobId: number;
+  volume: ChordVolume;
+  step: number;
+  final: boolean;
+};
+
+/** Tetrad roughness over an (r, s, t) grid, normalised to the grid maximum. */
+export function computeChordVolume({ baseFreq, spectrum, modelId, minRatio, maxRatio, step }: ChordVolumeRequest): ChordVolume {
+  const grid = sampleChordGrid({
+    baseFreq,
+    spectrum,
+    model: getRoughnessModel(modelId),
+    template: [1, null, null, null],
+    minRatio,
+    maxRatio,
+    step,
+  });
+  const scale = grid.max > 0 ? 1 / grid.max : 0;
+  return { axis: grid.axis, values: grid.values.map((value) => value * scale) };
+}
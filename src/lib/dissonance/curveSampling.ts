@@ -0,0 +1,136 @@
+export type CurvePoint = { x: number; y: number };
+
+/** A refined extremum; `index` is the sample it was bracketed around. */
+export type CurveExtremum = CurvePoint & { index: number };
+
+export type AdaptiveSamplingOptions = {
+  /** Uniform samples to start from, ends included. */
+  initial?: number;
+  /** How many times one starting interval may be bisected. */
+  maxDepth?: number;
+  /** Bisect when the midpoint misses the chord by more than this fraction of the curve's range. */
+  tolerance?: number;
+};
+
+/**
+ * Samples `f` on [start, end], starting from a uniform grid and bisecting every interval whose
+ * midpoint strays from the straight line between its ends. Cusps (roughness curves have one at
+ * each just ratio) and strong curvature therefore get dense samples, flat stretches stay sparse.
+ */
+export function adaptiveSample(
+  f: (x: number) => number,
+  start: number,
+  end: number,
+  { initial = 121, maxDepth = 6, tolerance = 0.002 }: AdaptiveSamplingOptions = {}
+) {
+  const count = Math.max(2, initial);
+  const gridXs = Array.from({ length: count }, (_, idx) => start + ((end - start) * idx) / (count - 1));
+  const gridYs = gridXs.map(f);
+  const range = Math.max(...gridYs) - Math.min(...gridYs);
+  const threshold = tolerance * (range > 0 ? range : 1);
+
+  const xs: number[] = [gridXs[0]];
+  const ys: number[] = [gridYs[0]];
+  const bisect = (x0: number, y0: number, x1: number, y1: number, depth: number) => {
+    const xm = (x0 + x1) / 2;
+    const ym = f(xm);
+    const refine = depth < maxDepth && Math.abs(ym - (y0 + y1) / 2) > threshold;
+    if (refine) bisect(x0, y0, xm, ym, depth + 1);
+    xs.push(xm);
+    ys.push(ym);
+    if (refine) bisect(xm, ym, x1, y1, depth + 1);
+  };
+  for (let idx = 1; idx < count; idx++) {
+    bisect(gridXs[idx - 1], gridYs[idx - 1], gridXs[idx], gridYs[idx], 0);
+    xs.push(gridXs[idx]);
+    ys.push(gridYs[idx]);
+  }
+  return { xs, ys };
+}
+
+const GOLDEN_SECTION = (3 - Math.sqrt(5)) / 2;
+
+/**
+ * Brent's method: minimum of `f` on [lower, upper], mixing parabolic steps with golden-section
+ * steps. It stops when the bracket is a few ulps wide, so cusp minima come out to machine
+ * precision; smooth minima are limited by the flatness of f to about √ε relative.
+ */
+export function brentMinimize(f: (x: number) => number, lower: number, upper: number, maxIterations = 100): CurvePoint {
+  let a = Math.min(lower, upper);
+  let b = Math.max(lower, upper);
+  let x = a + GOLDEN_SECTION * (b - a);
+  let w = x;
+  let v = x;
+  let fx = f(x);
+  let fw = fx;
+  let fv = fx;
+  let d = 0;
+  let e = 0;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const middle = (a + b) / 2;
+    const tol = 2 * Number.EPSILON * Math.abs(x) + Number.MIN_VALUE;
+    const tol2 = 2 * tol;
+    if (Math.abs(x - middle) <= tol2 - (b - a) / 2) break;
+
+    let golden = true;
+    if (Math.abs(e) > tol) {
+      // Parabola through (x, fx), (w, fw) and (v, fv).
+      const r = (x - w) * (fx - fv);
+      let q = (x - v) * (fx - fw);
+      let p = (x - v) * q - (x - w) * r;
+      q = 2 * (q - r);
+      if (q > 0) p = -p;
+      else q = -q;
+      const previousStep = e;
+      e = d;
+      if (Math.abs(p) < Math.abs(0.5 * q * previousStep) && p > q * (a - x) && p < q * (b - x)) {
+        d = p / q;
+        const u = x + d;
+        if (u - a < tol2 || b - u < tol2) d = x < middle ? tol : -tol;
+        golden = false;
+      }
+    }
+    if (golden) {
+      e = (x < middle ? b : a) - x;
+      d = GOLDEN_SECTION * e;
+    }
+
+    const u = Math.abs(d) >= tol ? x + d : x + (d > 0 ? tol : -tol);
+    const fu = f(u);
+    if (fu <= fx) {
+      if (u < x) b = x;
+      else a = x;
+      [v, fv, w, fw, x, fx] = [w, fw, x, fx, u, fu];
+    } else {
+      if (u < x) a = u;
+      else b = u;
+      if (fu <= fw || w === x) {
+        [v, fv, w, fw] = [w, fw, u, fu];
+      } else if (fu <= fv || v === x || v === w) {
+        [v, fv] = [u, fu];
+      }
+    }
+  }
+  return { x, y: fx };
+}
+
+/**
+ * Interior local minima and peaks of a sampled curve, each refined with Brent's method inside the
+ * bracket formed by its neighbouring samples. `f` must be the function the samples came from.
+ */
+export function refineExtrema(f: (x: number) => number, xs: number[], ys: number[]) {
+  const minima: CurveExtremum[] = [];
+  const peaks: CurveExtremum[] = [];
+  for (let i = 1; i < ys.length - 1; i++) {
+    // A bracket holding more than one dip can converge to a shallower one; keep the sample then.
+    if (ys[i] < ys[i - 1] && ys[i] < ys[i + 1]) {
+      const minimum = brentMinimize(f, xs[i - 1], xs[i + 1]);
+      minima.push(minimum.y <= ys[i] ? { ...minimum, index: i } : { x: xs[i], y: ys[i], index: i });
+    } else if (ys[i] > ys[i - 1] && ys[i] > ys[i + 1]) {
+      const peak = brentMinimize((x) => -f(x), xs[i - 1], xs[i + 1]);
+      peaks.push(-peak.y >= ys[i] ? { x: peak.x, y: -peak.y, index: i } : { x: xs[i], y: ys[i], index: i });
+    }
+  }
+  return { minima, peaks };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { identifyJustChord } from "./chordNames";
+import { DEFAULT_JUST_INTONATION, identifyJustInterval, justIntervalName, tenneyHeight } from "./intervals";
+
+describe("identifyJustInterval", () => {
+  it("matches exact just ratios to themselves rather than a simpler neighbour", () => {
+    expect(identifyJustInterval(16 / 15)).toMatchObject({ numerator: 16, denominator: 15, name: "minor second" });
+    expect(identifyJustInterval(16 / 15)?.errorCents).toBeCloseTo(0, 9);
+    expect(identifyJustInterval(45 / 32, { toleranceCents: 15, maxTenneyHeight: 11 })).toMatchObject({
+      numerator: 45,
+      denominator: 32,
+    });
+  });
+
+  it("picks the closest fraction within tolerance and under the Tenney limit", () => {
+    const match = identifyJustInterval(1.26);
+    expect(match).not.toBeNull();
+    expect(Math.abs(match!.errorCents)).toBeLessThan(2);
+    expect(match!.tenneyHeight).toBeLessThanOrEqual(DEFAULT_JUST_INTONATION.maxTenneyHeight);
+    expect(identifyJustInterval(1.2501)).toMatchObject({ numerator: 5, denominator: 4 });
+  });
+
+  it("rejects ratios with no fraction simple enough and close enough", () => {
+    expect(identifyJustInterval(45 / 32, { toleranceCents: 1, maxTenneyHeight: 10 })).toBeNull();
+    expect(identifyJustInterval(0)).toBeNull();
+  });
+
+  it("names compound intervals from their octave-reduced form", () => {
+    expect(justIntervalName({ numerator: 5, denominator: 2 })).toBe("major tenth");
+    expect(tenneyHeight({ numerator: 3, denominator: 2 })).toBeCloseTo(Math.log2(6), 12);
+  });
+});
+
+describe("identifyJustChord", () => {
+  it("names the just diminished triad", () => {
+    const match = identifyJustChord([6 / 5, 36 / 25]);
+    expect(match?.integers).toEqual([25, 30, 36]);
+    expect(match?.name).toBe("diminished triad, root position");
+  });
+
+  it("names inversions from the integer chord", () => {
+    expect(identifyJustChord([1.2, 1.6])).toMatchObject({ integers: [5, 6, 8], name: "major triad, first inversion" });
+  });
+});
@@ -0,0 +1,177 @@
+import { ratioToCents } from "./tuning";
+
+export type Fraction = {
+  numerator: number;
+  denominator: number;
+};
+
+export type FractionMatch = Fraction & {
+  /** Signed distance from the fraction to the target; positive means the target is sharp. */
+  errorCents: number;
+};
+
+/**
+ * Best rational approximation with denominator ≤ maxDenominator, from the continued-fraction
+ * convergents of `value` and the last semiconvergent before the bound.
+ */
+export function nearestFraction(value: number, maxDenominator = 32): FractionMatch {
+  let [h0, h1] = [0, 1];
+  let [k0, k1] = [1, 0];
+  let remainder = value;
+
+  for (let iteration = 0; iteration < 64; iteration++) {
+    const term = Math.floor(remainder);
+    const h2 = term * h1 + h0;
+    const k2 = term * k1 + k0;
+    if (k2 > maxDenominator) {
+      // Largest semiconvergent that still fits the denominator bound.
+      const steps = Math.floor((maxDenominator - k0) / k1);
+      const semiNumerator = steps * h1 + h0;
+      const semiDenominator = steps * k1 + k0;
+      if (steps > 0 && Math.abs(semiNumerator / semiDenominator - value) < Math.abs(h1 / k1 - value)) {
+        [h1, k1] = [semiNumerator, semiDenominator];
+      }
+      break;
+    }
+    [h0, h1] = [h1, h2];
+    [k0, k1] = [k1, k2];
+    const fractional = remainder - term;
+    if (fractional < 1e-12) break;
+    remainder = 1 / fractional;
+  }
+
+  return {
+    numerator: h1,
+    denominator: k1,
+    errorCents: ratioToCents(value) - ratioToCents(h1 / k1),
+  };
+}
+
+export function formatFraction({ numerator, denominator }: Fraction) {
+  return `${numerator}/${denominator}`;
+}
+
+export function formatCentsError(errorCents: number) {
+  return `${errorCents >= 0 ? "+" : ""}${errorCents.toFixed(1)}¢`;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/** Tenney height log2(n·d) of a reduced fraction: the usual measure of just-interval complexity. */
+export function tenneyHeight({ numerator, denominator }: Fraction) {
+  return Math.log2(numerator * denominator);
+}
+
+export type JustIntonationOptions = {
+  /** Largest accepted distance between the ratio and its fraction. */
+  toleranceCents: number;
+  /** Fractions above this Tenney height are rejected as too complex. */
+  maxTenneyHeight: number;
+};
+
+export const DEFAULT_JUST_INTONATION: JustIntonationOptions = { toleranceCents: 15, maxTenneyHeight: 10 };
+
+export type JustIntervalMatch = FractionMatch & {
+  tenneyHeight: number;
+  /** Interval name such as "major third"; null for fractions outside the name table. */
+  name: string | null;
+};
+
+/** Octave-reduced just intervals with a quality and diatonic degree, so compounds can be named too. */
+const NAMED_INTERVALS: Record<string, { quality: string; degree: number } | { name: string }> = {
+  "1/1": { quality: "perfect", degree: 1 },
+  "16/15": { quality: "minor", degree: 2 },
+  "15/14": { name: "septimal diatonic semitone" },
+  "10/9": { name: "minor whole tone" },
+  "9/8": { quality: "major", degree: 2 },
+  "8/7": { quality: "septimal major", degree: 2 },
+  "7/6": { quality: "septimal minor", degree: 3 },
+  "6/5": { quality: "minor", degree: 3 },
+  "11/9": { name: "undecimal neutral third" },
+  "5/4": { quality: "major", degree: 3 },
+  "9/7": { quality: "septimal major", degree: 3 },
+  "4/3": { quality: "perfect", degree: 4 },
+  "11/8": { name: "undecimal tritone" },
+  "7/5": { name: "septimal tritone" },
+  "45/32": { quality: "augmented", degree: 4 },
+  "64/45": { quality: "diminished", degree: 5 },
+  "10/7": { name: "Euler's tritone" },
+  "3/2": { quality: "perfect", degree: 5 },
+  "14/9": { quality: "septimal minor", degree: 6 },
+  "8/5": { quality: "minor", degree: 6 },
+  "13/8": { name: "tridecimal neutral sixth" },
+  "5/3": { quality: "major", degree: 6 },
+  "12/7": { quality: "septimal major", degree: 6 },
+  "7/4": { quality: "septimal minor", degree: 7 },
+  "16/9": { quality: "Pythagorean minor", degree: 7 },
+  "9/5": { quality: "minor", degree: 7 },
+  "15/8": { quality: "major", degree: 7 },
+};
+
+const DEGREE_NAMES = [
+  "unison", "second", "third", "fourth", "fifth", "sixth", "seventh", "octave",
+  "ninth", "tenth", "eleventh", "twelfth", "thirteenth", "fourteenth", "double octave",
+];
+
+const MULTIPLE_OCTAVES = ["", "octave", "double octave", "triple octave", "quadruple octave"];
+
+function degreeName(degree: number) {
+  const octaves = (degree - 1) / 7;
+  if (Number.isInteger(octaves) && octaves > 0 && octaves < MULTIPLE_OCTAVES.length) return MULTIPLE_OCTAVES[octaves];
+  if (degree <= DEGREE_NAMES.length) return DEGREE_NAMES[degree - 1];
+  const last = degree % 10;
+  const teen = degree % 100 >= 11 && degree % 100 <= 13;
+  return `${degree}${!teen && last === 1 ? "st" : !teen && last === 2 ? "nd" : !teen && last === 3 ? "rd" : "th"}`;
+}
+
+/** Name of a just interval ≥ 1/1, including compounds (5/2 is a major tenth); null when unknown. */
+export function justIntervalName({ numerator, denominator }: Fraction): string | null {
+  if (numerator < denominator) return null;
+  // Split off whole octaves so a compound is named from its octave-reduced interval.
+  let reducedDenominator = denominator;
+  let octaves = 0;
+  while (numerator >= 2 * reducedDenominator) {
+    reducedDenominator *= 2;
+    octaves += 1;
+  }
+  const divisor = gcd(numerator, reducedDenominator);
+  const key = `${numerator / divisor}/${reducedDenominator / divisor}`;
+  if (key === "1/1" && octaves > 0) return degreeName(1 + 7 * octaves);
+  const entry = NAMED_INTERVALS[key];
+  if (!entry) return null;
+  if ("name" in entry) return octaves ? `${entry.name} + ${octaves} octave${octaves === 1 ? "" : "s"}` : entry.name;
+  return `${entry.quality} ${degreeName(entry.degree + 7 * octaves)}`;
+}
+
+/**
+ * The just interval nearest `ratio` among the fractions within `toleranceCents` whose Tenney height
+ * is at most `maxTenneyHeight`; of two equally close fractions the simpler wins. Null when no
+ * fraction qualifies.
+ */
+export function identifyJustInterval(
+  ratio: number,
+  { toleranceCents, maxTenneyHeight }: JustIntonationOptions = DEFAULT_JUST_INTONATION
+): JustIntervalMatch | null {
+  if (!(ratio > 0) || !Number.isFinite(ratio)) return null;
+  const spread = Math.pow(2, toleranceCents / 1200);
+  const low = ratio / spread;
+  const high = ratio * spread;
+  // n·d ≤ 2^maxTenneyHeight together with n ≥ low·d bounds the denominators worth trying.
+  const maxProduct = Math.pow(2, maxTenneyHeight) * (1 + 1e-12);
+  let best: JustIntervalMatch | null = null;
+  for (let denominator = 1; denominator * denominator * low <= maxProduct; denominator++) {
+    const first = Math.max(1, Math.ceil(low * denominator - 1e-9));
+    for (let numerator = first; numerator <= high * denominator + 1e-9 && numerator * denominator <= maxProduct; numerator++) {
+      if (gcd(numerator, denominator) !== 1) continue;
+      const errorCents = ratioToCents(ratio) - ratioToCents(numerator / denominator);
+      const height = tenneyHeight({ numerator, denominator });
+      const closer = !best
+        || Math.abs(errorCents) < Math.abs(best.errorCents) - 1e-9
+        || (Math.abs(errorCents) < Math.abs(best.errorCents) + 1e-9 && height < best.tenneyHeight);
+      if (closer) best = { numerator, denominator, errorCents, tenneyHeight: height, name: null };
+    }
+  }
+  return best && { ...best, name: justIntervalName(best) };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  SAME_VOICE_WEIGHT,
+  TRIAD_SURFACE_SAME_VOICE_WEIGHT,
+  chordDissonance,
+  computeTriadSurface,
+  dyadicDissonance,
+  ratioGrid,
+  spectrumFromHarmonics,
+} from "./math";
+import { ROUGHNESS_MODELS } from "./roughness";
+import type { RoughnessModel } from "./roughness";
+import type { Spectrum } from "./types";
+
+/** The surface as a plain triple loop over cells and partial pairs, without caching or symmetry. */
+function referenceTriadSurface(baseFreq: number, spectrum: Spectrum, model: RoughnessModel, ratios: number[]) {
+  const weights = spectrum.amp.map(model.weight);
+  const rows = ratios.map((r) =>
+    ratios.map((s) => {
+      let sum = 0;
+      for (let i = 0; i < spectrum.freq.length; i++) {
+        for (let j = 0; j < spectrum.freq.length; j++) {
+          const f1 = baseFreq * spectrum.freq[i];
+          const f2 = baseFreq * spectrum.freq[j];
+          const [l1, l2] = [weights[i], weights[j]];
+          sum +=
+            model.kernel(f1, f2, l1, l2) +
+            model.kernel(r * f1, r * f2, l1, l2) +
+            model.kernel(f1, r * f2, l1, l2) +
+            model.kernel(s * f1, s * f2, l1, l2) +
+            model.kernel(f1, s * f2, l1, l2) +
+            model.kernel(r * f1, s * f2, l1, l2);
+        }
+      }
+      return sum / 2;
+    })
+  );
+  const max = Math.max(...rows.flat());
+  return rows.map((row) => row.map((value) => value / max));
+}
+
+const SPECTRA: Record<string, Spectrum> = {
+  "pure tone": { freq: [1], amp: [1] },
+  "4 harmonics": spectrumFromHarmonics(1, 4, 1),
+  "stretched partials": { freq: [1, 2.1, 3.3, 4.6], amp: [1, 0.6, 0.4, 0.25] },
+};
+
+describe("computeTriadSurface", () => {
+  for (const [spectrumName, spectrum] of Object.entries(SPECTRA)) {
+    for (const model of ROUGHNESS_MODELS) {
+      for (const spacing of ["linear", "log"] as const) {
+        it(`matches the reference loop (${spectrumName}, ${model.id}, ${spacing})`, () => {
+          const step = spacing === "log" ? 1 / 12 : 0.05;
+          const surface = computeTriadSurface({ baseFreq: 220, spectrum, model, step, spacing });
+          const expected = referenceTriadSurface(220, spectrum, model, ratioGrid(1, 2, step, spacing));
+
+          expect(surface.ratios).toEqual(ratioGrid(1, 2, step, spacing));
+          surface.values.forEach((row, a) => {
+            row.forEach((value, b) => expect(value).toBeCloseTo(expected[a][b], 12));
+          });
+        });
+      }
+    }
+  }
+});
+
+describe("chordDissonance", () => {
+  const spectrum = SPECTRA["4 harmonics"];
+
+  it("gives the dyadic curve for two voices", () => {
+    for (const ratio of [1, 1.2, 1.25, 1.5, 1.9]) {
+      expect(chordDissonance(220, [1, ratio], spectrum)).toBe(dyadicDissonance(220, ratio, spectrum));
+    }
+  });
+
+  for (const sameVoiceWeight of [TRIAD_SURFACE_SAME_VOICE_WEIGHT, SAME_VOICE_WEIGHT]) {
+    it(`equals the triad surface cell before normalisation (same-voice weight ${sameVoiceWeight})`, () => {
+      for (const model of ROUGHNESS_MODELS) {
+        const surface = computeTriadSurface({ baseFreq: 220, spectrum, model, step: 0.05, sameVoiceWeight });
+        const raw = surface.ratios.map((r) =>
+          surface.ratios.map((s) => chordDissonance(220, [1, r, s], spectrum, model, sameVoiceWeight))
+        );
+        const max = Math.max(...raw.flat());
+        raw.forEach((row, a) => {
+          row.forEach((value, b) => expect(surface.values[a][b]).toBeCloseTo(value / max, 12));
+        });
+      }
+    });
+  }
+});
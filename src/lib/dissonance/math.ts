@@ -1,6 +1,9 @@
+import { SETHARES_MODEL } from "./roughness";
+import type { RoughnessModel } from "./roughness";
 import type { Spectrum } from "./types";
 
-const LOG10 = Math.log(10);
+export { ampToLoudness, dissonanceKernel } from "./roughness";
+
 const LN2 = Math.log(2);
 
 export function harmonicTonePartials(fundamentalHz: number, numPartials: number, rolloff: number) {
@@ -21,119 +24,180 @@ export function spectrumFromHarmonics(fundamentalHz: number, numPartials: number
   };
 }
 
-export function ampToLoudness(amp: number): number {
-  const dB = (20 * Math.log(amp)) / LOG10;
-  return Math.pow(2, dB / 10) / 16;
-}
-
-export function dissonanceKernel(f1: number, f2: number, l1: number, l2: number): number {
-  const x = 0.24;
-  const s1 = 0.0207;
-  const s2 = 18.96;
-  const fmin = Math.min(f1, f2);
-  const fmax = Math.max(f1, f2);
-  const s = x / (s1 * fmin + s2);
-  const p = s * (fmax - fmin);
-
-  const b1 = 3.51;
-  const b2 = 5.75;
-  const l12 = Math.min(l1, l2);
-
-  return l12 * (Math.exp(-b1 * p) - Math.exp(-b2 * p));
+/**
+ * Weight of a voice paired with itself in chord roughness. The pair sums run over ordered partial
+ * pairs, so halving the within-voice sum counts each unordered pair of a voice's partials once.
+ */
+export const SAME_VOICE_WEIGHT = 0.5;
+
+/**
+ * The triad surface counts each voice's within-voice sum in full instead, as it always has; the
+ * surface and its normalisation stay as they were. Pass it to chordDissonance to score a chord
+ * on the surface's own scale.
+ */
+export const TRIAD_SURFACE_SAME_VOICE_WEIGHT = 1;
+
+/** Sum of kernel(f_i, g_j) over every partial f_i of one voice and g_j of another. */
+function voicePairTerm(
+  kernel: RoughnessModel["kernel"],
+  freqsA: ArrayLike<number>,
+  freqsB: ArrayLike<number>,
+  weights: ArrayLike<number>
+) {
+  let term = 0;
+  for (let i = 0; i < freqsA.length; i++) {
+    for (let j = 0; j < freqsB.length; j++) {
+      term += kernel(freqsA[i], freqsB[j], weights[i], weights[j]);
+    }
+  }
+  return term;
 }
 
-export function dyadicDissonance(
+/**
+ * Roughness of a chord whose voices sit at baseFreq × ratios[v], summed over every pair of voices.
+ * By default pairs of partials within one voice count once per unordered pair, so two voices
+ * [1, r] give exactly dyadicDissonance(baseFreq, r).
+ */
+export function chordDissonance(
   baseFreq: number,
-  ratio: number,
-  spectrum: Spectrum
+  ratios: readonly number[],
+  spectrum: Spectrum,
+  model: RoughnessModel = SETHARES_MODEL,
+  sameVoiceWeight = SAME_VOICE_WEIGHT
 ): number {
-  const { freq: freqArray, amp: ampArray } = spectrum;
-  const loudnessArray = ampArray.map(ampToLoudness);
-  const numPartials = freqArray.length;
+  const weights = spectrum.amp.map(model.weight);
+  const voices = ratios.map((ratio) => spectrum.freq.map((multiplier) => baseFreq * ratio * multiplier));
   let dissonanceScore = 0;
 
-  for (let i = 0; i < numPartials; i++) {
-    for (let j = 0; j < numPartials; j++) {
-      const f1 = baseFreq * freqArray[i];
-      const f2 = baseFreq * freqArray[j];
-      const l1 = loudnessArray[i];
-      const l2 = loudnessArray[j];
-      dissonanceScore +=
-        0.5 * dissonanceKernel(f1, f2, l1, l2) +
-        0.5 * dissonanceKernel(ratio * f1, ratio * f2, l1, l2) +
-        dissonanceKernel(f1, ratio * f2, l1, l2);
+  for (let u = 0; u < voices.length; u++) {
+    dissonanceScore += sameVoiceWeight * voicePairTerm(model.kernel, voices[u], voices[u], weights);
+    for (let v = u + 1; v < voices.length; v++) {
+      dissonanceScore += voicePairTerm(model.kernel, voices[u], voices[v], weights);
     }
   }
 
   return dissonanceScore / 2;
 }
 
+export function dyadicDissonance(
+  baseFreq: number,
+  ratio: number,
+  spectrum: Spectrum,
+  model: RoughnessModel = SETHARES_MODEL
+): number {
+  return chordDissonance(baseFreq, [1, ratio], spectrum, model);
+}
+
+/** How grid points are spread: evenly in ratio, or evenly in log2(ratio) (i.e. in cents). */
+export type RatioSpacing = "linear" | "log";
+
 export type TriadSurfaceOptions = {
   baseFreq: number;
   spectrum: Spectrum;
+  model?: RoughnessModel;
   minRatio?: number;
   maxRatio?: number;
+  /** Grid spacing: in ratio units for linear spacing, in octaves for log spacing. */
   step?: number;
+  spacing?: RatioSpacing;
+  /** Weight of each voice's within-voice sum; defaults to TRIAD_SURFACE_SAME_VOICE_WEIGHT. */
+  sameVoiceWeight?: number;
+};
+
+export type TriadSurface = {
+  ratios: number[];
+  values: Float64Array[];
 };
 
+/** Grid points from minRatio to maxRatio inclusive, `step` apart in ratio (linear) or in octaves (log). */
+export function ratioGrid(minRatio: number, maxRatio: number, step: number, spacing: RatioSpacing = "linear") {
+  const ratios: number[] = [];
+  if (spacing === "log") {
+    const octaves = Math.log2(maxRatio / minRatio);
+    for (let x = 0; x <= octaves + 1e-9; x += step) {
+      ratios.push(Number((minRatio * Math.pow(2, x)).toFixed(6)));
+    }
+    return ratios;
+  }
+  for (let r = minRatio; r <= maxRatio + 1e-9; r += step) {
+    ratios.push(Number(r.toFixed(6)));
+  }
+  return ratios;
+}
+
+/**
+ * Triad roughness over an (r, s) grid, normalised to the grid maximum. Before normalising, each
+ * cell equals chordDissonance(baseFreq, [1, r, s], spectrum, model, sameVoiceWeight).
+ *
+ * D(r, s) splits into a constant base-tone term, a per-ratio term shared by every cell in a
+ * row/column, and the r–s cross term. The first two are computed once (O(N·P²)); only the cross
+ * term is evaluated per cell, on the upper triangle (s ≥ r), and mirrored since D(r, s) = D(s, r)
+ * for any symmetric kernel.
+ */
 export function computeTriadSurface({
   baseFreq,
   spectrum,
+  model = SETHARES_MODEL,
   minRatio = 1,
   maxRatio = 2,
   step = 0.02,
-}: TriadSurfaceOptions) {
-  const { freq: freqArray, amp: ampArray } = spectrum;
-  const loudnessArray = ampArray.map(ampToLoudness);
-  const numPartials = freqArray.length;
-
-  const ratios: number[] = [];
-  for (let r = minRatio; r <= maxRatio + 1e-9; r += step) {
-    ratios.push(Number(r.toFixed(6)));
+  spacing = "linear",
+  sameVoiceWeight = TRIAD_SURFACE_SAME_VOICE_WEIGHT,
+}: TriadSurfaceOptions): TriadSurface {
+  const { kernel } = model;
+  const numPartials = spectrum.freq.length;
+  const partialFreqs = Float64Array.from(spectrum.freq, (multiplier) => baseFreq * multiplier);
+  const weights = Float64Array.from(spectrum.amp, model.weight);
+
+  const ratios = ratioGrid(minRatio, maxRatio, step, spacing);
+  const size = ratios.length;
+
+  const baseTerm = sameVoiceWeight * voicePairTerm(kernel, partialFreqs, partialFreqs, weights);
+
+  // scaled[a * P + i] = ratios[a] * f_i, so the cross term never re-multiplies frequencies.
+  const scaled = new Float64Array(size * numPartials);
+  const ratioTerms = new Float64Array(size);
+  for (let a = 0; a < size; a++) {
+    const voice = scaled.subarray(a * numPartials, (a + 1) * numPartials);
+    for (let i = 0; i < numPartials; i++) {
+      voice[i] = ratios[a] * partialFreqs[i];
+    }
+    ratioTerms[a] =
+      sameVoiceWeight * voicePairTerm(kernel, voice, voice, weights) +
+      voicePairTerm(kernel, partialFreqs, voice, weights);
   }
 
-  const data: number[][] = [];
+  const data = new Float64Array(size * size);
   let maxScore = Number.NEGATIVE_INFINITY;
 
-  for (const r of ratios) {
-    const row: number[] = [];
-    for (const s of ratios) {
-      let dissonanceSum = 0;
+  for (let a = 0; a < size; a++) {
+    const offsetA = a * numPartials;
+    for (let b = a; b < size; b++) {
+      const offsetB = b * numPartials;
+      let crossTerm = 0;
       for (let i = 0; i < numPartials; i++) {
         for (let j = 0; j < numPartials; j++) {
-          const f1 = baseFreq * freqArray[i];
-          const f2 = baseFreq * freqArray[j];
-          const l1 = loudnessArray[i];
-          const l2 = loudnessArray[j];
-
-          const d =
-            dissonanceKernel(f1, f2, l1, l2) +
-            dissonanceKernel(r * f1, r * f2, l1, l2) +
-            dissonanceKernel(f1, r * f2, l1, l2) +
-            dissonanceKernel(s * f1, s * f2, l1, l2) +
-            dissonanceKernel(f1, s * f2, l1, l2) +
-            dissonanceKernel(r * f1, s * f2, l1, l2);
-
-          dissonanceSum += d;
+          crossTerm += kernel(scaled[offsetA + i], scaled[offsetB + j], weights[i], weights[j]);
         }
       }
 
-      dissonanceSum /= 2;
-      row.push(dissonanceSum);
+      const dissonanceSum = (baseTerm + ratioTerms[a] + ratioTerms[b] + crossTerm) / 2;
+      data[a * size + b] = dissonanceSum;
+      data[b * size + a] = dissonanceSum;
       if (dissonanceSum > maxScore) {
         maxScore = dissonanceSum;
       }
     }
-    data.push(row);
   }
 
-  const normalized = data.map((row) =>
-    row.map((value) => (maxScore > 0 ? value / maxScore : 0))
-  );
+  const scale = maxScore > 0 ? 1 / maxScore : 0;
+  for (let idx = 0; idx < data.length; idx++) {
+    data[idx] *= scale;
+  }
 
   return {
     ratios,
-    values: normalized,
+    values: Array.from({ length: size }, (_, a) => data.subarray(a * size, (a + 1) * size)),
   };
 }
 
@@ -141,20 +205,12 @@ export function ratioToMidi(ratio: number) {
   return 12 * Math.log(ratio) / LN2 + 60;
 }
 
-const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"] as const;
-
-export function midiToNoteName(midi: number) {
-  const rounded = Math.round(midi);
-  const octave = Math.floor(rounded / 12) - 1;
-  const note = NOTE_NAMES[((rounded % 12) + 12) % 12];
-  return `${note}${octave}`;
-}
-
-export function frequencyToMidi(frequency: number) {
-  return 69 + 12 * Math.log2(frequency / 440);
+/** Fractional MIDI note number; `concertPitch` is the frequency of A4 (note 69). */
+export function frequencyToMidi(frequency: number, concertPitch = 440) {
+  return 69 + 12 * Math.log2(frequency / concertPitch);
 }
 
-export function ratioToNoteName(ratio: number, baseFrequency: number) {
-  const midi = frequencyToMidi(baseFrequency * ratio);
-  return midiToNoteName(midi);
+/** Inverse of `frequencyToMidi`; fractional note numbers give microtonal frequencies. */
+export function midiToFrequency(midi: number, concertPitch = 440) {
+  return concertPitch * Math.pow(2, (midi - 69) / 12);
 }
@@ -0,0 +1,138 @@
+import { brentMinimize } from "./curveSampling";
+import type { TriadSurface } from "./math";
+
+export type TriadMinimum = {
+  ratioX: number;
+  ratioY: number;
+  value: number;
+};
+
+export type ChordVolume = {
+  axis: number[];
+  /** Normalised values, row-major as [r][s][t] with t varying fastest. */
+  values: Float64Array;
+};
+
+export type TetradMinimum = {
+  ratios: readonly [number, number, number];
+  value: number;
+};
+
+export function extractConsonantMinima(surface: TriadSurface, threshold: number, limit: number): TriadMinimum[] {
+  const minima: TriadMinimum[] = [];
+  const rows = surface.values.length;
+  const cols = surface.values[0]?.length ?? 0;
+
+  for (let i = 1; i < rows - 1; i++) {
+    for (let j = 1; j < cols - 1; j++) {
+      const current = surface.values[i][j];
+      if (current > threshold) continue;
+
+      let isMinimum = true;
+      for (let di = -1; di <= 1 && isMinimum; di++) {
+        for (let dj = -1; dj <= 1; dj++) {
+          if (di === 0 && dj === 0) continue;
+          if (surface.values[i + di][j + dj] < current) {
+            isMinimum = false;
+            break;
+          }
+        }
+      }
+
+      if (isMinimum) {
+        minima.push({
+          ratioX: surface.ratios[i],
+          ratioY: surface.ratios[j],
+          value: current,
+        });
+      }
+    }
+  }
+
+  return minima
+    .sort((a, b) => a.value - b.value)
+    .slice(0, limit);
+}
+
+/**
+ * Moves grid minima to the exact minima of `roughness(r, s)` (the unnormalised function the
+ * surface was sampled from) by cycling Brent searches inside the neighbouring grid cells. The
+ * surface's valleys run along lines of constant r, s and s/r, so the searches go along r, along s
+ * and along the ray that keeps s/r fixed; each slides along one valley onto the cusp where it
+ * crosses another. Values keep the surface's normalisation.
+ */
+export function refineTriadMinima(
+  surface: TriadSurface,
+  minima: TriadMinimum[],
+  roughness: (r: number, s: number) => number,
+  rounds = 3
+): TriadMinimum[] {
+  const { ratios } = surface;
+  const bracket = (ratio: number) => {
+    const index = ratios.findIndex((value) => Math.abs(value - ratio) < 1e-9);
+    return [ratios[Math.max(index - 1, 0)], ratios[Math.min(index + 1, ratios.length - 1)]] as const;
+  };
+
+  return minima.map((minimum) => {
+    const raw = roughness(minimum.ratioX, minimum.ratioY);
+    if (!(raw > 0)) return minimum;
+    const scale = minimum.value / raw;
+    const [rLow, rHigh] = bracket(minimum.ratioX);
+    const [sLow, sHigh] = bracket(minimum.ratioY);
+    let r = minimum.ratioX;
+    let s = minimum.ratioY;
+    let best = raw;
+    for (let round = 0; round < rounds; round++) {
+      const alongR = brentMinimize((x) => roughness(x, s), rLow, rHigh);
+      if (alongR.y <= best) [r, best] = [alongR.x, alongR.y];
+      const alongS = brentMinimize((y) => roughness(r, y), sLow, sHigh);
+      if (alongS.y <= best) [s, best] = [alongS.x, alongS.y];
+      const alongRay = brentMinimize((t) => roughness(r * t, s * t), rLow / r, rHigh / r);
+      if (alongRay.y <= best) [r, s, best] = [r * alongRay.x, s * alongRay.x, alongRay.y];
+    }
+    return { ratioX: r, ratioY: s, value: best * scale };
+  });
+}
+
+/**
+ * 3D counterpart of extractConsonantMinima: a cell counts as a minimum when none of its 26
+ * neighbours is lower. Only r ≤ s ≤ t is kept, since the volume is symmetric under voice swaps.
+ */
+export function extractConsonantMinima3D(volume: ChordVolume, threshold: number, limit: number): TetradMinimum[] {
+  const minima: TetradMinimum[] = [];
+  const n = volume.axis.length;
+  const at = (a: number, b: number, c: number) => volume.values[(a * n + b) * n + c];
+
+  for (let a = 1; a < n - 1; a++) {
+    for (let b = a; b < n - 1; b++) {
+      for (let c = b; c < n - 1; c++) {
+        const current = at(a, b, c);
+        if (current > threshold) continue;
+
+        let isMinimum = true;
+        for (let da = -1; da <= 1 && isMinimum; da++) {
+          for (let db = -1; db <= 1 && isMinimum; db++) {
+            for (let dc = -1; dc <= 1; dc++) {
+              if (da === 0 && db === 0 && dc === 0) continue;
+              if (at(a + da, b + db, c + dc) < current) {
+                isMinimum = false;
+                break;
+              }
+            }
+          }
+        }
+
+        if (isMinimum) {
+          minima.push({
+            ratios: [volume.axis[a], volume.axis[b], volume.axis[c]],
+            value: current,
+          });
+        }
+      }
+    }
+  }
+
+  return minima
+    .sort((x, y) => x.value - y.value)
+    .slice(0, limit);
+}
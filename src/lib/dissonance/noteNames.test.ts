@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { ratioToNoteName } from "./noteNames";
+import type { NoteNaming } from "./noteNames";
+
+const heji: NoteNaming = { concertPitch: 440, system: "heji", edo: 31 };
+const middleC = 440 * Math.pow(2, -9 / 12);
+const bFlat3 = 440 * Math.pow(2, -11 / 12);
+
+describe("HEJI note names", () => {
+  it("spells flat roots on the flat side of the chain of fifths", () => {
+    expect([1, 5 / 4, 3 / 2, 6 / 5, 7 / 4].map((ratio) => ratioToNoteName(ratio, bFlat3, heji))).toEqual([
+      "B♭3",
+      "↓D4",
+      "F4",
+      "↑D♭4",
+      "⁷↓A♭4",
+    ]);
+  });
+
+  it("takes the interval's letter from its Pythagorean part", () => {
+    expect([9 / 8, 16 / 15, 11 / 8, 13 / 8].map((ratio) => ratioToNoteName(ratio, middleC, heji))).toEqual([
+      "D4",
+      "↑D♭4",
+      "¹¹↑F4",
+      "¹³↓A4",
+    ]);
+  });
+
+  it("reads the ratio with the given just intonation options", () => {
+    expect(ratioToNoteName(45 / 32, middleC, heji, { toleranceCents: 15, maxTenneyHeight: 11 })).toBe("↓F♯4");
+    expect(ratioToNoteName(45 / 32, middleC, heji, { toleranceCents: 1, maxTenneyHeight: 10 })).toBe("F#4 −10¢");
+  });
+});
@@ -0,0 +1,163 @@
+import { DEFAULT_JUST_INTONATION, identifyJustInterval } from "./intervals";
+import type { JustIntonationOptions } from "./intervals";
+import { frequencyToMidi } from "./math";
+import { ratioToCents } from "./tuning";
+
+/**
+ * How pitches are spelled: nearest 12-TET note, Helmholtz–Ellis (HEJI) just spelling relative to
+ * the root, or step numbers of an N-EDO counted from the root.
+ */
+export type NoteNameSystem = "12-tet" | "heji" | "edo";
+
+export const NOTE_NAME_SYSTEMS: { value: NoteNameSystem; label: string }[] = [
+  { value: "12-tet", label: "12-TET note + cents" },
+  { value: "heji", label: "Helmholtz–Ellis (just)" },
+  { value: "edo", label: "N-EDO steps" },
+];
+
+export type NoteNaming = {
+  /** Frequency of A4 in Hz. */
+  concertPitch: number;
+  system: NoteNameSystem;
+  /** Divisions of the octave for the "edo" system. */
+  edo: number;
+};
+
+export const DEFAULT_NOTE_NAMING: NoteNaming = { concertPitch: 440, system: "12-tet", edo: 31 };
+
+export type NoteName = {
+  /** Spelling without the octave, e.g. "C#", "↓C♯" or "7\\31". */
+  note: string;
+  /** Scientific-pitch octave; null for EDO step names, which count octaves in the step. */
+  octave: number | null;
+  /** How far the pitch is above (positive) or below the spelled pitch. */
+  centsOffset: number;
+};
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"] as const;
+
+/** Nearest 12-TET note to `frequency`, with the octave and the remaining cents. */
+export function frequencyToNoteName(frequency: number, concertPitch = DEFAULT_NOTE_NAMING.concertPitch): NoteName {
+  const midi = frequencyToMidi(frequency, concertPitch);
+  const rounded = Math.round(midi);
+  return {
+    note: NOTE_NAMES[((rounded % 12) + 12) % 12],
+    octave: Math.floor(rounded / 12) - 1,
+    centsOffset: (midi - rounded) * 100,
+  };
+}
+
+/** Letters along the chain of fifths, starting a fifth below C. */
+const FIFTHS_LETTERS = ["F", "C", "G", "D", "A", "E", "B"] as const;
+const NATURAL_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/**
+ * HEJI treats each prime above 3 as a Pythagorean interval bent by a comma: 5/4 is the major third
+ * 81/64 lowered by 81/80, 7/4 the minor seventh 16/9 lowered by 64/63, 11/8 the fourth 4/3 raised
+ * by 33/32 and 13/8 the major sixth 27/16 lowered by 27/26. `fifths` is that Pythagorean interval
+ * on the chain of fifths; the marks are the comma accidentals for one factor of the prime in the
+ * numerator or the denominator.
+ */
+const HEJI_PRIMES = [
+  { prime: 5, fifths: 4, numeratorMark: "↓", denominatorMark: "↑" },
+  { prime: 7, fifths: -2, numeratorMark: "⁷↓", denominatorMark: "⁷↑" },
+  { prime: 11, fifths: -1, numeratorMark: "¹¹↑", denominatorMark: "¹¹↓" },
+  { prime: 13, fifths: 3, numeratorMark: "¹³↓", denominatorMark: "¹³↑" },
+] as const;
+
+/** Exponent of `prime` in n/d, or null if either side has a prime outside 2…13. */
+function factorize(numerator: number, denominator: number) {
+  const exponents = new Map<number, number>();
+  const remaining = [numerator, denominator];
+  for (const prime of [2, 3, 5, 7, 11, 13]) {
+    remaining.forEach((value, side) => {
+      let rest = value;
+      while (rest % prime === 0) {
+        rest /= prime;
+        exponents.set(prime, (exponents.get(prime) ?? 0) + (side === 0 ? 1 : -1));
+      }
+      remaining[side] = rest;
+    });
+  }
+  return remaining[0] === 1 && remaining[1] === 1 ? exponents : null;
+}
+
+/** Position of a 12-TET pitch class on the chain of fifths, spelled from D♭ (-5) to F♯ (6). */
+function pitchClassFifths(pitchClass: number) {
+  const fifths = (pitchClass * 7) % 12;
+  return fifths > 6 ? fifths - 12 : fifths;
+}
+
+function accidental(sharps: number) {
+  return sharps >= 0 ? "♯".repeat(sharps) : "♭".repeat(-sharps);
+}
+
+/**
+ * HEJI spelling of `ratio` above a root named by its nearest 12-TET key, with flats from D♭ to
+ * B♭. The ratio is read as the just interval `justOptions` accepts; ratios with no such match, or
+ * with primes above 13, fall back to 12-TET naming.
+ */
+function hejiNoteName(ratio: number, baseFrequency: number, concertPitch: number, justOptions: JustIntonationOptions): NoteName {
+  const root = frequencyToNoteName(baseFrequency, concertPitch);
+  const match = identifyJustInterval(ratio, justOptions);
+  const exponents = match ? factorize(match.numerator, match.denominator) : null;
+  if (!match || !exponents) return frequencyToNoteName(baseFrequency * ratio, concertPitch);
+
+  // The interval's Pythagorean part moves the root along the chain of fifths; the comma marks
+  // carry the rest.
+  let fifths = pitchClassFifths(NOTE_NAMES.indexOf(root.note as (typeof NOTE_NAMES)[number])) + (exponents.get(3) ?? 0);
+  let marks = "";
+  for (const { prime, fifths: offset, numeratorMark, denominatorMark } of HEJI_PRIMES) {
+    const exponent = exponents.get(prime) ?? 0;
+    fifths += offset * exponent;
+    marks += (exponent > 0 ? numeratorMark : denominatorMark).repeat(Math.abs(exponent));
+  }
+
+  const letter = FIFTHS_LETTERS[(((fifths + 1) % 7) + 7) % 7];
+  const sharps = Math.floor((fifths + 1) / 7);
+  // The spelled note's nominal 12-TET key nearest the sounding pitch fixes the octave.
+  const midi = frequencyToMidi(baseFrequency * ratio, concertPitch);
+  const pitchClass = (((NATURAL_SEMITONES[letter] + sharps) % 12) + 12) % 12;
+  const nominal = pitchClass + 12 * Math.round((midi - pitchClass) / 12);
+  return {
+    note: `${marks}${letter}${accidental(sharps)}`,
+    octave: Math.floor((nominal - sharps) / 12) - 1,
+    centsOffset: root.centsOffset + match.errorCents,
+  };
+}
+
+/**
+ * Name of the pitch `ratio` above `baseFrequency` in the chosen system. `justOptions` decides
+ * which just interval HEJI spells.
+ */
+export function ratioToNote(
+  ratio: number,
+  baseFrequency: number,
+  naming: NoteNaming = DEFAULT_NOTE_NAMING,
+  justOptions: JustIntonationOptions = DEFAULT_JUST_INTONATION
+): NoteName {
+  if (naming.system === "heji") return hejiNoteName(ratio, baseFrequency, naming.concertPitch, justOptions);
+  if (naming.system === "edo") {
+    const steps = (ratioToCents(ratio) * naming.edo) / 1200;
+    const step = Math.round(steps);
+    return { note: `${step}\\${naming.edo}`, octave: null, centsOffset: ((steps - step) * 1200) / naming.edo };
+  }
+  return frequencyToNoteName(baseFrequency * ratio, naming.concertPitch);
+}
+
+/** "C#4 −14¢"; offsets under half a cent are left out. */
+export function formatNoteName({ note, octave, centsOffset }: NoteName) {
+  const name = `${note}${octave ?? ""}`;
+  const cents = Math.round(centsOffset);
+  if (cents === 0) return name;
+  return `${name} ${cents > 0 ? "+" : "−"}${Math.abs(cents)}¢`;
+}
+
+export function ratioToNoteName(
+  ratio: number,
+  baseFrequency: number,
+  naming: NoteNaming = DEFAULT_NOTE_NAMING,
+  justOptions: JustIntonationOptions = DEFAULT_JUST_INTONATION
+) {
+  return formatNoteName(ratioToNote(ratio, baseFrequency, naming, justOptions));
+}
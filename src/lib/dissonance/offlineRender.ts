@@ -0,0 +1,61 @@
+import { DEFAULT_ENVELOPE, ReferenceSynth, envelopeDuration } from "./audio";
+import type { Envelope } from "./audio";
+import { encodeWav } from "./wav";
+import type { WavBitDepth } from "./wav";
+
+export type OfflineRenderRequest = {
+  baseFrequency: number;
+  partialMultipliers: number[];
+  partialAmplitudes: number[];
+  tuning: number[];
+  envelope?: Envelope;
+  sampleRate?: number;
+};
+
+const TAIL_SECONDS = 0.05;
+
+/**
+ * Renders a chord exactly as `useReferenceTonePlayer.playChord` would sound it, one
+ * `ReferenceSynth` per voice, into an `OfflineAudioContext` instead of the speakers.
+ */
+export async function renderChordOffline({
+  baseFrequency,
+  partialMultipliers,
+  partialAmplitudes,
+  tuning,
+  envelope = DEFAULT_ENVELOPE,
+  sampleRate = 44100,
+}: OfflineRenderRequest): Promise<AudioBuffer> {
+  const frames = Math.ceil((envelopeDuration(envelope) + TAIL_SECONDS) * sampleRate);
+  const ctx = new OfflineAudioContext(1, frames, sampleRate);
+  const voiceCount = Math.max(tuning.length, 1);
+
+  tuning.forEach((multiplier) => {
+    const synth = new ReferenceSynth(ctx, partialMultipliers, partialAmplitudes, voiceCount);
+    synth.connect(ctx.destination);
+    synth.play(baseFrequency * multiplier, 0, envelope);
+  });
+
+  return ctx.startRendering();
+}
+
+/** Scales a rendered buffer down in place when bright spectra push it past full scale. */
+function preventClipping(buffer: AudioBuffer) {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    for (const sample of buffer.getChannelData(channel)) {
+      peak = Math.max(peak, Math.abs(sample));
+    }
+  }
+  if (peak <= 1) return;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) samples[i] /= peak;
+  }
+}
+
+export async function renderChordWav(request: OfflineRenderRequest, bitDepth: WavBitDepth = 16) {
+  const buffer = await renderChordOffline(request);
+  preventClipping(buffer);
+  return encodeWav(buffer, bitDepth);
+}
@@ -0,0 +1,91 @@
+import { chordDissonance } from "./math";
+import { SETHARES_MODEL } from "./roughness";
+import type { RoughnessModel } from "./roughness";
+import { ratioToCents } from "./tuning";
+import type { Spectrum } from "./types";
+
+export type ProgressionStep = {
+  id: string;
+  label: string;
+  /** Voice ratios over the base frequency, root included. */
+  ratios: number[];
+  duration: number;
+};
+
+export type ScoredStep = ProgressionStep & {
+  startTime: number;
+  dissonance: number;
+  /** Cents moved from the previous chord; null for the first step. */
+  voiceLeading: number | null;
+};
+
+function parseRatioToken(token: string) {
+  const [numeratorText, denominatorText] = token.split("/");
+  const value = Number(numeratorText) / (denominatorText === undefined ? 1 : Number(denominatorText));
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`"${token}" is not a positive ratio`);
+  }
+  return value;
+}
+
+/**
+ * Reads a chord as an integer chord ("4:5:6") or as upper-voice ratios over an implied root
+ * ("5/4 3/2" or "1.25, 1.5"). Returns ascending ratios with the root at 1.
+ */
+export function parseChordRatios(text: string): number[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error("Enter a chord, e.g. 4:5:6 or 5/4 3/2");
+  }
+
+  if (trimmed.includes(":")) {
+    const parts = trimmed.split(":").map((part) => parseRatioToken(part.trim()));
+    if (parts.length < 2) throw new Error("An integer chord needs at least two terms");
+    const lowest = Math.min(...parts);
+    return parts.map((part) => part / lowest).sort((a, b) => a - b);
+  }
+
+  const uppers = trimmed.split(/[\s,;]+/u).filter(Boolean).map(parseRatioToken);
+  return Array.from(new Set([1, ...uppers])).sort((a, b) => a - b);
+}
+
+/**
+ * Taxicab voice-leading size in cents: voices are paired in pitch order, and any extra voices
+ * in the larger chord move from the nearest voice of the smaller one.
+ */
+export function voiceLeadingDistance(from: number[], to: number[]) {
+  const a = from.map(ratioToCents).sort((x, y) => x - y);
+  const b = to.map(ratioToCents).sort((x, y) => x - y);
+  const [small, large] = a.length <= b.length ? [a, b] : [b, a];
+  if (!small.length) return 0;
+
+  let total = 0;
+  large.forEach((cents, idx) => {
+    const paired = small[idx];
+    if (paired !== undefined) {
+      total += Math.abs(cents - paired);
+      return;
+    }
+    total += Math.min(...small.map((candidate) => Math.abs(cents - candidate)));
+  });
+  return total;
+}
+
+export function scoreProgression(
+  steps: ProgressionStep[],
+  baseFreq: number,
+  spectrum: Spectrum,
+  model: RoughnessModel = SETHARES_MODEL
+): ScoredStep[] {
+  let startTime = 0;
+  return steps.map((step, idx) => {
+    const scored: ScoredStep = {
+      ...step,
+      startTime,
+      dissonance: chordDissonance(baseFreq, step.ratios, spectrum, model),
+      voiceLeading: idx > 0 ? voiceLeadingDistance(steps[idx - 1].ratios, step.ratios) : null,
+    };
+    startTime += step.duration;
+    return scored;
+  });
+}
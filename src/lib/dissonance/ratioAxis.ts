@@ -0,0 +1,121 @@
+import type { RatioSpacing } from "./math";
+import { DEFAULT_NOTE_NAMING, formatNoteName, ratioToNote } from "./noteNames";
+import type { NoteNaming } from "./noteNames";
+import { centsToRatio, ratioToCents } from "./tuning";
+
+/** How interval axes are drawn: linear in ratio, or logarithmic labelled in cents or note names. */
+export type RatioAxisScale = "ratio" | "cents" | "log2";
+
+export const RATIO_AXIS_SCALES: { value: RatioAxisScale; label: string }[] = [
+  { value: "ratio", label: "Ratio (linear)" },
+  { value: "cents", label: "Cents (log)" },
+  { value: "log2", label: "log₂ with note names" },
+];
+
+/** Selectable ranges above the root, in octaves; 4 octaves reaches the 29th (16:1). */
+export const RANGE_OCTAVE_OPTIONS = [1, 2, 3, 4] as const;
+export const MAX_RANGE_OCTAVES = 4;
+
+/** Upper bound on grid points per axis, so wide triad ranges stay affordable (cost grows with its square). */
+export const MAX_GRID_POINTS = 161;
+
+export type AxisTick = { ratio: number; label: string };
+
+export function axisSpacing(scale: RatioAxisScale): RatioSpacing {
+  return scale === "ratio" ? "linear" : "log";
+}
+
+/** Position of a ratio along the axis: the ratio itself, its cents, or its log2. */
+export function ratioToAxis(ratio: number, scale: RatioAxisScale) {
+  if (scale === "ratio") return ratio;
+  return scale === "cents" ? ratioToCents(ratio) : Math.log2(ratio);
+}
+
+export function axisToRatio(value: number, scale: RatioAxisScale) {
+  if (scale === "ratio") return value;
+  return scale === "cents" ? centsToRatio(value) : Math.pow(2, value);
+}
+
+/** Curve samples for a range: a fixed density per octave, capped so 4 octaves stay cheap. */
+export function adaptiveSampleCount(minRatio: number, maxRatio: number, perOctave = 240, max = 961) {
+  return Math.min(max, Math.max(perOctave, Math.ceil(Math.log2(maxRatio / minRatio) * perOctave)) + 1);
+}
+
+/**
+ * Effective grid step for `ratioGrid`. `step` is the requested ratio step near the root; with log
+ * spacing it becomes the equivalent step in octaves. The step is widened when the range would need
+ * more than `maxPoints` points, then shrunk slightly so it divides the range and the grid ends
+ * exactly on maxRatio.
+ */
+export function adaptiveGridStep(
+  step: number,
+  minRatio: number,
+  maxRatio: number,
+  spacing: RatioSpacing,
+  maxPoints = MAX_GRID_POINTS
+) {
+  const span = spacing === "log" ? Math.log2(maxRatio / minRatio) : maxRatio - minRatio;
+  const requested = spacing === "log" ? Math.log2(1 + step) : step;
+  const widened = Math.max(requested, span / (maxPoints - 1));
+  const intervals = Math.max(1, Math.ceil(span / widened - 1e-9));
+  return { step: span / intervals, points: intervals + 1 };
+}
+
+const RATIO_TICK_STEPS = [0.05, 0.1, 0.25, 0.5, 1, 2];
+const CENTS_TICK_STEPS = [100, 200, 300, 600, 1200, 2400];
+const SEMITONE_TICK_STEPS = [1, 2, 3, 4, 12, 24];
+const EDO_TICK_STEPS = [1, 2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 72, 144];
+
+function pickStep(span: number, steps: number[], maxTicks: number) {
+  return steps.find((step) => span / step <= maxTicks - 1) ?? steps[steps.length - 1];
+}
+
+/**
+ * Tick positions and labels for an interval axis: round ratios on a linear axis, whole hundreds of
+ * cents on a cents axis, and note names of the root's semitones on a log2 axis (EDO steps when
+ * `naming` uses an EDO). Every log2 tick shares the root's cents offset, so labels leave it out.
+ */
+export function ratioAxisTicks(
+  minRatio: number,
+  maxRatio: number,
+  scale: RatioAxisScale,
+  baseFreq: number,
+  naming: NoteNaming = DEFAULT_NOTE_NAMING,
+  maxTicks = 10
+): AxisTick[] {
+  const ticks: AxisTick[] = [];
+  if (scale === "ratio") {
+    const step = pickStep(maxRatio - minRatio, RATIO_TICK_STEPS, maxTicks);
+    // Keep the root labelled even when the step skips it (e.g. 2, 4, 6… over four octaves).
+    if (minRatio % step > 1e-9) ticks.push({ ratio: minRatio, label: `${Number(minRatio.toFixed(2))}` });
+    for (let idx = Math.ceil(minRatio / step - 1e-9); idx * step <= maxRatio + 1e-9; idx++) {
+      const ratio = idx * step;
+      ticks.push({ ratio, label: `${Number(ratio.toFixed(2))}` });
+    }
+    return ticks;
+  }
+
+  const minCents = ratioToCents(minRatio);
+  const maxCents = ratioToCents(maxRatio);
+  const stepCents = naming.system === "edo" ? 1200 / naming.edo : 100;
+  const step = scale === "cents"
+    ? pickStep(maxCents - minCents, CENTS_TICK_STEPS, maxTicks)
+    : pickStep(maxCents - minCents, (naming.system === "edo" ? EDO_TICK_STEPS : SEMITONE_TICK_STEPS).map((count) => count * stepCents), maxTicks);
+  // Tempered ticks are spelled as 12-TET notes even when the labels elsewhere use HEJI.
+  const tickNaming: NoteNaming = naming.system === "heji" ? { ...naming, system: "12-tet" } : naming;
+  for (let idx = Math.ceil(minCents / step - 1e-9); idx * step <= maxCents + 1e-9; idx++) {
+    const cents = idx * step;
+    const ratio = centsToRatio(cents);
+    const label = scale === "cents"
+      ? `${cents}¢`
+      : formatNoteName({ ...ratioToNote(ratio, baseFreq, tickNaming), centsOffset: 0 });
+    ticks.push({ ratio, label });
+  }
+  return ticks;
+}
+
+/** Axis title for the voice called `name` (e.g. "r"). */
+export function ratioAxisTitle(scale: RatioAxisScale, name: string) {
+  if (scale === "ratio") return `Ratio ${name}`;
+  return scale === "cents" ? `Interval ${name} (cents)` : `Interval ${name} (log₂, notes above f0)`;
+}
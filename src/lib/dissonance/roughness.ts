@@ -0,0 +1,105 @@
+const LOG10 = Math.log(10);
+
+export type RoughnessModelId = "sethares" | "plomp-levelt-erb" | "vassilakis" | "hutchinson-knopoff";
+
+export type RoughnessModel = {
+  id: RoughnessModelId;
+  label: string;
+  description: string;
+  /** Converts a raw partial amplitude into the weight the kernel consumes. */
+  weight: (amp: number) => number;
+  /** Roughness contributed by one pair of partials, given their frequencies and weights. */
+  kernel: (f1: number, f2: number, w1: number, w2: number) => number;
+};
+
+const SETHARES_X = 0.24;
+const SETHARES_S1 = 0.0207;
+const SETHARES_S2 = 18.96;
+const SETHARES_B1 = 3.51;
+const SETHARES_B2 = 5.75;
+// Separation p at which exp(-b1 p) - exp(-b2 p) peaks.
+const SETHARES_PEAK = Math.log(SETHARES_B2 / SETHARES_B1) / (SETHARES_B2 - SETHARES_B1);
+
+export function ampToLoudness(amp: number): number {
+  const dB = (20 * Math.log(amp)) / LOG10;
+  return Math.pow(2, dB / 10) / 16;
+}
+
+export function dissonanceKernel(f1: number, f2: number, l1: number, l2: number): number {
+  const fmin = Math.min(f1, f2);
+  const fmax = Math.max(f1, f2);
+  const s = SETHARES_X / (SETHARES_S1 * fmin + SETHARES_S2);
+  const p = s * (fmax - fmin);
+  const l12 = Math.min(l1, l2);
+
+  return l12 * (Math.exp(-SETHARES_B1 * p) - Math.exp(-SETHARES_B2 * p));
+}
+
+export function erbBandwidth(frequency: number) {
+  return 24.7 * (4.37 * frequency / 1000 + 1);
+}
+
+function plompLeveltKernel(f1: number, f2: number, l1: number, l2: number): number {
+  const bandwidth = erbBandwidth((f1 + f2) / 2);
+  // Scale so the curve peaks at a quarter of the critical band, as in Plomp & Levelt (1965).
+  const p = (Math.abs(f2 - f1) / bandwidth) * (SETHARES_PEAK / 0.25);
+  return Math.min(l1, l2) * (Math.exp(-SETHARES_B1 * p) - Math.exp(-SETHARES_B2 * p));
+}
+
+function vassilakisKernel(f1: number, f2: number, a1: number, a2: number): number {
+  const amin = Math.min(a1, a2);
+  const amax = Math.max(a1, a2);
+  if (amax <= 0) return 0;
+  const s = SETHARES_X / (SETHARES_S1 * Math.min(f1, f2) + SETHARES_S2);
+  const df = Math.abs(f2 - f1);
+  const x = Math.pow(a1 * a2, 0.1);
+  const y = 0.5 * Math.pow((2 * amin) / (amin + amax), 3.11);
+  const z = Math.exp(-3.5 * s * df) - Math.exp(-5.75 * s * df);
+  return x * y * z;
+}
+
+function hutchinsonKnopoffKernel(f1: number, f2: number, a1: number, a2: number): number {
+  const bandwidth = 1.72 * Math.pow((f1 + f2) / 2, 0.65);
+  const y = Math.abs(f2 - f1) / bandwidth;
+  if (y >= 1.2) return 0;
+  // Parncutt's closed-form fit to the Hutchinson–Knopoff standard curve.
+  const g = Math.pow(Math.E * (y / 0.25) * Math.exp(-y / 0.25), 2);
+  return a1 * a2 * g;
+}
+
+export const SETHARES_MODEL: RoughnessModel = {
+  id: "sethares",
+  label: "Sethares (1993)",
+  description: "Difference-of-exponentials fit to Plomp–Levelt with min-loudness weighting.",
+  weight: ampToLoudness,
+  kernel: dissonanceKernel,
+};
+
+export const ROUGHNESS_MODELS: RoughnessModel[] = [
+  SETHARES_MODEL,
+  {
+    id: "plomp-levelt-erb",
+    label: "Plomp–Levelt (ERB)",
+    description: "Plomp–Levelt curve with the critical band taken from the Glasberg–Moore ERB.",
+    weight: ampToLoudness,
+    kernel: plompLeveltKernel,
+  },
+  {
+    id: "vassilakis",
+    label: "Vassilakis (2001)",
+    description: "Amplitude-fluctuation roughness weighting both the product and the balance of amplitudes.",
+    weight: (amp) => amp,
+    kernel: vassilakisKernel,
+  },
+  {
+    id: "hutchinson-knopoff",
+    label: "Hutchinson–Knopoff (1978)",
+    description: "Amplitude-product weighting over a 1.72·f^0.65 critical bandwidth.",
+    weight: (amp) => amp,
+    kernel: hutchinsonKnopoffKernel,
+  },
+];
+
+export function getRoughnessModel(id: RoughnessModelId): RoughnessModel {
+  return ROUGHNESS_MODELS.find((model) => model.id === id) ?? SETHARES_MODEL;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { extractSpectrum, fft, mixToMono } from "./sampleSpectrum";
+
+const SAMPLE_RATE = 44100;
+
+function sumOfSines(partials: { frequency: number; amplitude: number }[], seconds: number) {
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    samples[i] = partials.reduce((sum, { frequency, amplitude }) => sum + amplitude * Math.sin(2 * Math.PI * frequency * t), 0);
+  }
+  return samples;
+}
+
+describe("fft", () => {
+  it("matches a direct DFT", () => {
+    const input = Array.from({ length: 16 }, (_, idx) => Math.sin(idx * 0.7) + 0.3 * Math.cos(idx * 2.1));
+    const re = Float64Array.from(input);
+    const im = new Float64Array(16);
+    fft(re, im);
+    for (let k = 0; k < 16; k++) {
+      const expectedRe = input.reduce((sum, value, n) => sum + value * Math.cos((-2 * Math.PI * k * n) / 16), 0);
+      const expectedIm = input.reduce((sum, value, n) => sum + value * Math.sin((-2 * Math.PI * k * n) / 16), 0);
+      expect(re[k]).toBeCloseTo(expectedRe, 10);
+      expect(im[k]).toBeCloseTo(expectedIm, 10);
+    }
+  });
+});
+
+describe("extractSpectrum", () => {
+  it("recovers the fundamental and the partial ratios and levels of an inharmonic tone", () => {
+    const partials = [
+      { frequency: 220, amplitude: 1 },
+      { frequency: 220 * 2.76, amplitude: 0.5 },
+      { frequency: 220 * 5.4, amplitude: 0.25 },
+    ];
+    const spectrum = extractSpectrum(sumOfSines(partials, 1), SAMPLE_RATE);
+
+    expect(spectrum.fundamental).toBeCloseTo(220, 0);
+    expect(spectrum.partials).toHaveLength(3);
+    spectrum.partials.forEach((partial, idx) => {
+      expect(partial.ratio).toBeCloseTo(partials[idx].frequency / 220, 2);
+      expect(partial.amplitude).toBeCloseTo(partials[idx].amplitude, 1);
+    });
+  });
+
+  it("takes a weak but audible lowest peak as the fundamental", () => {
+    const spectrum = extractSpectrum(
+      sumOfSines([{ frequency: 150, amplitude: 0.3 }, { frequency: 300, amplitude: 1 }], 0.5),
+      SAMPLE_RATE
+    );
+    expect(spectrum.fundamental).toBeCloseTo(150, 0);
+    expect(spectrum.partials.map(({ ratio }) => ratio)).toEqual([1, expect.closeTo(2, 2)]);
+  });
+
+  it("throws on short or silent samples", () => {
+    expect(() => extractSpectrum(new Float32Array(100), SAMPLE_RATE)).toThrow("too short");
+    expect(() => extractSpectrum(new Float32Array(4096), SAMPLE_RATE)).toThrow("No clear partials");
+  });
+});
+
+describe("mixToMono", () => {
+  it("averages the channels", () => {
+    expect(Array.from(mixToMono([Float32Array.from([1, 0]), Float32Array.from([0, -1])]))).toEqual([0.5, -0.5]);
+  });
+});
@@ -0,0 +1,185 @@
+import type { SpectrumPartial } from "./types";
+
+export type SpectrumExtractionOptions = {
+  /** Keep at most this many of the strongest peaks. */
+  maxPartials?: number;
+  /** Peaks quieter than this many dB below the strongest one are ignored. */
+  floorDb?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+};
+
+export type SpectrumPeak = { frequency: number; amplitude: number };
+
+export type ExtractedSpectrum = {
+  /** Estimated fundamental in Hz; partial ratios are relative to it. */
+  fundamental: number;
+  /** Ratio over the fundamental and amplitude normalised so the strongest peak is 1. */
+  partials: SpectrumPartial[];
+  peaks: SpectrumPeak[];
+};
+
+const MAX_FRAME_SIZE = 32768;
+const MIN_FRAME_SIZE = 1024;
+const MAX_FRAMES = 6;
+const PEAK_NEIGHBOURHOOD = 3;
+// The fundamental is the lowest peak within this many dB of the strongest one.
+const FUNDAMENTAL_FLOOR_DB = 20;
+
+/** In-place iterative radix-2 FFT; `re.length` must be a power of two. */
+export function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/** Averages the channels of a decoded buffer into one. */
+export function mixToMono(channels: Float32Array[]) {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  channels.forEach((channel) => channel.forEach((value, idx) => { mono[idx] += value / channels.length; }));
+  return mono;
+}
+
+function largestPowerOfTwo(limit: number) {
+  let size = MIN_FRAME_SIZE;
+  while (size * 2 <= limit) size *= 2;
+  return size;
+}
+
+/**
+ * Hann-windowed magnitude spectrum averaged over a few overlapping frames, starting where the
+ * sample is loudest so the analysis skips leading silence but keeps the ringing partials.
+ */
+function averagedMagnitudes(samples: Float32Array, frameSize: number) {
+  const hop = frameSize / 2;
+  let loudestStart = 0;
+  let loudestEnergy = -1;
+  for (let start = 0; start + hop <= samples.length; start += hop) {
+    let energy = 0;
+    for (let i = start; i < start + hop; i++) energy += samples[i] * samples[i];
+    if (energy > loudestEnergy) {
+      loudestEnergy = energy;
+      loudestStart = start;
+    }
+  }
+  const firstFrame = Math.min(loudestStart, Math.max(samples.length - frameSize, 0));
+
+  const magnitudes = new Float64Array(frameSize / 2);
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  let frames = 0;
+  for (let start = firstFrame; start + frameSize <= samples.length && frames < MAX_FRAMES; start += hop) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1)));
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) magnitudes[k] += Math.hypot(re[k], im[k]);
+    frames++;
+  }
+  return magnitudes;
+}
+
+/**
+ * Picks spectral peaks as local maxima over a few bins, refining frequency and level by
+ * parabolic interpolation of the log magnitudes around each maximum.
+ */
+function pickPeaks(magnitudes: Float64Array, binHz: number, minFrequency: number, maxFrequency: number, floorDb: number) {
+  const strongest = magnitudes.reduce((max, value) => Math.max(max, value), 0);
+  if (strongest <= 0) return [];
+  const floor = strongest * Math.pow(10, -floorDb / 20);
+  const firstBin = Math.max(Math.ceil(minFrequency / binHz), PEAK_NEIGHBOURHOOD);
+  const lastBin = Math.min(Math.floor(maxFrequency / binHz), magnitudes.length - 1 - PEAK_NEIGHBOURHOOD);
+
+  const peaks: SpectrumPeak[] = [];
+  for (let k = firstBin; k <= lastBin; k++) {
+    const value = magnitudes[k];
+    if (value < floor) continue;
+    let isMaximum = true;
+    for (let offset = 1; offset <= PEAK_NEIGHBOURHOOD && isMaximum; offset++) {
+      isMaximum = value > magnitudes[k - offset] && value >= magnitudes[k + offset];
+    }
+    if (!isMaximum) continue;
+
+    const alpha = Math.log(magnitudes[k - 1] + 1e-12);
+    const beta = Math.log(value);
+    const gamma = Math.log(magnitudes[k + 1] + 1e-12);
+    const denominator = alpha - 2 * beta + gamma;
+    const shift = denominator !== 0 ? (0.5 * (alpha - gamma)) / denominator : 0;
+    peaks.push({
+      frequency: (k + shift) * binHz,
+      amplitude: Math.exp(beta - 0.25 * (alpha - gamma) * shift),
+    });
+  }
+  return peaks;
+}
+
+/**
+ * Estimates the partials of a recorded note: FFT, peak picking, then ratios over the lowest strong
+ * peak. Works for inharmonic sources (bells, bars) as well as strings, since no harmonic series
+ * is assumed. Throws when the sample is too short or silent.
+ */
+export function extractSpectrum(
+  samples: Float32Array,
+  sampleRate: number,
+  { maxPartials = 12, floorDb = 40, minFrequency = 30, maxFrequency = 8000 }: SpectrumExtractionOptions = {}
+): ExtractedSpectrum {
+  if (samples.length < MIN_FRAME_SIZE) {
+    throw new Error("The sample is too short to analyse");
+  }
+
+  const frameSize = largestPowerOfTwo(Math.min(samples.length, MAX_FRAME_SIZE));
+  const binHz = sampleRate / frameSize;
+  const peaks = pickPeaks(averagedMagnitudes(samples, frameSize), binHz, minFrequency, Math.min(maxFrequency, sampleRate / 2), floorDb);
+  if (!peaks.length) {
+    throw new Error("No clear partials found; is the sample silent?");
+  }
+
+  const strongest = Math.max(...peaks.map((peak) => peak.amplitude));
+  const kept = peaks
+    .slice()
+    .sort((a, b) => b.amplitude - a.amplitude)
+    .slice(0, maxPartials)
+    .sort((a, b) => a.frequency - b.frequency);
+  const fundamentalFloor = strongest * Math.pow(10, -FUNDAMENTAL_FLOOR_DB / 20);
+  const fundamental = kept.find((peak) => peak.amplitude >= fundamentalFloor)?.frequency ?? kept[0].frequency;
+
+  return {
+    fundamental,
+    partials: kept
+      .filter((peak) => peak.frequency >= fundamental * 0.999)
+      .map((peak) => ({ ratio: peak.frequency / fundamental, amplitude: peak.amplitude / strongest })),
+    peaks: kept,
+  };
+}
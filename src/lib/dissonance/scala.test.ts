@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { formatKbm, formatScl, mappingRootFrequency, parseKbm, parseScl, scalaPitchFromCents } from "./scala";
+
+const JUST_MAJOR = `! just-major.scl
+!
+Just major scale
+ 7
+!
+ 9/8
+ 5/4
+ 4/3
+ 3/2
+ 5/3
+ 15/8
+ 2/1
+`;
+
+function kbm(lines: (string | number)[]) {
+  return ["! test.kbm", ...lines.map(String), ""].join("\n");
+}
+
+describe("parseScl", () => {
+  it("reads ratios, cents and trailing comments", () => {
+    const scale = parseScl("! x.scl\nQuarter-comma bits\n3\n 5/4 major third\n 696.578\n2\n");
+    expect(scale.description).toBe("Quarter-comma bits");
+    expect(scale.pitches.map(({ text }) => text)).toEqual(["5/4", "696.578", "2"]);
+    expect(scale.pitches[0].cents).toBeCloseTo(386.3137, 4);
+    expect(scale.pitches[1].ratio).toBeCloseTo(Math.pow(2, 696.578 / 1200), 12);
+    expect(scale.pitches[2].ratio).toBe(2);
+  });
+
+  it("reports malformed input with the line it is on", () => {
+    expect(() => parseScl("! only a comment\n")).toThrow("needs a description line and a note count");
+    expect(() => parseScl("desc\nseven\n")).toThrow('Line 2: note count "seven" must be a non-negative integer');
+    expect(() => parseScl("desc\n2\n9/8\nfoo\n")).toThrow('Line 4: "foo" is neither a ratio');
+    expect(() => parseScl("desc\n1\n3/0\n")).toThrow('Line 3: "3/0" must be a positive ratio');
+    expect(() => parseScl("desc\n1\n1.2.3\n")).toThrow('Line 3: "1.2.3" is not a valid cents value');
+    expect(() => parseScl("desc\n3\n9/8\n5/4\n")).toThrow("Expected 3 pitches but found 2");
+    expect(() => parseScl("desc\n2000\n")).toThrow("more than the 1024 supported");
+  });
+
+  it("round-trips through formatScl", () => {
+    const scale = parseScl(JUST_MAJOR);
+    expect(parseScl(formatScl("again.scl", scale))).toEqual(scale);
+
+    const tempered = { description: "12-EDO", pitches: Array.from({ length: 12 }, (_, idx) => scalaPitchFromCents(100 * (idx + 1))) };
+    const parsed = parseScl(formatScl("12edo.scl", tempered));
+    expect(parsed.pitches.map(({ text }) => text)).toEqual(tempered.pitches.map(({ text }) => text));
+    parsed.pitches.forEach((pitch, idx) => expect(pitch.ratio).toBeCloseTo(tempered.pitches[idx].ratio, 12));
+  });
+});
+
+describe("parseKbm", () => {
+  it("reads the header and maps x to unmapped keys, padding a short map", () => {
+    const mapping = parseKbm(kbm([4, 0, 127, 60, 69, 440, 7, 0, "x", 2]));
+    expect(mapping).toEqual({
+      size: 4,
+      firstNote: 0,
+      lastNote: 127,
+      middleNote: 60,
+      referenceNote: 69,
+      referenceFrequency: 440,
+      octaveDegree: 7,
+      mapping: [0, null, 2, null],
+    });
+  });
+
+  it("reports malformed input with the line it is on", () => {
+    expect(() => parseKbm(kbm([0, 0, 127]))).toThrow("needs seven header values");
+    expect(() => parseKbm(kbm([0, 0, 128, 60, 69, 440, 12]))).toThrow("Line 4: last MIDI note must be an integer between 0 and 127");
+    expect(() => parseKbm(kbm([0, 0, 127, 60, 69, -5, 12]))).toThrow('Line 7: reference frequency "-5" must be a positive number');
+    expect(() => parseKbm(kbm([1, 0, 127, 60, 69, 440, 12, "y"]))).toThrow("Line 9: mapping entry must be an integer");
+  });
+
+  it("round-trips through formatKbm", () => {
+    expect(parseKbm(formatKbm("out.kbm", 7, 261.6256))).toEqual({
+      size: 7,
+      firstNote: 0,
+      lastNote: 127,
+      middleNote: 60,
+      referenceNote: 60,
+      referenceFrequency: 261.6256,
+      octaveDegree: 7,
+      mapping: [0, 1, 2, 3, 4, 5, 6],
+    });
+  });
+});
+
+describe("mappingRootFrequency", () => {
+  it("is the reference frequency when the reference note is the middle note", () => {
+    expect(mappingRootFrequency(parseKbm(formatKbm("out.kbm", 7, 261.6256)), parseScl(JUST_MAJOR))).toBe(261.6256);
+  });
+
+  it("reads keys as 12-TET semitones without a scale", () => {
+    const mapping = parseKbm(kbm([0, 0, 127, 60, 69, 440, 0]));
+    expect(mappingRootFrequency(mapping)).toBeCloseTo(440 * Math.pow(2, -9 / 12), 9);
+  });
+
+  it("works back through the scale degree and formal octaves of the reference key", () => {
+    const scale = parseScl(JUST_MAJOR);
+    // A4 is nine keys above middle C, on degree 5 (5/3); A5 and A3 are a formal octave either side.
+    const mapping = parseKbm(kbm([12, 0, 127, 60, 69, 440, 7, 0, "x", 1, "x", 2, 3, "x", 4, "x", 5, "x", 6]));
+    expect(mappingRootFrequency(mapping, scale)).toBeCloseTo(264, 9);
+    expect(mappingRootFrequency({ ...mapping, referenceNote: 81, referenceFrequency: 880 }, scale)).toBeCloseTo(264, 9);
+    expect(mappingRootFrequency({ ...mapping, referenceNote: 57, referenceFrequency: 220 }, scale)).toBeCloseTo(264, 9);
+    expect(() => mappingRootFrequency({ ...mapping, referenceNote: 61 }, scale)).toThrow("Reference note 61 is unmapped");
+  });
+});
@@ -0,0 +1,212 @@
+import { centsToRatio, ratioToCents } from "./tuning";
+
+/** One pitch line of a Scala file, kept in the notation it was written in. */
+export type ScalaPitch = {
+  text: string;
+  cents: number;
+  ratio: number;
+};
+
+/** A parsed `.scl` file. `pitches` excludes the implicit 1/1 and ends with the period. */
+export type ScalaScale = {
+  description: string;
+  pitches: ScalaPitch[];
+};
+
+/** A parsed `.kbm` keyboard mapping; `null` entries in `mapping` are unmapped keys. */
+export type KeyboardMapping = {
+  size: number;
+  firstNote: number;
+  lastNote: number;
+  middleNote: number;
+  referenceNote: number;
+  referenceFrequency: number;
+  octaveDegree: number;
+  mapping: (number | null)[];
+};
+
+const MAX_SCALE_SIZE = 1024;
+
+/** Non-comment lines with their 1-based line numbers; `!` starts a comment line. */
+function contentLines(text: string) {
+  return text
+    .split(/\r?\n/u)
+    .map((line, idx) => ({ line: line.trim(), number: idx + 1 }))
+    .filter(({ line }) => !line.startsWith("!"));
+}
+
+function parsePitch(token: string, lineNumber: number): ScalaPitch {
+  if (token.includes(".")) {
+    const cents = Number(token);
+    if (!Number.isFinite(cents)) {
+      throw new Error(`Line ${lineNumber}: "${token}" is not a valid cents value`);
+    }
+    return { text: token, cents, ratio: centsToRatio(cents) };
+  }
+
+  const match = /^(\d+)(?:\/(\d+))?$/u.exec(token);
+  if (!match) {
+    throw new Error(`Line ${lineNumber}: "${token}" is neither a ratio (e.g. 3/2) nor cents (e.g. 701.955)`);
+  }
+  const numerator = Number(match[1]);
+  const denominator = match[2] === undefined ? 1 : Number(match[2]);
+  if (numerator === 0 || denominator === 0) {
+    throw new Error(`Line ${lineNumber}: "${token}" must be a positive ratio`);
+  }
+  const ratio = numerator / denominator;
+  return { text: token, cents: ratioToCents(ratio), ratio };
+}
+
+/** Parses a Scala `.scl` file. Throws with the offending line number on malformed input. */
+export function parseScl(text: string): ScalaScale {
+  const lines = contentLines(text);
+  if (lines.length < 2) {
+    throw new Error("A .scl file needs a description line and a note count");
+  }
+
+  const [descriptionLine, countLine, ...pitchLines] = lines;
+  const countToken = countLine.line.split(/\s+/u)[0];
+  const count = Number(countToken);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Line ${countLine.number}: note count "${countToken}" must be a non-negative integer`);
+  }
+  if (count > MAX_SCALE_SIZE) {
+    throw new Error(`Line ${countLine.number}: ${count} notes is more than the ${MAX_SCALE_SIZE} supported`);
+  }
+
+  const pitches = pitchLines
+    .filter(({ line }) => line.length > 0)
+    .slice(0, count)
+    .map(({ line, number }) => parsePitch(line.split(/\s+/u)[0], number));
+  if (pitches.length < count) {
+    throw new Error(`Expected ${count} pitches but found ${pitches.length}`);
+  }
+
+  return { description: descriptionLine.line, pitches };
+}
+
+function parseInteger(token: string | undefined, label: string, lineNumber: number, min: number, max: number) {
+  const value = Number(token);
+  if (token === undefined || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Line ${lineNumber}: ${label} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/** Parses a Scala `.kbm` keyboard mapping. Throws with the offending line number on malformed input. */
+export function parseKbm(text: string): KeyboardMapping {
+  const lines = contentLines(text).filter(({ line }) => line.length > 0);
+  if (lines.length < 7) {
+    throw new Error("A .kbm file needs seven header values before the mapping");
+  }
+
+  const field = (idx: number) => ({ token: lines[idx].line.split(/\s+/u)[0], number: lines[idx].number });
+  const header = [
+    { label: "map size", min: 0, max: MAX_SCALE_SIZE },
+    { label: "first MIDI note", min: 0, max: 127 },
+    { label: "last MIDI note", min: 0, max: 127 },
+    { label: "middle note", min: 0, max: 127 },
+    { label: "reference note", min: 0, max: 127 },
+  ].map(({ label, min, max }, idx) => parseInteger(field(idx).token, label, field(idx).number, min, max));
+  const [size, firstNote, lastNote, middleNote, referenceNote] = header;
+
+  const frequency = field(5);
+  const referenceFrequency = Number(frequency.token);
+  if (!Number.isFinite(referenceFrequency) || referenceFrequency <= 0) {
+    throw new Error(`Line ${frequency.number}: reference frequency "${frequency.token}" must be a positive number`);
+  }
+  const octave = field(6);
+  const octaveDegree = parseInteger(octave.token, "formal octave degree", octave.number, 0, MAX_SCALE_SIZE);
+
+  const mapping = lines.slice(7, 7 + size).map(({ line, number }) => {
+    const token = line.split(/\s+/u)[0];
+    return token.toLowerCase() === "x" ? null : parseInteger(token, "mapping entry", number, 0, MAX_SCALE_SIZE);
+  });
+  // The format allows a short map: missing trailing entries are unmapped.
+  while (mapping.length < size) mapping.push(null);
+
+  return { size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, octaveDegree, mapping };
+}
+
+/** Ratio of scale degree `degree` above 1/1; degrees past the period repeat it. */
+function degreeRatio(pitches: ScalaPitch[], degree: number) {
+  const size = pitches.length;
+  const periods = Math.floor(degree / size);
+  const step = degree - periods * size;
+  return Math.pow(pitches[size - 1].ratio, periods) * (step === 0 ? 1 : pitches[step - 1].ratio);
+}
+
+/**
+ * Frequency of the mapping's middle note (scale degree 0), worked back from the reference note and
+ * its frequency. Without a scale the keys are read as 12-TET semitones. Throws when the reference
+ * key is unmapped.
+ */
+export function mappingRootFrequency(mapping: KeyboardMapping, scale?: ScalaScale | null) {
+  const pitches = scale?.pitches.length
+    ? scale.pitches
+    : Array.from({ length: 12 }, (_, idx) => scalaPitchFromCents(100 * (idx + 1)));
+  const steps = mapping.referenceNote - mapping.middleNote;
+  if (mapping.size === 0) {
+    return mapping.referenceFrequency / degreeRatio(pitches, steps);
+  }
+
+  const repeats = Math.floor(steps / mapping.size);
+  const degree = mapping.mapping[steps - repeats * mapping.size];
+  if (degree === null) {
+    throw new Error(`Reference note ${mapping.referenceNote} is unmapped, so the root frequency is unknown`);
+  }
+  const octave = degreeRatio(pitches, mapping.octaveDegree || pitches.length);
+  return mapping.referenceFrequency / (degreeRatio(pitches, degree) * Math.pow(octave, repeats));
+}
+
+/** A cents pitch line in the fixed-point form Scala expects (a dot marks it as cents). */
+export function scalaPitchFromCents(cents: number): ScalaPitch {
+  const text = cents.toFixed(6);
+  return { text, cents, ratio: centsToRatio(cents) };
+}
+
+/** Short label for a pitch: ratios as written, cents rounded to a tenth. */
+export function formatScalaPitch(pitch: ScalaPitch) {
+  return pitch.text.includes(".") ? `${pitch.cents.toFixed(1)}¢` : pitch.text;
+}
+
+/** Writes a `.scl` file; `pitches` must exclude 1/1 and end with the period. */
+export function formatScl(filename: string, scale: ScalaScale) {
+  return [
+    `! ${filename}`,
+    "!",
+    scale.description,
+    ` ${scale.pitches.length}`,
+    "!",
+    ...scale.pitches.map((pitch) => ` ${pitch.text}`),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Writes a linear `.kbm` mapping for a scale of `size` notes: every key maps to the next degree,
+ * the degree-0 key sits on `middleNote`, and that key sounds at `referenceFrequency`.
+ */
+export function formatKbm(filename: string, size: number, referenceFrequency: number, middleNote = 60) {
+  return [
+    `! ${filename}`,
+    "!",
+    "! Size of map:",
+    `${size}`,
+    "! First MIDI note number to retune:",
+    "0",
+    "! Last MIDI note number to retune:",
+    "127",
+    "! Middle note where the first entry of the mapping is mapped to:",
+    `${middleNote}`,
+    "! Reference note for which frequency is given:",
+    `${middleNote}`,
+    "! Frequency to tune the above note to:",
+    referenceFrequency.toFixed(6),
+    "! Scale degree to consider as formal octave:",
+    `${size}`,
+    "! Mapping.",
+    ...Array.from({ length: size }, (_, degree) => `${degree}`),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,102 @@
+import { brentMinimize } from "./curveSampling";
+import { nearestFraction } from "./intervals";
+import type { FractionMatch } from "./intervals";
+import { dyadicDissonance } from "./math";
+import { SETHARES_MODEL } from "./roughness";
+import type { RoughnessModel } from "./roughness";
+import { centsToRatio, ratioToCents } from "./tuning";
+import type { Spectrum } from "./types";
+
+export type ScaleOptions = {
+  baseFreq: number;
+  spectrum: Spectrum;
+  model?: RoughnessModel;
+  minRatio?: number;
+  maxRatio?: number;
+  /** Minima closer than this are merged, keeping the deeper one. */
+  mergeCents?: number;
+  samplesPerOctave?: number;
+  maxDenominator?: number;
+};
+
+export type ScaleDegree = {
+  ratio: number;
+  cents: number;
+  /** Curve value normalised to the sweep maximum. */
+  value: number;
+  just: FractionMatch;
+};
+
+type Valley = { cents: number; value: number };
+
+function mergeValleys(valleys: Valley[], mergeCents: number) {
+  const merged: Valley[] = [];
+  for (const valley of valleys) {
+    const previous = merged[merged.length - 1];
+    if (previous && valley.cents - previous.cents < mergeCents) {
+      // The scale root (first valley) always survives a merge.
+      if (merged.length > 1 && valley.value < previous.value) {
+        merged[merged.length - 1] = valley;
+      }
+      continue;
+    }
+    merged.push(valley);
+  }
+  return merged;
+}
+
+/**
+ * Builds a scale from the valleys of the dyadic dissonance curve: the root, every local minimum
+ * inside the range, and the upper endpoint when the curve is still falling into it.
+ */
+export function generateScale({
+  baseFreq,
+  spectrum,
+  model = SETHARES_MODEL,
+  minRatio = 1,
+  maxRatio = 2,
+  mergeCents = 20,
+  samplesPerOctave = 1200,
+  maxDenominator = 32,
+}: ScaleOptions): ScaleDegree[] {
+  const startCents = ratioToCents(minRatio);
+  const endCents = ratioToCents(maxRatio);
+  const count = Math.max(2, Math.ceil(((endCents - startCents) / 1200) * samplesPerOctave));
+  const cents = Array.from({ length: count + 1 }, (_, i) => startCents + ((endCents - startCents) * i) / count);
+  const values = cents.map((c) => dyadicDissonance(baseFreq, centsToRatio(c), spectrum, model));
+  const max = Math.max(...values);
+  const normalized = values.map((value) => (max > 0 ? value / max : 0));
+
+  const valueAt = (c: number) => (max > 0 ? dyadicDissonance(baseFreq, centsToRatio(c), spectrum, model) / max : 0);
+  const valleys: Valley[] = [{ cents: cents[0], value: normalized[0] }];
+  for (let i = 1; i < normalized.length - 1; i++) {
+    if (normalized[i] < normalized[i - 1] && normalized[i] <= normalized[i + 1]) {
+      // Refine between the neighbouring samples so just-ratio valleys land exactly on the ratio.
+      const refined = brentMinimize(valueAt, cents[i - 1], cents[i + 1]);
+      valleys.push(refined.y <= normalized[i] ? { cents: refined.x, value: refined.y } : { cents: cents[i], value: normalized[i] });
+    }
+  }
+  const last = normalized.length - 1;
+  if (normalized[last] < normalized[last - 1]) {
+    valleys.push({ cents: cents[last], value: normalized[last] });
+  }
+
+  return mergeValleys(valleys, mergeCents).map((valley) => {
+    const ratio = centsToRatio(valley.cents);
+    return {
+      ratio,
+      cents: valley.cents - startCents,
+      value: valley.value,
+      just: nearestFraction(ratio / minRatio, maxDenominator),
+    };
+  });
+}
+
+/** Stacked-thirds chord on a degree: degrees i, i + 2, i + 4, folded up by `period` past the top. */
+export function tertianChord(ratios: number[], degree: number, period = 2) {
+  const size = ratios.length;
+  return [0, 2, 4].map((offset) => {
+    const index = degree + offset;
+    return ratios[index % size] * Math.pow(period, Math.floor(index / size));
+  });
+}
@@ -0,0 +1,177 @@
+import type { Spectrum, SpectrumKind, SpectrumPartial, SpectrumPreset, SpectrumSettings } from "./types";
+
+// Free-free beam eigenvalues (beta_n * L); higher modes follow (2n + 1) * pi / 2.
+const FREE_BAR_BETAS = [4.730041, 7.853205, 10.995608, 14.137165, 17.278760];
+
+// Tuned church bell: hum, prime, tierce, quint, nominal, deciem, undeciem, duodeciem, double octave.
+const BELL_RATIOS = [0.5, 1, 1.2, 1.5, 2, 2.5, 8 / 3, 3, 4];
+
+/** `partialCount` is set for kinds built from a fixed table; the others generate any number of partials. */
+export const SPECTRUM_KINDS: { kind: SpectrumKind; label: string; description: string; partialCount?: number }[] = [
+  { kind: "harmonic", label: "Harmonic", description: "Integer multiples k·f0 with a k^-rolloff amplitude law." },
+  { kind: "stretched", label: "Stretched harmonic", description: "Partials at k^stretch·f0 (stretch > 1 widens, < 1 compresses)." },
+  { kind: "odd", label: "Odd harmonics", description: "Clarinet-like spectrum with only odd multiples." },
+  { kind: "free-bar", label: "Free bar", description: "Ideal xylophone/marimba bar with inharmonic modes." },
+  {
+    kind: "bell",
+    label: "Bell",
+    description: "Tuned church bell partials from hum to double octave.",
+    partialCount: BELL_RATIOS.length,
+  },
+  { kind: "custom", label: "Custom", description: "User-specified ratio:amplitude pairs." },
+];
+
+export const DEFAULT_SPECTRUM_SETTINGS: SpectrumSettings = {
+  kind: "harmonic",
+  partials: 1,
+  rolloff: 1,
+  stretch: 1,
+  custom: [
+    { ratio: 1, amplitude: 1 },
+    { ratio: 2.76, amplitude: 0.5 },
+    { ratio: 5.4, amplitude: 0.3 },
+  ],
+};
+
+function rolloffAmplitude(index: number, rolloff: number) {
+  return Math.pow(index + 1, -rolloff);
+}
+
+export function stretchedHarmonicPartials(numPartials: number, rolloff: number, stretch: number): SpectrumPartial[] {
+  return Array.from({ length: numPartials }, (_, idx) => ({
+    ratio: Math.pow(idx + 1, stretch),
+    amplitude: rolloffAmplitude(idx, rolloff),
+  }));
+}
+
+export function oddHarmonicPartials(numPartials: number, rolloff: number): SpectrumPartial[] {
+  return Array.from({ length: numPartials }, (_, idx) => {
+    const k = 2 * idx + 1;
+    return { ratio: k, amplitude: Math.pow(k, -rolloff) };
+  });
+}
+
+export function freeBarPartials(numPartials: number, rolloff: number): SpectrumPartial[] {
+  const fundamental = FREE_BAR_BETAS[0];
+  return Array.from({ length: numPartials }, (_, idx) => {
+    const beta = FREE_BAR_BETAS[idx] ?? ((2 * (idx + 1) + 1) * Math.PI) / 2;
+    return {
+      ratio: Math.pow(beta / fundamental, 2),
+      amplitude: rolloffAmplitude(idx, rolloff),
+    };
+  });
+}
+
+export function bellPartials(numPartials: number, rolloff: number): SpectrumPartial[] {
+  return BELL_RATIOS.slice(0, Math.max(numPartials, 0)).map((ratio, idx) => ({
+    ratio,
+    amplitude: rolloffAmplitude(idx, rolloff),
+  }));
+}
+
+export function spectrumFromPartials(partials: SpectrumPartial[]): Spectrum {
+  return {
+    freq: partials.map((p) => p.ratio),
+    amp: partials.map((p) => p.amplitude),
+  };
+}
+
+export function spectrumToPartials(spectrum: Spectrum): SpectrumPartial[] {
+  return spectrum.freq.map((ratio, idx) => ({ ratio, amplitude: spectrum.amp[idx] ?? 0 }));
+}
+
+export function buildSpectrumPartials(settings: SpectrumSettings): SpectrumPartial[] {
+  const { kind, partials, rolloff, stretch } = settings;
+  switch (kind) {
+    case "harmonic":
+      return stretchedHarmonicPartials(partials, rolloff, 1);
+    case "stretched":
+      return stretchedHarmonicPartials(partials, rolloff, stretch);
+    case "odd":
+      return oddHarmonicPartials(partials, rolloff);
+    case "free-bar":
+      return freeBarPartials(partials, rolloff);
+    case "bell":
+      return bellPartials(partials, rolloff);
+    case "custom":
+      return settings.custom;
+  }
+}
+
+export function buildSpectrum(settings: SpectrumSettings): Spectrum {
+  return spectrumFromPartials(buildSpectrumPartials(settings));
+}
+
+export function formatPartialList(partials: SpectrumPartial[]) {
+  return partials
+    .map((p) => `${Number(p.ratio.toFixed(4))}:${Number(p.amplitude.toFixed(4))}`)
+    .join(", ");
+}
+
+/**
+ * Parses "ratio:amplitude" pairs separated by commas, semicolons or newlines.
+ * A bare ratio gets amplitude 1. Throws with a message naming the offending entry.
+ */
+export function parsePartialList(text: string): SpectrumPartial[] {
+  const entries = text.split(/[,;\n]+/u).map((entry) => entry.trim()).filter(Boolean);
+  if (!entries.length) {
+    throw new Error("Enter at least one partial, e.g. 1:1, 2.76:0.5");
+  }
+
+  return entries.map((entry) => {
+    const [ratioText, amplitudeText = "1"] = entry.split(":").map((part) => part.trim());
+    const ratio = Number(ratioText);
+    const amplitude = Number(amplitudeText);
+    if (!Number.isFinite(ratio) || ratio <= 0) {
+      throw new Error(`"${entry}" needs a positive frequency ratio`);
+    }
+    if (!Number.isFinite(amplitude) || amplitude <= 0) {
+      throw new Error(`"${entry}" needs a positive amplitude`);
+    }
+    return { ratio, amplitude };
+  });
+}
+
+export const SPECTRUM_PRESET_FORMAT = "physics-dissonance/spectrum";
+
+export function serializeSpectrumPreset(name: string, partials: SpectrumPartial[]) {
+  const preset: SpectrumPreset = { format: SPECTRUM_PRESET_FORMAT, version: 1, name, partials };
+  return JSON.stringify(preset, null, 2);
+}
+
+/** Reads a spectrum preset file written by `serializeSpectrumPreset`. Throws with a readable message. */
+export function parseSpectrumPreset(text: string): SpectrumPreset {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Preset is not valid JSON");
+  }
+
+  const preset = data as Partial<SpectrumPreset> | null;
+  if (!preset || preset.format !== SPECTRUM_PRESET_FORMAT) {
+    throw new Error("File is not a spectrum preset");
+  }
+  if (preset.version !== 1) {
+    throw new Error(`Unsupported preset version ${String(preset.version)}`);
+  }
+  if (!Array.isArray(preset.partials) || !preset.partials.length) {
+    throw new Error("Preset has no partials");
+  }
+
+  const partials = preset.partials.map((partial, idx) => {
+    const ratio = Number(partial?.ratio);
+    const amplitude = Number(partial?.amplitude);
+    if (!Number.isFinite(ratio) || ratio <= 0 || !Number.isFinite(amplitude) || amplitude <= 0) {
+      throw new Error(`Partial ${idx + 1} needs a positive ratio and amplitude`);
+    }
+    return { ratio, amplitude };
+  });
+
+  return {
+    format: SPECTRUM_PRESET_FORMAT,
+    version: 1,
+    name: typeof preset.name === "string" ? preset.name : "Imported spectrum",
+    partials,
+  };
+}
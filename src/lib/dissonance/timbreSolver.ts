@@ -0,0 +1,152 @@
+import { dyadicDissonance } from "./math";
+import { SETHARES_MODEL } from "./roughness";
+import type { RoughnessModel } from "./roughness";
+import { spectrumFromPartials } from "./spectra";
+import { centsToRatio, ratioToCents } from "./tuning";
+import type { SpectrumPartial } from "./types";
+
+export type TimbreSolverOptions = {
+  baseFreq: number;
+  /** Scale degrees in cents above the root, within one period (0 may be omitted). */
+  scaleCents: number[];
+  periodCents: number;
+  partials: number;
+  model?: RoughnessModel;
+  rounds?: number;
+};
+
+export type ScaleStepCheck = {
+  cents: number;
+  ratio: number;
+  value: number;
+  isMinimum: boolean;
+};
+
+export type TimbreSolution = {
+  partials: SpectrumPartial[];
+  cost: number;
+  steps: ScaleStepCheck[];
+};
+
+const MIN_AMPLITUDE = 0.02;
+const AMPLITUDE_FACTORS = [0.5, 0.8, 1.25, 2];
+const VALUE_WEIGHT = 0.1;
+
+/** Every pitch of the scale repeated across periods, ascending, starting at the root. */
+function scaleLattice(scaleCents: number[], periodCents: number, upToCents: number) {
+  const degrees = Array.from(new Set([0, ...scaleCents.map((c) => ((c % periodCents) + periodCents) % periodCents)]))
+    .sort((a, b) => a - b);
+  const lattice: number[] = [];
+  for (let period = 0; period * periodCents <= upToCents + periodCents; period++) {
+    degrees.forEach((degree) => lattice.push(period * periodCents + degree));
+  }
+  return lattice;
+}
+
+/**
+ * Sethares-style partial placement: the k-th harmonic is moved to the nearest pitch of the scale
+ * lattice, so the spectrum "speaks" the scale's intervals. Duplicate positions are dropped.
+ */
+export function scaleAlignedPartials(scaleCents: number[], periodCents: number, count: number): SpectrumPartial[] {
+  const highest = ratioToCents(count * 2);
+  const lattice = scaleLattice(scaleCents, periodCents, highest);
+  const used = new Set<number>();
+  const partials: SpectrumPartial[] = [];
+
+  for (let k = 1; partials.length < count && k <= count * 4; k++) {
+    const target = ratioToCents(k);
+    let nearest = lattice[0];
+    for (const cents of lattice) {
+      if (Math.abs(cents - target) < Math.abs(nearest - target)) nearest = cents;
+    }
+    const key = Math.round(nearest * 1000);
+    if (used.has(key)) continue;
+    used.add(key);
+    partials.push({ ratio: centsToRatio(nearest), amplitude: Math.pow(k, -1) });
+  }
+
+  return partials;
+}
+
+function stepTargets(scaleCents: number[], periodCents: number) {
+  const degrees = Array.from(new Set(scaleCents.map((c) => ((c % periodCents) + periodCents) % periodCents)))
+    .filter((c) => c > 1e-6)
+    .sort((a, b) => a - b);
+  return [...degrees, periodCents];
+}
+
+/**
+ * Scores how well a spectrum's dissonance curve dips at each scale step: a step that sits above
+ * either of its near neighbours is penalised by the gap, and all steps carry a small value term.
+ */
+function evaluate(
+  baseFreq: number,
+  partials: SpectrumPartial[],
+  targets: number[],
+  probeCents: number,
+  model: RoughnessModel
+) {
+  const spectrum = spectrumFromPartials(partials);
+  const measured = targets.map((cents) => ({
+    cents,
+    ratio: centsToRatio(cents),
+    value: dyadicDissonance(baseFreq, centsToRatio(cents), spectrum, model),
+    lower: dyadicDissonance(baseFreq, centsToRatio(cents - probeCents), spectrum, model),
+    upper: dyadicDissonance(baseFreq, centsToRatio(cents + probeCents), spectrum, model),
+  }));
+  const reference = Math.max(...measured.flatMap((step) => [step.value, step.lower, step.upper]), 1e-12);
+
+  let cost = 0;
+  const steps: ScaleStepCheck[] = measured.map((step) => {
+    const neighbour = Math.min(step.lower, step.upper);
+    cost += (Math.max(step.value - neighbour, 0) + VALUE_WEIGHT * step.value) / reference;
+    return {
+      cents: step.cents,
+      ratio: step.ratio,
+      value: step.value / reference,
+      isMinimum: step.value <= neighbour,
+    };
+  });
+
+  return { cost, steps };
+}
+
+/**
+ * Searches for a spectrum whose dyadic dissonance curve has minima on the given scale: partials
+ * are placed on the scale lattice, then amplitudes are tuned by coordinate descent.
+ */
+export function solveTimbreForScale({
+  baseFreq,
+  scaleCents,
+  periodCents,
+  partials: partialCount,
+  model = SETHARES_MODEL,
+  rounds = 6,
+}: TimbreSolverOptions): TimbreSolution {
+  const targets = stepTargets(scaleCents, periodCents);
+  const smallestStep = targets.reduce((min, cents, idx) => Math.min(min, cents - (targets[idx - 1] ?? 0)), periodCents);
+  const probeCents = Math.min(15, smallestStep / 3);
+
+  let partials = scaleAlignedPartials(scaleCents, periodCents, partialCount);
+  let best = evaluate(baseFreq, partials, targets, probeCents, model);
+
+  for (let round = 0; round < rounds; round++) {
+    let improved = false;
+    for (let idx = 1; idx < partials.length; idx++) {
+      for (const factor of AMPLITUDE_FACTORS) {
+        const amplitude = Math.min(1, Math.max(MIN_AMPLITUDE, partials[idx].amplitude * factor));
+        if (amplitude === partials[idx].amplitude) continue;
+        const candidate = partials.map((partial, j) => (j === idx ? { ...partial, amplitude } : partial));
+        const result = evaluate(baseFreq, candidate, targets, probeCents, model);
+        if (result.cost < best.cost - 1e-9) {
+          partials = candidate;
+          best = result;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return { partials, cost: best.cost, steps: best.steps };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { MidiNote } from "@/lib/midi/smf";
+import { spectrumFromHarmonics } from "./math";
+import { buildRoughnessTimeline, segmentNoteNames, timelineToCsv } from "./timeline";
+
+const spectrum = spectrumFromHarmonics(1, 4, 1);
+
+function note(pitch: number, start: number, end: number): MidiNote {
+  return { track: 0, channel: 0, note: pitch, velocity: 100, start, end };
+}
+
+describe("buildRoughnessTimeline", () => {
+  it("splits at every onset and offset and skips silence", () => {
+    const segments = buildRoughnessTimeline(
+      [note(60, 0, 2), note(64, 1, 3), note(67, 1, 2), note(72, 4, 5)],
+      spectrum
+    );
+    expect(segments.map(({ start, end, notes }) => [start, end, notes])).toEqual([
+      [0, 1, [60]],
+      [1, 2, [60, 64, 67]],
+      [2, 3, [64]],
+      [4, 5, [72]],
+    ]);
+  });
+
+  it("keeps a pitch sounding while any of its overlapping notes is held", () => {
+    const segments = buildRoughnessTimeline([note(60, 0, 2), note(60, 1, 3), note(62, 0, 0)], spectrum);
+    expect(segments.map(({ start, end, notes }) => [start, end, notes])).toEqual([
+      [0, 1, [60]],
+      [1, 2, [60]],
+      [2, 3, [60]],
+    ]);
+  });
+
+  it("tunes note numbers from the concert pitch", () => {
+    const [segment] = buildRoughnessTimeline([note(69, 0, 1)], spectrum, undefined, 415);
+    expect(segment.baseFrequency).toBeCloseTo(415, 9);
+  });
+});
+
+describe("timelineToCsv", () => {
+  it("names the notes with the chosen naming", () => {
+    const segments = buildRoughnessTimeline([note(57, 0, 1), note(61, 0, 1)], spectrum);
+    expect(segmentNoteNames(segments[0])).toEqual(["A3", "C#4"]);
+    expect(timelineToCsv(segments, { concertPitch: 440, system: "edo", edo: 12 })).toContain(",0\\12 4\\12,");
+  });
+});
@@ -0,0 +1,87 @@
+import type { MidiNote } from "@/lib/midi/smf";
+import { chordDissonance, midiToFrequency } from "./math";
+import { DEFAULT_NOTE_NAMING, ratioToNoteName } from "./noteNames";
+import type { NoteNaming } from "./noteNames";
+import { SETHARES_MODEL } from "./roughness";
+import type { RoughnessModel } from "./roughness";
+import type { Spectrum } from "./types";
+
+/** A stretch of the piece between two consecutive onsets/offsets, with a constant set of sounding notes. */
+export type TimelineSegment = {
+  start: number;
+  end: number;
+  /** Sounding MIDI note numbers, ascending and de-duplicated. */
+  notes: number[];
+  baseFrequency: number;
+  /** Ratios of each sounding note over the lowest one, root included. */
+  ratios: number[];
+  dissonance: number;
+};
+
+/**
+ * Splits the notes into windows at every onset and offset and scores each window's sounding chord
+ * with N-voice roughness over its lowest note. Silent windows are dropped. The onsets and offsets
+ * are sorted once and swept with a count of sounding notes per pitch, so long files stay linear
+ * apart from the sort. Note numbers are tuned to 12-TET from `concertPitch` (A4).
+ */
+export function buildRoughnessTimeline(
+  notes: MidiNote[],
+  spectrum: Spectrum,
+  model: RoughnessModel = SETHARES_MODEL,
+  concertPitch = DEFAULT_NOTE_NAMING.concertPitch
+): TimelineSegment[] {
+  const events = notes
+    .flatMap((note) => [
+      { time: note.start, note: note.note, delta: 1 },
+      { time: note.end, note: note.note, delta: -1 },
+    ])
+    .sort((a, b) => a.time - b.time);
+  const active = new Map<number, number>();
+  const segments: TimelineSegment[] = [];
+
+  let cursor = 0;
+  while (cursor < events.length) {
+    const start = events[cursor].time;
+    for (; cursor < events.length && events[cursor].time === start; cursor++) {
+      const { note, delta } = events[cursor];
+      const count = (active.get(note) ?? 0) + delta;
+      if (count > 0) active.set(note, count);
+      else active.delete(note);
+    }
+    if (cursor === events.length || !active.size) continue;
+
+    const end = events[cursor].time;
+    const sounding = Array.from(active.keys()).sort((a, b) => a - b);
+    const baseFrequency = midiToFrequency(sounding[0], concertPitch);
+    const ratios = sounding.map((note) => midiToFrequency(note, concertPitch) / baseFrequency);
+    segments.push({
+      start,
+      end,
+      notes: sounding,
+      baseFrequency,
+      ratios,
+      dissonance: chordDissonance(baseFrequency, ratios, spectrum, model),
+    });
+  }
+
+  return segments;
+}
+
+/** Notes of a segment named over its lowest note, so HEJI and EDO spellings follow the chord. */
+export function segmentNoteNames(segment: TimelineSegment, naming: NoteNaming = DEFAULT_NOTE_NAMING) {
+  return segment.ratios.map((ratio) => ratioToNoteName(ratio, segment.baseFrequency, naming));
+}
+
+export function timelineToCsv(segments: TimelineSegment[], naming: NoteNaming = DEFAULT_NOTE_NAMING) {
+  const rows = segments.map((segment) =>
+    [
+      segment.start.toFixed(4),
+      segment.end.toFixed(4),
+      segment.notes.length,
+      segmentNoteNames(segment, naming).join(" "),
+      segment.baseFrequency.toFixed(3),
+      segment.dissonance.toFixed(6),
+    ].join(",")
+  );
+  return ["start_s,end_s,voices,notes,base_hz,dissonance", ...rows].join("\n") + "\n";
+}
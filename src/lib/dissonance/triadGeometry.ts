@@ -0,0 +1,114 @@
+import type { TriadSurface } from "./math";
+
+/**
+ * Geometry of the "interval triangle": a triad 1 : r : s (r ≤ s ≤ 2) is placed by its lower
+ * interval x = cents(r) and upper interval y = cents(s / r), sheared so that the three edges
+ * (x = 0, y = 0 and x + y = 1200) form an equilateral triangle, as in Tymoczko's chord-type plots.
+ * Wider ranges scale the triangle: its span is the outer interval of the widest chord.
+ */
+export const TRIANGLE_SPAN_CENTS = 1200;
+
+const HEIGHT_FACTOR = Math.sqrt(3) / 2;
+
+export type TrianglePoint = { u: number; v: number };
+
+/** Lower and upper interval in cents, with the voices put in ascending order first. */
+export function triadIntervals(r: number, s: number) {
+  const [low, high] = r <= s ? [r, s] : [s, r];
+  return { lower: 1200 * Math.log2(low), upper: 1200 * Math.log2(high / low) };
+}
+
+export function intervalsToTriangle(lower: number, upper: number): TrianglePoint {
+  return { u: lower + upper / 2, v: upper * HEIGHT_FACTOR };
+}
+
+export function triadToTriangle(r: number, s: number): TrianglePoint {
+  const { lower, upper } = triadIntervals(r, s);
+  return intervalsToTriangle(lower, upper);
+}
+
+/** Span in cents of the triangle that holds a surface, from its largest ratio. */
+export function surfaceSpanCents({ ratios }: TriadSurface) {
+  return 1200 * Math.log2(ratios[ratios.length - 1] ?? 2);
+}
+
+/** Inverse of `triadToTriangle`; null outside the triangle (allowing a small tolerance). */
+export function triangleToTriad(
+  u: number,
+  v: number,
+  tolerance = 1e-6,
+  span = TRIANGLE_SPAN_CENTS
+): readonly [number, number] | null {
+  const upper = v / HEIGHT_FACTOR;
+  const lower = u - upper / 2;
+  if (lower < -tolerance || upper < -tolerance || lower + upper > span + tolerance) return null;
+  const r = Math.pow(2, Math.max(lower, 0) / 1200);
+  return [r, r * Math.pow(2, Math.max(upper, 0) / 1200)];
+}
+
+/**
+ * Bilinear interpolation on a surface grid; (r, s) are clamped to the grid's range. The grid
+ * may be spaced linearly or logarithmically, so cells are found by binary search.
+ */
+export function interpolateSurface({ ratios, values }: TriadSurface, r: number, s: number) {
+  const last = ratios.length - 1;
+  if (last < 1) return values[0]?.[0] ?? 0;
+  const position = (ratio: number) => {
+    const clamped = Math.min(ratios[last], Math.max(ratios[0], ratio));
+    let low = 0;
+    let high = last;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (ratios[mid] <= clamped) low = mid;
+      else high = mid;
+    }
+    return { index: low, t: (clamped - ratios[low]) / (ratios[low + 1] - ratios[low]) };
+  };
+  const a = position(r);
+  const b = position(s);
+  const v00 = values[a.index][b.index];
+  const v01 = values[a.index][b.index + 1];
+  const v10 = values[a.index + 1][b.index];
+  const v11 = values[a.index + 1][b.index + 1];
+  return (v00 * (1 - b.t) + v01 * b.t) * (1 - a.t) + (v10 * (1 - b.t) + v11 * b.t) * a.t;
+}
+
+/**
+ * Resamples a surface onto a regular (u, v) grid covering the interval triangle, for heatmap and
+ * contour traces. Cells outside the triangle are null so they render as gaps.
+ */
+export function surfaceToTriangleGrid(surface: TriadSurface, columns = 161) {
+  const span = surfaceSpanCents(surface);
+  const height = span * HEIGHT_FACTOR;
+  const rows = Math.max(2, Math.round(columns * HEIGHT_FACTOR));
+  const u = Array.from({ length: columns }, (_, idx) => (idx / (columns - 1)) * span);
+  const v = Array.from({ length: rows }, (_, idx) => (idx / (rows - 1)) * height);
+  // Half a cell of slack keeps the edge cells filled.
+  const tolerance = span / (columns - 1) / 2;
+  const z = v.map((vy) =>
+    u.map((ux) => {
+      const triad = triangleToTriad(ux, vy, tolerance, span);
+      return triad ? interpolateSurface(surface, triad[0], triad[1]) : null;
+    })
+  );
+  return { u, v, z };
+}
+
+/**
+ * Guide lines every `stepCents` for the three interval families (lower, upper and outer interval),
+ * as one polyline with null breaks so a single scatter trace can draw them.
+ */
+export function triangleGuideLines(stepCents = 100, span = TRIANGLE_SPAN_CENTS) {
+  const u: (number | null)[] = [];
+  const v: (number | null)[] = [];
+  const push = (from: TrianglePoint, to: TrianglePoint) => {
+    u.push(from.u, to.u, null);
+    v.push(from.v, to.v, null);
+  };
+  for (let c = stepCents; c < span - 1e-6; c += stepCents) {
+    push(intervalsToTriangle(c, 0), intervalsToTriangle(c, span - c));
+    push(intervalsToTriangle(0, c), intervalsToTriangle(span - c, c));
+    push(intervalsToTriangle(c, 0), intervalsToTriangle(0, c));
+  }
+  return { u, v };
+}
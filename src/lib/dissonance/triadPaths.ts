@@ -0,0 +1,69 @@
+/** A chord on the triad plane: the ratios (r, s) of the two upper voices over the root. */
+export type TriadPoint = readonly [number, number];
+
+export type TriadPathKind = "segment" | "circle" | "minima";
+
+export const TRIAD_PATH_KINDS: { kind: TriadPathKind; label: string }[] = [
+  { kind: "segment", label: "Straight segment" },
+  { kind: "circle", label: "Circle around a chord" },
+  { kind: "minima", label: "Polyline through minima" },
+];
+
+const DEFAULT_PATH_SAMPLES = 240;
+
+function distance(a: TriadPoint, b: TriadPoint) {
+  return Math.hypot(b[0] - a[0], b[1] - a[1]);
+}
+
+/** Resamples a polyline to `count` points evenly spaced by arc length. */
+export function resamplePath(points: TriadPoint[], count = DEFAULT_PATH_SAMPLES): TriadPoint[] {
+  if (points.length < 2) return points.slice();
+
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + distance(points[i - 1], points[i]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (total <= 0) return points.slice(0, 1);
+
+  const resampled: TriadPoint[] = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (segment < points.length - 1 && cumulative[segment] < target) segment++;
+    const span = cumulative[segment] - cumulative[segment - 1];
+    const t = span > 0 ? (target - cumulative[segment - 1]) / span : 0;
+    const [ax, ay] = points[segment - 1];
+    const [bx, by] = points[segment];
+    resampled.push([ax + (bx - ax) * t, ay + (by - ay) * t]);
+  }
+  return resampled;
+}
+
+export function segmentPath(from: TriadPoint, to: TriadPoint, count = DEFAULT_PATH_SAMPLES) {
+  return resamplePath([from, to], count);
+}
+
+/** A closed loop around `center`, starting and ending due east; points are clamped to the plane's range. */
+export function circlePath(center: TriadPoint, radius: number, minRatio: number, maxRatio: number, count = DEFAULT_PATH_SAMPLES) {
+  const clamp = (value: number) => Math.min(maxRatio, Math.max(minRatio, value));
+  return Array.from({ length: count }, (_, i): TriadPoint => {
+    const angle = (2 * Math.PI * i) / (count - 1);
+    return [clamp(center[0] + radius * Math.cos(angle)), clamp(center[1] + radius * Math.sin(angle))];
+  });
+}
+
+export function polylinePath(points: TriadPoint[], count = DEFAULT_PATH_SAMPLES) {
+  return resamplePath(points, count);
+}
+
+/** Position on an evenly sampled path at `progress` in [0, 1], interpolating between samples. */
+export function pointAlongPath(path: TriadPoint[], progress: number): TriadPoint {
+  const position = Math.min(Math.max(progress, 0), 1) * (path.length - 1);
+  const index = Math.min(Math.floor(position), path.length - 2);
+  if (index < 0) return path[0];
+  const t = position - index;
+  const [ax, ay] = path[index];
+  const [bx, by] = path[index + 1];
+  return [ax + (bx - ax) * t, ay + (by - ay) * t];
+}
@@ -0,0 +1,29 @@
+import { computeTriadSurface } from "./math";
+import { getRoughnessModel } from "./roughness";
+import { refinementSteps } from "./triadSurfaceJob";
+import type { TriadSurfaceJob, TriadSurfaceResult } from "./triadSurfaceJob";
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<TriadSurfaceJob>) => void) | null;
+  postMessage: (message: TriadSurfaceResult) => void;
+};
+
+// Superseded jobs are cancelled by the client, which terminates a busy worker outright.
+ctx.onmessage = (event) => {
+  const { jobId, request } = event.data;
+  const model = getRoughnessModel(request.modelId);
+  const steps = refinementSteps(request);
+
+  for (let idx = 0; idx < steps.length; idx++) {
+    const surface = computeTriadSurface({
+      baseFreq: request.baseFreq,
+      spectrum: request.spectrum,
+      model,
+      minRatio: request.minRatio,
+      maxRatio: request.maxRatio,
+      step: steps[idx],
+      spacing: request.spacing,
+    });
+    ctx.postMessage({ jobId, surface, step: steps[idx], final: idx === steps.length - 1 });
+  }
+};
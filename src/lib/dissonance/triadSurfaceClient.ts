@@ -0,0 +1,27 @@
+import { computeTriadSurface } from "./math";
+import { getRoughnessModel } from "./roughness";
+import { refinementSteps } from "./triadSurfaceJob";
+import type { TriadSurfaceRequest, TriadSurfaceResult } from "./triadSurfaceJob";
+import { WorkerJobClient } from "./workerJobClient";
+
+function computeFinalSurface(jobId: number, request: TriadSurfaceRequest): TriadSurfaceResult {
+  const steps = refinementSteps(request);
+  const step = steps[steps.length - 1];
+  const surface = computeTriadSurface({
+    ...request,
+    model: getRoughnessModel(request.modelId),
+    step,
+  });
+  return { jobId, surface, step, final: true };
+}
+
+/** Runs triad surface jobs on a dedicated worker, streaming coarse-to-fine passes. */
+export class TriadSurfaceClient extends WorkerJobClient<TriadSurfaceRequest, TriadSurfaceResult> {
+  constructor() {
+    super(
+      "Triad surface",
+      () => new Worker(new URL("./triadSurface.worker.ts", import.meta.url), { type: "module" }),
+      computeFinalSurface
+    );
+  }
+}
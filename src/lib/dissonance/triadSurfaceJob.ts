@@ -0,0 +1,35 @@
+import type { RatioSpacing, TriadSurface } from "./math";
+import type { RoughnessModelId } from "./roughness";
+import type { Spectrum } from "./types";
+
+/** Serializable surface request; the model travels by id because functions cannot cross the worker boundary. */
+export type TriadSurfaceRequest = {
+  baseFreq: number;
+  spectrum: Spectrum;
+  modelId: RoughnessModelId;
+  minRatio?: number;
+  maxRatio?: number;
+  step: number;
+  spacing?: RatioSpacing;
+};
+
+export type TriadSurfaceJob = {
+  jobId: number;
+  request: TriadSurfaceRequest;
+};
+
+export type TriadSurfaceResult = {
+  jobId: number;
+  surface: TriadSurface;
+  step: number;
+  final: boolean;
+};
+
+const COARSEST_STEP = 0.1;
+
+/** Coarse-to-fine grid steps ending at the requested resolution. */
+export function refinementSteps({ step }: Pick<TriadSurfaceRequest, "step">) {
+  const steps = [step * 4, step * 2].filter((candidate) => candidate <= COARSEST_STEP);
+  steps.push(step);
+  return steps;
+}
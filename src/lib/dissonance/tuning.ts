@@ -0,0 +1,134 @@
+const CENTS_PER_OCTAVE = 1200;
+
+export type CurveMinimum = {
+  r: number;
+  y: number;
+};
+
+export type EdoStep = {
+  step: number;
+  ratio: number;
+  cents: number;
+  value: number;
+  nearestMinimum: CurveMinimum | null;
+  /** Signed distance from the nearest curve minimum; positive means the step is sharp. */
+  deviationCents: number | null;
+};
+
+export type EdoAnalysis = {
+  divisions: number;
+  stepCents: number;
+  steps: EdoStep[];
+  /** Depth-weighted fit in [0, 1]: 1 puts a step on every minimum, 0.5 is what random placement averages. */
+  fit: number;
+  /** Depth-weighted RMS distance from each curve minimum to its nearest step. */
+  rmsErrorCents: number;
+  meanStepValue: number;
+};
+
+export function ratioToCents(ratio: number) {
+  return CENTS_PER_OCTAVE * Math.log2(ratio);
+}
+
+export function centsToRatio(cents: number) {
+  return Math.pow(2, cents / CENTS_PER_OCTAVE);
+}
+
+/** Every step of an N-division of the octave that falls inside [minRatio, maxRatio]. */
+export function edoRatios(divisions: number, minRatio: number, maxRatio: number) {
+  const stepCents = CENTS_PER_OCTAVE / divisions;
+  const first = Math.ceil(ratioToCents(minRatio) / stepCents - 1e-9);
+  const last = Math.floor(ratioToCents(maxRatio) / stepCents + 1e-9);
+  const steps: { step: number; ratio: number; cents: number }[] = [];
+  for (let step = first; step <= last; step++) {
+    const cents = step * stepCents;
+    steps.push({ step, ratio: centsToRatio(cents), cents });
+  }
+  return steps;
+}
+
+function nearestByCents<T>(items: T[], cents: number, toCents: (item: T) => number) {
+  let best: T | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const item of items) {
+    const distance = Math.abs(toCents(item) - cents);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = item;
+    }
+  }
+  return best;
+}
+
+/**
+ * Places an N-EDO on a dissonance curve. `evaluate` returns the normalised curve value at a
+ * ratio and `minima` are the curve's interior valleys (unison and octave excluded).
+ */
+export function analyzeEdo(
+  divisions: number,
+  minRatio: number,
+  maxRatio: number,
+  minima: CurveMinimum[],
+  evaluate: (ratio: number) => number
+): EdoAnalysis {
+  const stepCents = CENTS_PER_OCTAVE / divisions;
+  const steps: EdoStep[] = edoRatios(divisions, minRatio, maxRatio).map(({ step, ratio, cents }) => {
+    const nearestMinimum = nearestByCents(minima, cents, (minimum) => ratioToCents(minimum.r));
+    return {
+      step,
+      ratio,
+      cents,
+      value: evaluate(ratio),
+      nearestMinimum,
+      deviationCents: nearestMinimum ? cents - ratioToCents(nearestMinimum.r) : null,
+    };
+  });
+
+  let weightSum = 0;
+  let fitSum = 0;
+  let squaredErrorSum = 0;
+  for (const minimum of minima) {
+    const minimumCents = ratioToCents(minimum.r);
+    const nearestStep = nearestByCents(steps, minimumCents, (step) => step.cents);
+    if (!nearestStep) continue;
+    const error = Math.abs(nearestStep.cents - minimumCents);
+    // Deeper valleys matter more: a barely-there dip should not dominate the score.
+    const weight = Math.max(1 - minimum.y, 0);
+    weightSum += weight;
+    fitSum += weight * Math.max(1 - error / (stepCents / 2), 0);
+    squaredErrorSum += weight * error * error;
+  }
+
+  const meanStepValue = steps.length ? steps.reduce((sum, step) => sum + step.value, 0) / steps.length : 0;
+
+  return {
+    divisions,
+    stepCents,
+    steps,
+    fit: weightSum > 0 ? fitSum / weightSum : 0,
+    rmsErrorCents: weightSum > 0 ? Math.sqrt(squaredErrorSum / weightSum) : 0,
+    meanStepValue,
+  };
+}
+
+/**
+ * Parses a list of cents values separated by commas, spaces or newlines. As in Scala files the
+ * last value is the period; the rest are the scale degrees above the root.
+ */
+export function parseCentsList(text: string) {
+  const entries = text.split(/[\s,;]+/u).filter(Boolean);
+  const values = entries.map((entry) => {
+    const cents = Number(entry);
+    if (!Number.isFinite(cents)) {
+      throw new Error(`"${entry}" is not a cents value`);
+    }
+    return cents;
+  });
+  const positive = values.filter((cents) => cents > 0).sort((a, b) => a - b);
+  if (positive.length < 2) {
+    throw new Error("Enter at least one degree and the period, e.g. 240, 480, 1200");
+  }
+
+  const periodCents = positive[positive.length - 1];
+  return { degrees: positive.slice(0, -1), periodCents };
+}
@@ -2,3 +2,25 @@ export type Spectrum = {
   freq: number[];
   amp: number[];
 };
+
+export type SpectrumPartial = {
+  ratio: number;
+  amplitude: number;
+};
+
+export type SpectrumKind = "harmonic" | "stretched" | "odd" | "free-bar" | "bell" | "custom";
+
+export type SpectrumSettings = {
+  kind: SpectrumKind;
+  partials: number;
+  rolloff: number;
+  stretch: number;
+  custom: SpectrumPartial[];
+};
+
+export type SpectrumPreset = {
+  format: "physics-dissonance/spectrum";
+  version: 1;
+  name: string;
+  partials: SpectrumPartial[];
+};
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ChordVolumeClient } from "./chordVolumeClient";
+import { computeChordVolume } from "./chordVolumeJob";
+import type { ChordVolumeRequest } from "./chordVolumeJob";
+import type { ChordVolume } from "./minima";
+
+const PLACEHOLDER_STEP = 0.1;
+
+/**
+ * Streams the tetrad volume from the worker the way useTriadSurface streams the triad surface:
+ * coarse passes first, the previous volume kept on screen until the next pass is ready.
+ */
+export function useChordVolume(request: ChordVolumeRequest) {
+  const { baseFreq, spectrum, modelId, minRatio, maxRatio, step } = request;
+  const clientRef = useRef<ChordVolumeClient | null>(null);
+  const [volume, setVolume] = useState<ChordVolume>(() =>
+    computeChordVolume({ baseFreq, spectrum, modelId, minRatio, maxRatio, step: Math.max(step, PLACEHOLDER_STEP) })
+  );
+  const [resolvedStep, setResolvedStep] = useState<number | null>(null);
+
+  useEffect(() => {
+    const client = new ChordVolumeClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+    setResolvedStep(null);
+    client.request({ baseFreq, spectrum, modelId, minRatio, maxRatio, step }, (result) => {
+      setVolume(result.volume);
+      if (result.final) {
+        setResolvedStep(result.step);
+      }
+    });
+  }, [baseFreq, spectrum, modelId, minRatio, maxRatio, step]);
+
+  return {
+    volume,
+    isRefining: resolvedStep === null,
+  };
+}
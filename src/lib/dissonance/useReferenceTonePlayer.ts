@@ -1,7 +1,8 @@
 "use client";
 
 import { useCallback, useRef } from "react";
-import { ActiveVoice, ReferenceSynth } from "./audio";
+import { ActiveVoice, DEFAULT_ENVELOPE, ReferenceSynth } from "./audio";
+import type { Envelope } from "./audio";
 
 type PlayRequest = {
   baseFrequency: number;
@@ -10,15 +11,62 @@ type PlayRequest = {
   tuning: number[];
   channel: string;
   source: string;
+  envelope?: Envelope;
+  /** Sustain until `stopAll`, or until `updateHeldChord` sees a different timbre or envelope. */
+  hold?: boolean;
 };
 
+type HeldChord = {
+  synths: ReferenceSynth[];
+  signature: string;
+};
+
+/** Everything about a held chord except its pitch; a change here means the voices must restart. */
+function heldSignature({ partialMultipliers, partialAmplitudes, tuning, envelope = DEFAULT_ENVELOPE }: PlayRequest) {
+  return JSON.stringify([partialMultipliers, partialAmplitudes, tuning.length, envelope]);
+}
+
+type SequenceStep = {
+  tuning: number[];
+  duration: number;
+};
+
+type SequenceRequest = Omit<PlayRequest, "tuning" | "hold"> & {
+  steps: SequenceStep[];
+  /** Hold each chord for its step duration, then release, instead of ringing one-shot notes. */
+  sustain?: boolean;
+};
+
+type SweepRequest = Omit<PlayRequest, "tuning" | "hold"> & {
+  /** One ratio path per voice, glided through evenly in time; a single ratio holds steady. */
+  paths: number[][];
+  duration: number;
+};
+
+/** Lets the UI follow a sweep or sequence on the audio clock. */
+export type PlaybackHandle = {
+  startTime: number;
+  duration: number;
+  currentTime: () => number;
+  /** False once `stopAll` has run, even if the sweep would still be gliding. */
+  isActive: () => boolean;
+};
+
+const SWEEP_LOOKAHEAD = 0.05;
+// Sustained sequence steps hand over to the next chord with this cross-fade instead of their full release.
+const SEQUENCE_CROSSFADE = 0.12;
+
 export function useReferenceTonePlayer() {
   const audioRef = useRef<AudioContext | null>(null);
   const activeVoicesRef = useRef<ActiveVoice[]>([]);
+  const heldRef = useRef<HeldChord | null>(null);
+  const generationRef = useRef(0);
 
   const stopAll = useCallback(() => {
     const ctx = audioRef.current;
     const now = ctx?.currentTime ?? 0;
+    heldRef.current = null;
+    generationRef.current += 1;
 
     activeVoicesRef.current.forEach((voice) => {
       if (voice.cleanupTimer !== null) {
@@ -33,7 +81,7 @@ export function useReferenceTonePlayer() {
     });
   }, []);
 
-  const playChord = useCallback(async ({ baseFrequency, partialMultipliers, partialAmplitudes, tuning, channel, source }: PlayRequest) => {
+  const prepareContext = useCallback(async (channel: string, source: string) => {
     try { new BroadcastChannel(channel).postMessage({ type: "stop-others", src: source }); } catch {}
 
     if (!audioRef.current || audioRef.current.state === "closed") {
@@ -43,32 +91,145 @@ export function useReferenceTonePlayer() {
     }
 
     const ctx = audioRef.current;
-    if (!ctx) return;
+    if (!ctx) return null;
     try { await ctx.resume(); } catch {}
+    return ctx;
+  }, []);
+
+  const startVoices = useCallback((
+    ctx: AudioContext,
+    baseFrequency: number,
+    partialMultipliers: number[],
+    partialAmplitudes: number[],
+    tuning: number[],
+    startTime: number,
+    envelope: Envelope,
+    hold: boolean,
+    sustainFor?: number
+  ) => {
+    const voiceCount = Math.max(tuning.length, 1);
+    return tuning.map((multiplier) => {
+      const synth = new ReferenceSynth(ctx, partialMultipliers, partialAmplitudes, voiceCount);
+      synth.connect(ctx.destination);
+      const voice: ActiveVoice = { synth, cleanupTimer: null };
+      activeVoicesRef.current.push(voice);
+
+      if (hold) {
+        // Held voices are cleaned up by stopAll.
+        synth.hold(baseFrequency * multiplier, startTime, envelope);
+        return synth;
+      }
+
+      const stopTime = sustainFor === undefined
+        ? synth.play(baseFrequency * multiplier, startTime, envelope)
+        : synth.sweep([baseFrequency * multiplier], startTime, sustainFor, envelope);
+      voice.cleanupTimer = window.setTimeout(() => {
+        synth.disconnect();
+        activeVoicesRef.current = activeVoicesRef.current.filter((entry) => entry !== voice);
+      }, Math.max(0, (stopTime - ctx.currentTime + 0.05) * 1000));
+      return synth;
+    });
+  }, []);
+
+  const playChord = useCallback(async (request: PlayRequest) => {
+    const { baseFrequency, partialMultipliers, partialAmplitudes, tuning, channel, source, envelope = DEFAULT_ENVELOPE, hold = false } = request;
+    const ctx = await prepareContext(channel, source);
+    if (!ctx) return;
 
     if (!partialMultipliers.length) return;
 
     stopAll();
 
-    const startTime = ctx.currentTime;
+    const synths = startVoices(ctx, baseFrequency, partialMultipliers, partialAmplitudes, tuning, ctx.currentTime, envelope, hold);
+    if (hold) {
+      heldRef.current = { synths, signature: heldSignature(request) };
+    }
+  }, [prepareContext, startVoices, stopAll]);
 
-    const voiceCount = Math.max(tuning.length, 1);
-    tuning.forEach((multiplier) => {
-      const synth = new ReferenceSynth(ctx, partialMultipliers, partialAmplitudes, voiceCount);
+  /**
+   * Follows parameter changes while a chord is held: new pitches glide the sounding voices,
+   * anything else (timbre, envelope, voice count) releases them. No-op when nothing is held.
+   */
+  const updateHeldChord = useCallback((request: PlayRequest) => {
+    const held = heldRef.current;
+    const ctx = audioRef.current;
+    if (!held || !ctx) return;
+
+    if (held.signature !== heldSignature(request)) {
+      stopAll();
+      return;
+    }
+    held.synths.forEach((synth, idx) => synth.retune(request.baseFrequency * request.tuning[idx], ctx.currentTime));
+  }, [stopAll]);
+
+  const playSweep = useCallback(async (request: SweepRequest): Promise<PlaybackHandle | null> => {
+    const { baseFrequency, partialMultipliers, partialAmplitudes, paths, duration, channel, source, envelope = DEFAULT_ENVELOPE } = request;
+    const ctx = await prepareContext(channel, source);
+    if (!ctx) return null;
+
+    if (!partialMultipliers.length) return null;
+
+    stopAll();
+
+    const generation = generationRef.current;
+    const startTime = ctx.currentTime + SWEEP_LOOKAHEAD;
+    paths.forEach((path) => {
+      const synth = new ReferenceSynth(ctx, partialMultipliers, partialAmplitudes, paths.length);
       synth.connect(ctx.destination);
       const voice: ActiveVoice = { synth, cleanupTimer: null };
       activeVoicesRef.current.push(voice);
 
-      const stopTime = synth.play(baseFrequency * multiplier, startTime);
+      const stopTime = synth.sweep(path.map((ratio) => baseFrequency * ratio), startTime, duration, envelope);
       voice.cleanupTimer = window.setTimeout(() => {
         synth.disconnect();
         activeVoicesRef.current = activeVoicesRef.current.filter((entry) => entry !== voice);
-      }, Math.max(0, (stopTime - startTime + 0.05) * 1000));
+      }, Math.max(0, (stopTime - ctx.currentTime + 0.05) * 1000));
     });
-  }, [stopAll]);
+
+    return {
+      startTime,
+      duration,
+      currentTime: () => ctx.currentTime,
+      isActive: () => generationRef.current === generation,
+    };
+  }, [prepareContext, stopAll]);
+
+  const playSequence = useCallback(async (request: SequenceRequest): Promise<PlaybackHandle | null> => {
+    const { baseFrequency, partialMultipliers, partialAmplitudes, steps, channel, source, envelope = DEFAULT_ENVELOPE, sustain = false } = request;
+    const ctx = await prepareContext(channel, source);
+    if (!ctx) return null;
+
+    if (!partialMultipliers.length) return null;
+
+    stopAll();
+
+    // Every step is scheduled up front on the audio clock so timing does not drift with the UI thread.
+    const generation = generationRef.current;
+    const startTime = ctx.currentTime;
+    let stepStart = startTime;
+    steps.forEach((step, idx) => {
+      // Only the last sustained step rings out with the envelope's release; the others fade out
+      // centred on the next step's start, so chords do not pile up over the following steps.
+      const crossfade = sustain && idx < steps.length - 1 ? Math.min(envelope.release, SEQUENCE_CROSSFADE, step.duration / 2) : null;
+      const stepEnvelope = crossfade === null ? envelope : { ...envelope, release: crossfade };
+      const sustainFor = sustain ? step.duration - (crossfade ?? 0) / 2 : undefined;
+      startVoices(ctx, baseFrequency, partialMultipliers, partialAmplitudes, step.tuning, stepStart, stepEnvelope, false, sustainFor);
+      stepStart += step.duration;
+    });
+
+    return {
+      startTime,
+      duration: stepStart - startTime,
+      currentTime: () => ctx.currentTime,
+      isActive: () => generationRef.current === generation,
+    };
+  }, [prepareContext, startVoices, stopAll]);
 
   return {
     playChord,
+    playSequence,
+    playSweep,
+    updateHeldChord,
     stopAll,
   };
 }
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { computeTriadSurface } from "./math";
+import type { TriadSurface } from "./math";
+import { getRoughnessModel } from "./roughness";
+import { TriadSurfaceClient } from "./triadSurfaceClient";
+import type { TriadSurfaceRequest } from "./triadSurfaceJob";
+
+const PLACEHOLDER_STEP = 0.1;
+
+/**
+ * Streams a triad surface from the worker: coarse passes arrive first and are replaced
+ * as finer ones land. The previous surface stays on screen until the next pass is ready.
+ */
+export function useTriadSurface(request: TriadSurfaceRequest) {
+  const { baseFreq, spectrum, modelId, minRatio, maxRatio, step, spacing } = request;
+  const clientRef = useRef<TriadSurfaceClient | null>(null);
+  const [surface, setSurface] = useState<TriadSurface>(() =>
+    computeTriadSurface({
+      baseFreq,
+      spectrum,
+      model: getRoughnessModel(modelId),
+      minRatio,
+      maxRatio,
+      step: Math.max(step, PLACEHOLDER_STEP),
+      spacing,
+    })
+  );
+  const [resolvedStep, setResolvedStep] = useState<number | null>(null);
+
+  useEffect(() => {
+    const client = new TriadSurfaceClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+    setResolvedStep(null);
+    client.request({ baseFreq, spectrum, modelId, minRatio, maxRatio, step, spacing }, (result) => {
+      setSurface(result.surface);
+      if (result.final) {
+        setResolvedStep(result.step);
+      }
+    });
+  }, [baseFreq, spectrum, modelId, minRatio, maxRatio, step, spacing]);
+
+  return {
+    surface,
+    isRefining: resolvedStep === null,
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav } from "./wav";
+
+function pcmSource(channels: number[][], sampleRate = 48000) {
+  const data = channels.map((samples) => Float32Array.from(samples));
+  return { numberOfChannels: data.length, sampleRate, length: data[0].length, getChannelData: (channel: number) => data[channel] };
+}
+
+function ascii(view: DataView, offset: number, length: number) {
+  return String.fromCharCode(...Array.from({ length }, (_, idx) => view.getUint8(offset + idx)));
+}
+
+function int24(view: DataView, offset: number) {
+  const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+}
+
+describe("encodeWav", () => {
+  it("writes the RIFF, fmt and data headers", () => {
+    const view = new DataView(encodeWav(pcmSource([[0, 0, 0], [0, 0, 0]]), 24));
+    expect(view.byteLength).toBe(44 + 3 * 2 * 3);
+    expect(ascii(view, 0, 4)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(36 + 18);
+    expect(ascii(view, 8, 8)).toBe("WAVEfmt ");
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 6);
+    expect(view.getUint16(32, true)).toBe(6);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(ascii(view, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(18);
+  });
+
+  it("encodes 16-bit samples little-endian and interleaved, clipping at full scale", () => {
+    const view = new DataView(encodeWav(pcmSource([[0, 0.5, 1.5], [-0.25, -1, -3]])));
+    const samples = Array.from({ length: 6 }, (_, idx) => view.getInt16(44 + 2 * idx, true));
+    expect(samples).toEqual([0, Math.round(-0.25 * 32767), Math.round(0.5 * 32767), -32767, 32767, -32767]);
+  });
+
+  it("encodes 24-bit samples as three little-endian bytes, clipping at full scale", () => {
+    const view = new DataView(encodeWav(pcmSource([[0.5, -0.5, 2, -2, 1e-7]]), 24));
+    const samples = Array.from({ length: 5 }, (_, idx) => int24(view, 44 + 3 * idx));
+    expect(samples).toEqual([Math.round(0.5 * 8388607), Math.round(-0.5 * 8388607), 8388607, -8388607, 1]);
+  });
+});
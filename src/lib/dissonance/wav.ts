@@ -0,0 +1,60 @@
+export type WavBitDepth = 16 | 24;
+
+type PcmSource = {
+  numberOfChannels: number;
+  sampleRate: number;
+  length: number;
+  getChannelData: (channel: number) => Float32Array;
+};
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Encodes float samples as an interleaved PCM WAV file. Samples are clamped to [-1, 1];
+ * callers that may exceed full scale should normalise first.
+ */
+export function encodeWav(source: PcmSource, bitDepth: WavBitDepth = 16): ArrayBuffer {
+  const { numberOfChannels, sampleRate, length } = source;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => source.getChannelData(channel));
+  const fullScale = Math.pow(2, bitDepth - 1) - 1;
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (const samples of channels) {
+      const value = Math.round(Math.max(-1, Math.min(1, samples[i])) * fullScale);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
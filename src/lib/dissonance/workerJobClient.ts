@@ -0,0 +1,88 @@
+type JobResult = { jobId: number; final: boolean };
+
+/**
+ * Runs jobs on a dedicated worker that answers a `{ jobId, request }` message with one or more
+ * results, the last marked `final`. Each new request supersedes the previous one: stale results
+ * are dropped, and a worker stuck inside a long pass is replaced outright. If the worker crashes,
+ * or workers are unavailable, the job is finished inline so the caller still gets a final result.
+ */
+export class WorkerJobClient<Request, Result extends JobResult> {
+  private worker: Worker | null = null;
+  private jobId = 0;
+  private busy = false;
+  private handler: ((result: Result) => void) | null = null;
+  private pending: Request | null = null;
+
+  constructor(
+    private readonly label: string,
+    private readonly createWorker: () => Worker,
+    private readonly computeInline: (jobId: number, request: Request) => Result
+  ) {}
+
+  request(request: Request, onResult: (result: Result) => void) {
+    this.jobId += 1;
+    this.handler = onResult;
+
+    if (typeof Worker === "undefined") {
+      this.finishInline(this.jobId, request);
+      return;
+    }
+
+    if (this.busy) {
+      this.terminate();
+    }
+
+    const worker = this.ensureWorker();
+    this.busy = true;
+    this.pending = request;
+    worker.postMessage({ jobId: this.jobId, request });
+  }
+
+  cancel() {
+    this.jobId += 1;
+    this.handler = null;
+    if (this.busy) {
+      this.terminate();
+    }
+  }
+
+  dispose() {
+    this.cancel();
+    this.terminate();
+  }
+
+  private ensureWorker() {
+    if (this.worker) return this.worker;
+
+    const worker = this.createWorker();
+    worker.onmessage = (event: MessageEvent<Result>) => {
+      const result = event.data;
+      if (result.jobId !== this.jobId) return;
+      if (result.final) {
+        this.busy = false;
+        this.pending = null;
+      }
+      this.handler?.(result);
+    };
+    worker.onerror = (event) => {
+      console.warn(`${this.label} worker failed; computing inline`, event.message);
+      event.preventDefault();
+      const request = this.pending;
+      this.terminate();
+      if (request) this.finishInline(this.jobId, request);
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.busy = false;
+    this.pending = null;
+  }
+
+  private finishInline(jobId: number, request: Request) {
+    this.handler?.(this.computeInline(jobId, request));
+  }
+}
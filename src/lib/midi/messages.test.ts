@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  MpeChannelAllocator,
+  PITCH_BEND_CENTER,
+  encodeChord,
+  mtsFrequencyBytes,
+  mtsSingleNoteTuning,
+  parseNoteMessage,
+  pitchBend,
+  pitchBendRangeMessages,
+  pitchBendValue,
+  splitFrequency,
+} from "./messages";
+
+const semitonesAbove = (frequency: number, semitones: number) => frequency * Math.pow(2, semitones / 12);
+
+describe("pitch bend", () => {
+  it("maps semitone offsets linearly onto the 14-bit range", () => {
+    expect(pitchBendValue(0, 48)).toBe(PITCH_BEND_CENTER);
+    expect(pitchBendValue(0.5, 48)).toBe(PITCH_BEND_CENTER + Math.round(8192 / 96));
+    expect(pitchBendValue(-2, 2)).toBe(0);
+    expect(pitchBendValue(2, 2)).toBe(16383);
+    expect(pitchBendValue(5, 2)).toBe(16383);
+  });
+
+  it("sends the value LSB first", () => {
+    expect(pitchBend(3, 0x2345)).toEqual([0xe3, 0x45, 0x46]);
+    expect(pitchBend(0, PITCH_BEND_CENTER)).toEqual([0xe0, 0x00, 0x40]);
+  });
+
+  it("sets the bend range through RPN 0", () => {
+    expect(pitchBendRangeMessages(1, 48)).toEqual([
+      [0xb1, 101, 0],
+      [0xb1, 100, 0],
+      [0xb1, 6, 48],
+      [0xb1, 38, 0],
+      [0xb1, 101, 127],
+      [0xb1, 100, 127],
+    ]);
+  });
+
+  it("splits a frequency into the nearest key and a remaining offset", () => {
+    const { note, offset } = splitFrequency(semitonesAbove(440, 0.3));
+    expect(note).toBe(69);
+    expect(offset).toBeCloseTo(0.3, 9);
+  });
+});
+
+describe("MIDI Tuning Standard", () => {
+  it("encodes a frequency as semitone plus 14-bit fraction", () => {
+    expect(mtsFrequencyBytes(440)).toEqual([69, 0, 0]);
+    expect(mtsFrequencyBytes(semitonesAbove(440, 0.5))).toEqual([69, 0x40, 0x00]);
+    expect(mtsFrequencyBytes(semitonesAbove(440, 0.99999999))).toEqual([70, 0, 0]);
+    expect(mtsFrequencyBytes(1e6)).toEqual([127, 127, 126]);
+  });
+
+  it("builds a real-time single note tuning SysEx", () => {
+    expect(mtsSingleNoteTuning([{ key: 60, frequency: 440 }])).toEqual([0xf0, 0x7f, 0x7f, 0x08, 0x02, 0x00, 1, 60, 69, 0, 0, 0xf7]);
+    expect(() => mtsSingleNoteTuning([])).toThrow();
+  });
+
+  it("moves voices that round to the same key onto free neighbours", () => {
+    const { start, stop } = encodeChord([440, semitonesAbove(440, 0.2)], "mts");
+    expect(start[0]).toEqual(mtsSingleNoteTuning([{ key: 69, frequency: 440 }, { key: 70, frequency: semitonesAbove(440, 0.2) }]));
+    expect(start.slice(1)).toEqual([[0x90, 69, 100], [0x90, 70, 100]]);
+    expect(stop).toEqual([[0x80, 69, 0], [0x80, 70, 0]]);
+  });
+});
+
+describe("MPE", () => {
+  it("bends each voice on its own member channel", () => {
+    const { start, stop, channels } = encodeChord([440, semitonesAbove(440, 4 - 0.14)], "mpe", { bendRange: 48 });
+    expect(channels).toEqual([1, 2]);
+    expect(start).toEqual([
+      pitchBend(1, PITCH_BEND_CENTER),
+      [0x91, 69, 100],
+      pitchBend(2, pitchBendValue(-0.14, 48)),
+      [0x92, 73, 100],
+    ]);
+    expect(stop).toEqual([[0x81, 69, 0], [0x82, 73, 0]]);
+  });
+
+  it("gives the next chord fresh channels while earlier notes still sound", () => {
+    const allocator = new MpeChannelAllocator();
+    const first = encodeChord([440, 550], "mpe", { allocator });
+    const second = encodeChord([440, 550], "mpe", { allocator });
+    expect(first.channels).toEqual([1, 2]);
+    expect(second.channels).toEqual([3, 4]);
+  });
+
+  it("reuses the least recently used free channel and steals only when all are busy", () => {
+    const allocator = new MpeChannelAllocator();
+    const channels = Array.from({ length: 15 }, () => allocator.allocate());
+    expect(channels).toEqual(Array.from({ length: 15 }, (_, idx) => idx + 1));
+    allocator.release(7);
+    expect(allocator.allocate()).toBe(7);
+    expect(allocator.allocate()).toBe(1);
+    allocator.releaseAll();
+    expect(allocator.allocate()).toBe(2);
+  });
+});
+
+describe("parseNoteMessage", () => {
+  it("treats note-on with velocity 0 as note-off", () => {
+    expect(parseNoteMessage([0x92, 60, 90])).toEqual({ type: "on", channel: 2, note: 60, velocity: 90 });
+    expect(parseNoteMessage([0x92, 60, 0])).toEqual({ type: "off", channel: 2, note: 60, velocity: 0 });
+    expect(parseNoteMessage([0xb0, 64, 127])).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { frequencyToMidi } from "@/lib/dissonance/math";
+
+/** Channels are 0-based throughout (0 = MIDI channel 1). */
+export type MidiMessage = number[];
+
+export type MicrotonalMode = "mpe" | "mts";
+
+export const MICROTONAL_MODES: { mode: MicrotonalMode; label: string; description: string }[] = [
+  {
+    mode: "mpe",
+    label: "Pitch bend (MPE)",
+    description: "Each voice gets its own channel (2–16) and a pitch bend; works with MPE and multi-timbral synths.",
+  },
+  {
+    mode: "mts",
+    label: "MIDI Tuning Standard",
+    description: "Retunes individual keys with real-time single-note tuning SysEx; the synth must support MTS.",
+  },
+];
+
+export const PITCH_BEND_CENTER = 8192;
+export const DEFAULT_MPE_BEND_RANGE = 48;
+/** MPE member channels, 0-based: MIDI channels 2–16 around a channel 1 manager. */
+export const MPE_MEMBER_CHANNELS = Array.from({ length: 15 }, (_, idx) => idx + 1);
+
+const clamp7 = (value: number) => Math.min(127, Math.max(0, Math.round(value)));
+
+function status(kind: number, channel: number) {
+  if (!Number.isInteger(channel) || channel < 0 || channel > 15) {
+    throw new Error(`MIDI channel ${channel} is out of range (0–15)`);
+  }
+  return kind | channel;
+}
+
+export function noteOn(channel: number, note: number, velocity = 100): MidiMessage {
+  return [status(0x90, channel), clamp7(note), Math.max(1, clamp7(velocity))];
+}
+
+export function noteOff(channel: number, note: number, velocity = 0): MidiMessage {
+  return [status(0x80, channel), clamp7(note), clamp7(velocity)];
+}
+
+export function controlChange(channel: number, controller: number, value: number): MidiMessage {
+  return [status(0xb0, channel), clamp7(controller), clamp7(value)];
+}
+
+export function allNotesOff(channel: number): MidiMessage {
+  return controlChange(channel, 123, 0);
+}
+
+/** 14-bit bend value for an offset in semitones, given the receiver's bend range. */
+export function pitchBendValue(semitones: number, bendRange: number) {
+  const value = Math.round(PITCH_BEND_CENTER + (semitones / bendRange) * PITCH_BEND_CENTER);
+  return Math.min(16383, Math.max(0, value));
+}
+
+export function pitchBend(channel: number, value: number): MidiMessage {
+  const clamped = Math.min(16383, Math.max(0, Math.round(value)));
+  return [status(0xe0, channel), clamped & 0x7f, clamped >> 7];
+}
+
+/** RPN 0 (pitch bend sensitivity) set to whole semitones, followed by the RPN null. */
+export function pitchBendRangeMessages(channel: number, semitones: number): MidiMessage[] {
+  return [
+    controlChange(channel, 101, 0),
+    controlChange(channel, 100, 0),
+    controlChange(channel, 6, semitones),
+    controlChange(channel, 38, 0),
+    controlChange(channel, 101, 127),
+    controlChange(channel, 100, 127),
+  ];
+}
+
+/** Nearest key to a frequency and the remaining offset in semitones (within ±0.5). */
+export function splitFrequency(frequency: number) {
+  const midi = frequencyToMidi(frequency);
+  const note = Math.round(midi);
+  return { note, offset: midi - note };
+}
+
+/**
+ * MTS frequency data: the semitone below the pitch, then its fraction in 1/16384 semitone
+ * steps as two 7-bit bytes. Frequencies outside the MIDI range are clamped.
+ */
+export function mtsFrequencyBytes(frequency: number): [number, number, number] {
+  const midi = Math.min(Math.max(frequencyToMidi(frequency), 0), 127 + 16383 / 16384);
+  let semitone = Math.floor(midi);
+  let fraction = Math.round((midi - semitone) * 16384);
+  if (fraction === 16384) {
+    semitone += 1;
+    fraction = 0;
+  }
+  // 7F 7F 7F is reserved for "no change", so the top of the range stops one step short of it.
+  if (semitone > 127 || (semitone === 127 && fraction > 16382)) return [127, 127, 126];
+  return [semitone, fraction >> 7, fraction & 0x7f];
+}
+
+/** Real-time single note tuning change (universal SysEx 7F, sub-IDs 08 02). */
+export function mtsSingleNoteTuning(
+  retunings: { key: number; frequency: number }[],
+  { deviceId = 0x7f, program = 0 }: { deviceId?: number; program?: number } = {}
+): MidiMessage {
+  if (!retunings.length || retunings.length > 127) {
+    throw new Error("A tuning change needs between 1 and 127 keys");
+  }
+  return [
+    0xf0,
+    0x7f,
+    clamp7(deviceId),
+    0x08,
+    0x02,
+    clamp7(program),
+    retunings.length,
+    ...retunings.flatMap(({ key, frequency }) => [clamp7(key), ...mtsFrequencyBytes(frequency)]),
+    0xf7,
+  ];
+}
+
+/**
+ * Hands out MPE member channels the way MPE senders do: a free channel that was used least
+ * recently, so a note still ringing out on its channel is not re-bent by the next one. When every
+ * channel is busy the least recently started note's channel is stolen.
+ */
+export class MpeChannelAllocator {
+  private readonly active = new Set<number>();
+  /** Member channels, least recently allocated first. */
+  private order = [...MPE_MEMBER_CHANNELS];
+
+  allocate() {
+    const channel = this.order.find((candidate) => !this.active.has(candidate)) ?? this.order[0];
+    this.order = [...this.order.filter((candidate) => candidate !== channel), channel];
+    this.active.add(channel);
+    return channel;
+  }
+
+  release(channel: number) {
+    this.active.delete(channel);
+  }
+
+  releaseAll() {
+    this.active.clear();
+  }
+}
+
+export type ChordMessages = {
+  /** Messages to start the chord, in order. */
+  start: MidiMessage[];
+  /** Matching note-offs. */
+  stop: MidiMessage[];
+  /** Channels the chord sounds on; MPE member channels go back to the allocator after `stop`. */
+  channels: number[];
+};
+
+type EncodeChordOptions = {
+  velocity?: number;
+  channel?: number;
+  bendRange?: number;
+  /** Shared across chords so consecutive MPE chords land on fresh channels; a new one by default. */
+  allocator?: MpeChannelAllocator;
+};
+
+/**
+ * Encodes a chord of arbitrary frequencies. In MPE mode each voice gets a member channel from
+ * `allocator` with its own pitch bend; in MTS mode every voice plays on `channel` and its key is
+ * retuned first, moving to a free neighbouring key when two voices round to the same one.
+ */
+export function encodeChord(
+  frequencies: number[],
+  mode: MicrotonalMode,
+  { velocity = 100, channel = 0, bendRange = DEFAULT_MPE_BEND_RANGE, allocator = new MpeChannelAllocator() }: EncodeChordOptions = {}
+): ChordMessages {
+  if (mode === "mpe") {
+    if (frequencies.length > MPE_MEMBER_CHANNELS.length) {
+      throw new Error(`MPE output supports up to ${MPE_MEMBER_CHANNELS.length} voices`);
+    }
+    const start: MidiMessage[] = [];
+    const stop: MidiMessage[] = [];
+    const channels = frequencies.map((frequency) => {
+      const memberChannel = allocator.allocate();
+      const { note, offset } = splitFrequency(frequency);
+      start.push(pitchBend(memberChannel, pitchBendValue(offset, bendRange)), noteOn(memberChannel, note, velocity));
+      stop.push(noteOff(memberChannel, note));
+      return memberChannel;
+    });
+    return { start, stop, channels };
+  }
+
+  const used = new Set<number>();
+  const retunings = frequencies.map((frequency) => {
+    const { note } = splitFrequency(frequency);
+    let key = clamp7(note);
+    for (let step = 1; used.has(key) && step < 128; step++) {
+      const candidates = [note + step, note - step].filter((candidate) => candidate >= 0 && candidate <= 127);
+      key = candidates.find((candidate) => !used.has(candidate)) ?? key;
+    }
+    used.add(key);
+    return { key, frequency };
+  });
+
+  return {
+    start: [mtsSingleNoteTuning(retunings), ...retunings.map(({ key }) => noteOn(channel, key, velocity))],
+    stop: retunings.map(({ key }) => noteOff(channel, key)),
+    channels: [channel],
+  };
+}
+
+export type IncomingNote = { type: "on" | "off"; channel: number; note: number; velocity: number };
+
+/** Reads note-on/off from an incoming message; anything else yields null. */
+export function parseNoteMessage(data: ArrayLike<number>): IncomingNote | null {
+  if (data.length < 3) return null;
+  const kind = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  if (kind === 0x90 && data[2] > 0) return { type: "on", channel, note: data[1], velocity: data[2] };
+  if (kind === 0x80 || kind === 0x90) return { type: "off", channel, note: data[1], velocity: data[2] };
+  return null;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { parseMidiFile } from "./smf";
+
+function chunk(type: string, body: number[]) {
+  const length = body.length;
+  return [...type].map((char) => char.charCodeAt(0)).concat([length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff], body);
+}
+
+function smf(format: number, division: number, tracks: number[][]) {
+  const header = chunk("MThd", [0, format, 0, tracks.length, division >> 8, division & 0xff]);
+  return Uint8Array.from([...header, ...tracks.flatMap((track) => chunk("MTrk", track))]).buffer;
+}
+
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00];
+// 120 bpm at 96 ticks per quarter: one tick is 1/192 s.
+const TPQ = 96;
+
+describe("parseMidiFile", () => {
+  it("reads a format 0 file, with a zero-velocity note-on ending a note", () => {
+    const file = parseMidiFile(
+      smf(0, TPQ, [[0x00, 0x90, 60, 100, 0x60, 0x90, 60, 0, 0x00, 0x91, 64, 80, 0x60, 0x81, 64, 0, ...END_OF_TRACK]])
+    );
+    expect(file).toMatchObject({ format: 0, trackCount: 1, duration: 1 });
+    expect(file.notes).toEqual([
+      { track: 0, channel: 0, note: 60, velocity: 100, start: 0, end: 0.5 },
+      { track: 0, channel: 1, note: 64, velocity: 80, start: 0.5, end: 1 },
+    ]);
+  });
+
+  it("applies a tempo change from the conductor track of a format 1 file to every track", () => {
+    const conductor = [0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20, 0x60, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40, ...END_OF_TRACK];
+    const melody = [0x00, 0x90, 67, 90, 0x81, 0x40, 0x80, 67, 0, ...END_OF_TRACK];
+    const file = parseMidiFile(smf(1, TPQ, [conductor, melody]));
+    // 96 ticks at 120 bpm (0.5 s), then 96 ticks at 60 bpm (1 s).
+    expect(file.notes).toEqual([{ track: 1, channel: 0, note: 67, velocity: 90, start: 0, end: 1.5 }]);
+  });
+
+  it("decodes running status", () => {
+    const file = parseMidiFile(smf(0, TPQ, [[0x00, 0x90, 60, 100, 0x00, 64, 100, 0x60, 60, 0, 0x00, 64, 0, ...END_OF_TRACK]]));
+    expect(file.notes.map(({ note, start, end }) => [note, start, end])).toEqual([
+      [60, 0, 0.5],
+      [64, 0, 0.5],
+    ]);
+  });
+
+  it("does not carry running status past meta or SysEx events", () => {
+    const afterMeta = [0x00, 0x90, 60, 100, 0x00, 0xff, 0x01, 0x01, 0x41, 0x00, 62, 100, ...END_OF_TRACK];
+    const afterSysex = [0x00, 0x90, 60, 100, 0x00, 0xf0, 0x02, 0x7e, 0xf7, 0x00, 62, 100, ...END_OF_TRACK];
+    expect(() => parseMidiFile(smf(0, TPQ, [afterMeta]))).toThrow("data byte without a status byte");
+    expect(() => parseMidiFile(smf(0, TPQ, [afterSysex]))).toThrow("data byte without a status byte");
+  });
+
+  it("rings unterminated notes to the end of their track and skips unknown chunks", () => {
+    const unknown = chunk("XFIH", [1, 2, 3]);
+    const header = chunk("MThd", [0, 0, 0, 1, 0, TPQ]);
+    const track = chunk("MTrk", [0x00, 0x90, 60, 100, 0x81, 0x40, 0xff, 0x2f, 0x00]);
+    const file = parseMidiFile(Uint8Array.from([...header, ...unknown, ...track]).buffer);
+    expect(file.notes).toEqual([{ track: 0, channel: 0, note: 60, velocity: 100, start: 0, end: 1 }]);
+  });
+
+  it("rejects files it cannot read", () => {
+    expect(() => parseMidiFile(new Uint8Array(20).buffer)).toThrow("missing MThd header");
+    expect(() => parseMidiFile(smf(2, TPQ, [END_OF_TRACK]))).toThrow("Format 2");
+    expect(() => parseMidiFile(smf(0, TPQ, [[0x00, 0x90, 60]]))).toThrow("Track 1 ends unexpectedly");
+  });
+});
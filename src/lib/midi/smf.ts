@@ -0,0 +1,234 @@
+/** A note from a Standard MIDI File with its timing resolved to seconds. */
+export type MidiNote = {
+  track: number;
+  /** 0-based; channel 9 is General MIDI percussion. */
+  channel: number;
+  note: number;
+  velocity: number;
+  start: number;
+  end: number;
+};
+
+export type MidiFile = {
+  format: number;
+  trackCount: number;
+  notes: MidiNote[];
+  duration: number;
+};
+
+export const PERCUSSION_CHANNEL = 9;
+
+const DEFAULT_TEMPO = 500000; // microseconds per quarter note (120 bpm)
+
+type TempoChange = { tick: number; microsecondsPerQuarter: number };
+
+type RawNote = Omit<MidiNote, "start" | "end"> & { startTick: number; endTick: number };
+
+class ByteReader {
+  offset = 0;
+
+  constructor(private readonly bytes: Uint8Array, private readonly label: string) {}
+
+  get remaining() {
+    return this.bytes.length - this.offset;
+  }
+
+  private ensure(count: number) {
+    if (this.offset + count > this.bytes.length) {
+      throw new Error(`${this.label} ends unexpectedly at byte ${this.offset}`);
+    }
+  }
+
+  uint8() {
+    this.ensure(1);
+    return this.bytes[this.offset++];
+  }
+
+  uint16() {
+    return (this.uint8() << 8) | this.uint8();
+  }
+
+  uint32() {
+    return ((this.uint8() << 24) >>> 0) + (this.uint8() << 16) + (this.uint8() << 8) + this.uint8();
+  }
+
+  ascii(length: number) {
+    this.ensure(length);
+    const text = String.fromCharCode(...this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return text;
+  }
+
+  /** MIDI variable-length quantity: 7 bits per byte, high bit set on all but the last. */
+  varLength() {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error(`${this.label} has a variable-length value longer than 4 bytes at byte ${this.offset}`);
+  }
+
+  skip(count: number) {
+    this.ensure(count);
+    this.offset += count;
+  }
+
+  slice(length: number, label: string) {
+    this.ensure(length);
+    const reader = new ByteReader(this.bytes.subarray(this.offset, this.offset + length), label);
+    this.offset += length;
+    return reader;
+  }
+}
+
+function readTrack(reader: ByteReader, track: number, tempos: TempoChange[], notes: RawNote[]) {
+  const open = new Map<number, RawNote[]>();
+  let tick = 0;
+  let runningStatus: number | null = null;
+
+  const closeNote = (channel: number, note: number, endTick: number) => {
+    const key = channel * 128 + note;
+    const stack = open.get(key);
+    const started = stack?.shift();
+    if (started) started.endTick = endTick;
+  };
+
+  while (reader.remaining > 0) {
+    tick += reader.varLength();
+    let status = reader.uint8();
+
+    // Meta and SysEx events cancel running status, so a stray data byte after one is an error
+    // rather than a note.
+    if (status >= 0xf0) runningStatus = null;
+    if (status === 0xff) {
+      const type = reader.uint8();
+      const length = reader.varLength();
+      if (type === 0x51 && length === 3) {
+        tempos.push({ tick, microsecondsPerQuarter: (reader.uint8() << 16) | (reader.uint8() << 8) | reader.uint8() });
+      } else {
+        reader.skip(length);
+      }
+      if (type === 0x2f) break;
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.varLength());
+      continue;
+    }
+
+    let firstData: number;
+    if (status < 0x80) {
+      if (runningStatus === null) {
+        throw new Error(`Track ${track + 1} has a data byte without a status byte at byte ${reader.offset}`);
+      }
+      firstData = status;
+      status = runningStatus;
+    } else {
+      runningStatus = status;
+      firstData = reader.uint8();
+    }
+
+    const kind = status & 0xf0;
+    const channel = status & 0x0f;
+    if (kind === 0xc0 || kind === 0xd0) continue;
+    const secondData = reader.uint8();
+
+    if (kind === 0x90 && secondData > 0) {
+      const key = channel * 128 + firstData;
+      const note: RawNote = { track, channel, note: firstData, velocity: secondData, startTick: tick, endTick: -1 };
+      notes.push(note);
+      open.set(key, [...(open.get(key) ?? []), note]);
+    } else if (kind === 0x80 || kind === 0x90) {
+      closeNote(channel, firstData, tick);
+    }
+  }
+
+  // Notes never switched off ring until the end of their track.
+  open.forEach((stack) => stack.forEach((note) => { note.endTick = tick; }));
+}
+
+/** Converts ticks to seconds through a sorted tempo map. */
+function tickClock(tempos: TempoChange[], ticksPerQuarter: number) {
+  const sorted = [{ tick: 0, microsecondsPerQuarter: DEFAULT_TEMPO }, ...tempos].sort((a, b) => a.tick - b.tick);
+  const anchors: { tick: number; seconds: number; secondsPerTick: number }[] = [];
+  let seconds = 0;
+  sorted.forEach((change, idx) => {
+    const previous = anchors[anchors.length - 1];
+    if (previous) seconds = previous.seconds + (change.tick - previous.tick) * previous.secondsPerTick;
+    const secondsPerTick = change.microsecondsPerQuarter / 1e6 / ticksPerQuarter;
+    if (previous && previous.tick === change.tick && idx > 0) anchors.pop();
+    anchors.push({ tick: change.tick, seconds, secondsPerTick });
+  });
+
+  return (tick: number) => {
+    let anchor = anchors[0];
+    for (const candidate of anchors) {
+      if (candidate.tick > tick) break;
+      anchor = candidate;
+    }
+    return anchor.seconds + (tick - anchor.tick) * anchor.secondsPerTick;
+  };
+}
+
+/** Parses a Standard MIDI File (formats 0 and 1) into timed notes. Throws on malformed data. */
+export function parseMidiFile(buffer: ArrayBuffer): MidiFile {
+  const reader = new ByteReader(new Uint8Array(buffer), "MIDI file");
+  if (reader.remaining < 14 || reader.ascii(4) !== "MThd") {
+    throw new Error("Not a Standard MIDI File (missing MThd header)");
+  }
+
+  const headerLength = reader.uint32();
+  const header = reader.slice(headerLength, "MIDI header");
+  const format = header.uint16();
+  const trackCount = header.uint16();
+  const division = header.uint16();
+  if (format > 2) {
+    throw new Error(`Unsupported MIDI format ${format}`);
+  }
+  if (format === 2) {
+    throw new Error("Format 2 (independent sequences) files are not supported");
+  }
+
+  let ticksPerQuarter = division;
+  if (division & 0x8000) {
+    // SMPTE timing: frames per second in the high byte (negated), ticks per frame in the low byte.
+    const framesPerSecond = 256 - (division >> 8);
+    const ticksPerFrame = division & 0xff;
+    ticksPerQuarter = (framesPerSecond * ticksPerFrame * DEFAULT_TEMPO) / 1e6;
+  }
+  if (ticksPerQuarter <= 0) {
+    throw new Error("MIDI header has an invalid time division");
+  }
+
+  const tempos: TempoChange[] = [];
+  const rawNotes: RawNote[] = [];
+  for (let track = 0; track < trackCount; track++) {
+    if (reader.remaining < 8) {
+      throw new Error(`Expected ${trackCount} tracks but found ${track}`);
+    }
+    const chunkType = reader.ascii(4);
+    const length = reader.uint32();
+    if (chunkType !== "MTrk") {
+      reader.skip(Math.min(length, reader.remaining));
+      track--;
+      continue;
+    }
+    readTrack(reader.slice(length, `Track ${track + 1}`), track, tempos, rawNotes);
+  }
+
+  // SMPTE files ignore tempo events; their tick length is fixed.
+  const toSeconds = tickClock(division & 0x8000 ? [] : tempos, ticksPerQuarter);
+  const notes = rawNotes
+    .map(({ startTick, endTick, ...note }) => ({ ...note, start: toSeconds(startTick), end: toSeconds(endTick) }))
+    .filter((note) => note.end > note.start)
+    .sort((a, b) => a.start - b.start || a.note - b.note);
+
+  return {
+    format,
+    trackCount,
+    notes,
+    duration: notes.reduce((latest, note) => Math.max(latest, note.end), 0),
+  };
+}
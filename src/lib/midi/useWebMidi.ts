@@ -0,0 +1,165 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MPE_MEMBER_CHANNELS, MpeChannelAllocator, allNotesOff, encodeChord, parseNoteMessage, pitchBendRangeMessages } from "./messages";
+import type { MicrotonalMode, MidiMessage } from "./messages";
+
+export type MidiPort = { id: string; name: string };
+
+export type MidiStatus = "unsupported" | "idle" | "pending" | "ready" | "denied";
+
+type SendChordOptions = {
+  mode: MicrotonalMode;
+  bendRange: number;
+  /** Seconds until the note-offs are sent. */
+  duration: number;
+};
+
+function listPorts(ports: MIDIInputMap | MIDIOutputMap): MidiPort[] {
+  const list: MidiPort[] = [];
+  ports.forEach((port) => list.push({ id: port.id, name: port.name ?? port.id }));
+  return list;
+}
+
+/**
+ * Optional Web MIDI backend: sends chords of arbitrary frequencies to an external synth and reports
+ * the keys held on a MIDI keyboard. Access is requested on demand, since browsers prompt for it.
+ */
+export function useWebMidi(onHeldNotes?: (notes: number[]) => void) {
+  const [status, setStatus] = useState<MidiStatus>("idle");
+  const [sysexEnabled, setSysexEnabled] = useState(false);
+  const [outputs, setOutputs] = useState<MidiPort[]>([]);
+  const [inputs, setInputs] = useState<MidiPort[]>([]);
+  const [outputId, setOutputId] = useState<string | null>(null);
+  const [inputId, setInputId] = useState<string | null>(null);
+  const accessRef = useRef<MIDIAccess | null>(null);
+  const pendingStopRef = useRef<MidiMessage[]>([]);
+  const stopTimerRef = useRef<number | null>(null);
+  const configuredRangeRef = useRef<{ outputId: string; range: number } | null>(null);
+  const allocatorRef = useRef(new MpeChannelAllocator());
+  const heldRef = useRef(new Set<number>());
+  const onHeldNotesRef = useRef(onHeldNotes);
+
+  useEffect(() => {
+    onHeldNotesRef.current = onHeldNotes;
+  }, [onHeldNotes]);
+
+  useEffect(() => {
+    if (typeof navigator === "undefined" || typeof navigator.requestMIDIAccess !== "function") {
+      setStatus("unsupported");
+    }
+  }, []);
+
+  const enable = useCallback(async () => {
+    if (accessRef.current) return;
+    setStatus("pending");
+    let access: MIDIAccess;
+    try {
+      access = await navigator.requestMIDIAccess({ sysex: true });
+      setSysexEnabled(true);
+    } catch {
+      // Without SysEx permission pitch-bend output and keyboard input still work.
+      try {
+        access = await navigator.requestMIDIAccess();
+        setSysexEnabled(false);
+      } catch {
+        setStatus("denied");
+        return;
+      }
+    }
+
+    accessRef.current = access;
+    const refresh = () => {
+      const nextOutputs = listPorts(access.outputs);
+      const nextInputs = listPorts(access.inputs);
+      setOutputs(nextOutputs);
+      setInputs(nextInputs);
+      setOutputId((current) => (current && nextOutputs.some((port) => port.id === current) ? current : nextOutputs[0]?.id ?? null));
+      setInputId((current) => (current && nextInputs.some((port) => port.id === current) ? current : null));
+    };
+    access.onstatechange = refresh;
+    refresh();
+    setStatus("ready");
+  }, []);
+
+  const getOutput = useCallback(() => (outputId ? accessRef.current?.outputs.get(outputId) ?? null : null), [outputId]);
+
+  const stopAll = useCallback(() => {
+    const output = getOutput();
+    if (!output) return;
+    if (stopTimerRef.current !== null) {
+      clearTimeout(stopTimerRef.current);
+      stopTimerRef.current = null;
+    }
+    pendingStopRef.current.forEach((message) => output.send(message));
+    pendingStopRef.current = [];
+    allocatorRef.current.releaseAll();
+    [0, ...MPE_MEMBER_CHANNELS].forEach((channel) => output.send(allNotesOff(channel)));
+  }, [getOutput]);
+
+  const sendChord = useCallback((frequencies: number[], { mode, bendRange, duration }: SendChordOptions) => {
+    const output = getOutput();
+    if (!output || !frequencies.length) return;
+    if (mode === "mts" && !sysexEnabled) {
+      throw new Error("MIDI Tuning Standard needs SysEx permission");
+    }
+
+    stopAll();
+    if (mode === "mpe") {
+      const configured = configuredRangeRef.current;
+      if (!configured || configured.outputId !== output.id || configured.range !== bendRange) {
+        MPE_MEMBER_CHANNELS.forEach((channel) => pitchBendRangeMessages(channel, bendRange).forEach((message) => output.send(message)));
+        configuredRangeRef.current = { outputId: output.id, range: bendRange };
+      }
+    }
+
+    const { start, stop, channels } = encodeChord(frequencies, mode, { bendRange, allocator: allocatorRef.current });
+    start.forEach((message) => output.send(message));
+    pendingStopRef.current = stop;
+    // A timer rather than a timestamped send, so an early stop or the next chord can cancel it.
+    stopTimerRef.current = window.setTimeout(() => {
+      stopTimerRef.current = null;
+      pendingStopRef.current.forEach((message) => output.send(message));
+      pendingStopRef.current = [];
+      channels.forEach((memberChannel) => allocatorRef.current.release(memberChannel));
+    }, duration * 1000);
+  }, [getOutput, stopAll, sysexEnabled]);
+
+  useEffect(() => {
+    const input = inputId ? accessRef.current?.inputs.get(inputId) ?? null : null;
+    if (!input) return;
+    const held = heldRef.current;
+    held.clear();
+
+    input.onmidimessage = (event) => {
+      const message = event.data ? parseNoteMessage(event.data) : null;
+      if (!message) return;
+      if (message.type === "on") held.add(message.note);
+      else held.delete(message.note);
+      onHeldNotesRef.current?.(Array.from(held).sort((a, b) => a - b));
+    };
+    return () => {
+      input.onmidimessage = null;
+      held.clear();
+    };
+  }, [inputId]);
+
+  // A pending note-off timer is left to fire after unmount so no note is left hanging.
+  useEffect(() => () => {
+    if (accessRef.current) accessRef.current.onstatechange = null;
+  }, []);
+
+  return {
+    status,
+    sysexEnabled,
+    outputs,
+    inputs,
+    outputId,
+    inputId,
+    setOutputId,
+    setInputId,
+    enable,
+    sendChord,
+    stopAll,
+  };
+}
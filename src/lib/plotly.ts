@@ -0,0 +1,59 @@
+export type PlotlyModule = {
+  react: (
+    element: HTMLElement | null,
+    data: unknown[],
+    layout?: unknown,
+    config?: unknown
+  ) => Promise<unknown> | unknown;
+  purge: (element: HTMLElement | null) => void;
+  restyle: (
+    element: HTMLElement | null,
+    update: unknown,
+    traces?: number[]
+  ) => Promise<unknown> | unknown;
+  relayout: (element: HTMLElement | null, update: unknown) => Promise<unknown> | unknown;
+};
+
+export type PlotlyHTMLElement = HTMLElement & {
+  on: (event: string, handler: (event: unknown) => void) => void;
+  removeAllListeners?: (event?: string) => void;
+  data?: unknown[];
+  layout?: unknown;
+};
+
+export type PlotlyClickPoint = {
+  x: number;
+  y: number;
+  z?: number;
+  fullData?: { name?: string };
+};
+
+export type PlotlyPointsEvent = {
+  points?: PlotlyClickPoint[];
+  event?: { isTrusted?: boolean };
+};
+
+export async function loadPlotly() {
+  const plotlyImport = await import("plotly.js-dist-min");
+  return (plotlyImport.default || plotlyImport) as PlotlyModule;
+}
+
+/** Plotly's 3D traces need WebGL; 2D traces render as SVG and work without it. */
+export function supportsWebGL() {
+  try {
+    const canvas = document.createElement("canvas");
+    return Boolean(canvas.getContext("webgl2") ?? canvas.getContext("webgl"));
+  } catch {
+    return false;
+  }
+}
+
+/** Axis settings for interval ratios: log-typed on log scales, with explicit tick labels either way. */
+export function ratioAxisLayout(ticks: { ratio: number; label: string }[], log: boolean, title: string) {
+  return {
+    title,
+    type: log ? "log" : "linear",
+    tickvals: ticks.map((tick) => tick.ratio),
+    ticktext: ticks.map((tick) => tick.label),
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SPECTRUM_SETTINGS } from "@/lib/dissonance/spectra";
+import { PRESET_LIBRARY_FORMAT, PRESET_LIBRARY_VERSION, parsePresetLibrary, serializePresetLibrary } from "./presets";
+import type { ExplorerPreset } from "./presets";
+
+const PRESET: ExplorerPreset = {
+  id: "preset-a",
+  name: "Bell minor third",
+  tags: ["bell", "minor"],
+  explorer: "dyadic",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  f0: 220,
+  spectrum: { ...DEFAULT_SPECTRUM_SETTINGS, kind: "custom", custom: [{ ratio: 1, amplitude: 1 }, { ratio: 2.76, amplitude: 0.5 }] },
+  modelId: "sethares",
+  ratios: [1.2],
+};
+
+function library(presets: unknown[], version = PRESET_LIBRARY_VERSION) {
+  return JSON.stringify({ format: PRESET_LIBRARY_FORMAT, version, presets });
+}
+
+describe("parsePresetLibrary", () => {
+  it("reads back what serializePresetLibrary writes", () => {
+    expect(parsePresetLibrary(serializePresetLibrary([PRESET]))).toEqual([PRESET]);
+  });
+
+  it("migrates a version 1 library, dropping the silent partials it allowed", () => {
+    const custom = [{ ratio: 1, amplitude: 1 }, { ratio: 2, amplitude: 0 }, { ratio: 2.76, amplitude: 0.5 }];
+    const [preset] = parsePresetLibrary(library([{ ...PRESET, spectrum: { ...PRESET.spectrum, custom } }], 1));
+    expect(preset).toEqual(PRESET);
+  });
+
+  it("rejects files that are not a readable library", () => {
+    expect(() => parsePresetLibrary("{ not json")).toThrow("not valid JSON");
+    expect(() => parsePresetLibrary(JSON.stringify({ format: "other", version: 1, presets: [] }))).toThrow("Not a preset library");
+    expect(() => parsePresetLibrary(JSON.stringify({ format: PRESET_LIBRARY_FORMAT, presets: [] }))).toThrow("no valid version");
+    expect(() => parsePresetLibrary(library([], PRESET_LIBRARY_VERSION + 1))).toThrow("newer than this app supports");
+    expect(() => parsePresetLibrary(JSON.stringify({ format: PRESET_LIBRARY_FORMAT, version: 1, presets: {} }))).toThrow(
+      "no presets list"
+    );
+  });
+
+  it("drops presets without a name or a usable ratio", () => {
+    const presets = parsePresetLibrary(
+      library([null, "preset", { ...PRESET, name: "  " }, { ...PRESET, ratios: [0, -1, "2"] }, PRESET])
+    );
+    expect(presets).toEqual([PRESET]);
+  });
+
+  it("clamps out-of-range values and falls back to defaults for unknown ones", () => {
+    const [preset] = parsePresetLibrary(
+      library([
+        {
+          ...PRESET,
+          explorer: "tetrad",
+          f0: 1e6,
+          modelId: "unknown",
+          ratios: [1.5, -2],
+          tags: [" Bell ", "bell", 3],
+          spectrum: { kind: "organ", partials: 100.4, rolloff: -1, stretch: 9, custom: [{ ratio: 1, amplitude: -1 }] },
+        },
+      ])
+    );
+    expect(preset).toMatchObject({ explorer: "dyadic", f0: 20000, modelId: "sethares", ratios: [1.5], tags: ["bell"] });
+    expect(preset.spectrum).toEqual({
+      kind: DEFAULT_SPECTRUM_SETTINGS.kind,
+      partials: 32,
+      rolloff: 0.1,
+      stretch: 1.5,
+      custom: DEFAULT_SPECTRUM_SETTINGS.custom,
+    });
+  });
+
+  it("rejects a custom spectrum with a zero amplitude, as the partial editor does", () => {
+    const custom = [{ ratio: 1, amplitude: 1 }, { ratio: 2, amplitude: 0 }];
+    const [preset] = parsePresetLibrary(library([{ ...PRESET, spectrum: { ...PRESET.spectrum, custom } }]));
+    expect(preset.spectrum.custom).toEqual(DEFAULT_SPECTRUM_SETTINGS.custom);
+  });
+});
@@ -0,0 +1,227 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ROUGHNESS_MODELS } from "@/lib/dissonance/roughness";
+import type { RoughnessModelId } from "@/lib/dissonance/roughness";
+import { DEFAULT_SPECTRUM_SETTINGS, SPECTRUM_KINDS } from "@/lib/dissonance/spectra";
+import type { SpectrumPartial, SpectrumSettings } from "@/lib/dissonance/types";
+
+export type PresetExplorer = "dyadic" | "triad";
+
+/** A saved explorer configuration, shared by both explorers. */
+export type ExplorerPreset = {
+  id: string;
+  name: string;
+  tags: string[];
+  /** Where the preset was saved; either explorer can load it. */
+  explorer: PresetExplorer;
+  createdAt: string;
+  f0: number;
+  spectrum: SpectrumSettings;
+  modelId: RoughnessModelId;
+  /** Upper-voice ratios over the root: [r] for a dyad, [r, s] for a triad. */
+  ratios: number[];
+};
+
+export type PresetDraft = Omit<ExplorerPreset, "id" | "createdAt">;
+
+export const PRESET_LIBRARY_FORMAT = "physics-dissonance/presets";
+export const PRESET_LIBRARY_VERSION = 2;
+
+type PresetLibraryFile = {
+  format: typeof PRESET_LIBRARY_FORMAT;
+  version: number;
+  presets: unknown[];
+};
+
+const STORAGE_KEY = "physics-dissonance:presets";
+
+/**
+ * Upgrades stored data one version at a time: entry i turns version i + 1 into version i + 2.
+ * When the stored shape changes (e.g. `Spectrum` or `SpectrumSettings` gain fields), bump
+ * `PRESET_LIBRARY_VERSION` and append a step here; never edit an existing step.
+ */
+const MIGRATIONS: ((presets: unknown[]) => unknown[])[] = [
+  // 1 → 2: custom partials need a positive amplitude, as in the partial editor. Version 1 kept
+  // silent ones; drop them so the rest of the spectrum survives the stricter check.
+  (presets) => presets.map((preset) => {
+    if (!isRecord(preset) || !isRecord(preset.spectrum) || !Array.isArray(preset.spectrum.custom)) return preset;
+    const custom = preset.spectrum.custom.filter((partial) => !isRecord(partial) || partial.amplitude !== 0);
+    return { ...preset, spectrum: { ...preset.spectrum, custom } };
+  }),
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function finiteOr(value: unknown, fallback: number, min: number, max: number) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/** The partial list if every entry would pass `parsePartialList`, otherwise null. */
+function sanitizePartials(value: unknown): SpectrumPartial[] | null {
+  if (!Array.isArray(value) || !value.length) return null;
+  const valid = value.every((entry) => isRecord(entry) && isPositive(entry.ratio) && isPositive(entry.amplitude));
+  return valid ? value.map(({ ratio, amplitude }: SpectrumPartial) => ({ ratio, amplitude })) : null;
+}
+
+function sanitizeSpectrum(value: unknown): SpectrumSettings {
+  const raw = isRecord(value) ? value : {};
+  const kind = SPECTRUM_KINDS.find((item) => item.kind === raw.kind)?.kind ?? DEFAULT_SPECTRUM_SETTINGS.kind;
+  return {
+    kind,
+    partials: Math.round(finiteOr(raw.partials, DEFAULT_SPECTRUM_SETTINGS.partials, 1, 32)),
+    rolloff: finiteOr(raw.rolloff, DEFAULT_SPECTRUM_SETTINGS.rolloff, 0.1, 4),
+    stretch: finiteOr(raw.stretch, DEFAULT_SPECTRUM_SETTINGS.stretch, 0.5, 1.5),
+    custom: sanitizePartials(raw.custom) ?? DEFAULT_SPECTRUM_SETTINGS.custom,
+  };
+}
+
+/** Validates one preset of the current version; anything unusable yields null. */
+function sanitizePreset(value: unknown): ExplorerPreset | null {
+  if (!isRecord(value) || typeof value.name !== "string" || !value.name.trim()) return null;
+  const ratios = Array.isArray(value.ratios)
+    ? value.ratios.filter((ratio): ratio is number => typeof ratio === "number" && Number.isFinite(ratio) && ratio > 0)
+    : [];
+  if (!ratios.length) return null;
+
+  return {
+    id: typeof value.id === "string" && value.id ? value.id : createPresetId(),
+    name: value.name.trim(),
+    tags: Array.isArray(value.tags) ? normalizeTags(value.tags.filter((tag): tag is string => typeof tag === "string")) : [],
+    explorer: value.explorer === "triad" ? "triad" : "dyadic",
+    createdAt: typeof value.createdAt === "string" ? value.createdAt : new Date().toISOString(),
+    f0: finiteOr(value.f0, 220, 20, 20000),
+    spectrum: sanitizeSpectrum(value.spectrum),
+    modelId: ROUGHNESS_MODELS.find((model) => model.id === value.modelId)?.id ?? "sethares",
+    ratios,
+  };
+}
+
+function createPresetId() {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function normalizeTags(tags: string[]) {
+  return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function parseTagList(text: string) {
+  return normalizeTags(text.split(/[,;]+/u));
+}
+
+/**
+ * Reads a preset library file (or the stored library), migrating older versions forward.
+ * Throws on foreign or newer files; individual invalid presets are dropped.
+ */
+export function parsePresetLibrary(text: string): ExplorerPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Preset file is not valid JSON");
+  }
+  if (!isRecord(data) || data.format !== PRESET_LIBRARY_FORMAT) {
+    throw new Error(`Not a preset library (expected format "${PRESET_LIBRARY_FORMAT}")`);
+  }
+  const version = data.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("Preset library has no valid version");
+  }
+  if (version > PRESET_LIBRARY_VERSION) {
+    throw new Error(`Preset library version ${version} is newer than this app supports (${PRESET_LIBRARY_VERSION})`);
+  }
+  if (!Array.isArray(data.presets)) {
+    throw new Error("Preset library has no presets list");
+  }
+
+  let presets: unknown[] = data.presets;
+  for (let from = version; from < PRESET_LIBRARY_VERSION; from++) {
+    presets = MIGRATIONS[from - 1](presets);
+  }
+  return presets.map(sanitizePreset).filter((preset): preset is ExplorerPreset => preset !== null);
+}
+
+export function serializePresetLibrary(presets: ExplorerPreset[]) {
+  const file: PresetLibraryFile = { format: PRESET_LIBRARY_FORMAT, version: PRESET_LIBRARY_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Case-insensitive match on name and tags; every word of the query must match. */
+export function searchPresets(presets: ExplorerPreset[], query: string) {
+  const words = query.toLowerCase().split(/\s+/u).filter(Boolean);
+  if (!words.length) return presets;
+  return presets.filter((preset) => {
+    const haystack = [preset.name.toLowerCase(), ...preset.tags];
+    return words.every((word) => haystack.some((entry) => entry.includes(word)));
+  });
+}
+
+function readStoredPresets(): ExplorerPreset[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresetLibrary(stored) : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable preset library", error);
+    return [];
+  }
+}
+
+function writeStoredPresets(presets: ExplorerPreset[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializePresetLibrary(presets));
+  } catch (error) {
+    console.warn("Could not save presets", error);
+  }
+}
+
+/** The shared preset library in localStorage, kept in sync across open tabs. */
+export function usePresetLibrary() {
+  const [presets, setPresets] = useState<ExplorerPreset[]>([]);
+
+  useEffect(() => {
+    setPresets(readStoredPresets());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setPresets(readStoredPresets());
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const update = useCallback((change: (current: ExplorerPreset[]) => ExplorerPreset[]) => {
+    // Re-read first so a save in another tab is not overwritten.
+    const next = change(readStoredPresets());
+    writeStoredPresets(next);
+    setPresets(next);
+  }, []);
+
+  const savePreset = useCallback((draft: PresetDraft) => {
+    const preset: ExplorerPreset = { ...draft, id: createPresetId(), createdAt: new Date().toISOString() };
+    update((current) => [preset, ...current]);
+  }, [update]);
+
+  const editPreset = useCallback((id: string, patch: Pick<ExplorerPreset, "name" | "tags">) => {
+    update((current) => current.map((preset) => (preset.id === id ? { ...preset, ...patch } : preset)));
+  }, [update]);
+
+  const deletePreset = useCallback((id: string) => {
+    update((current) => current.filter((preset) => preset.id !== id));
+  }, [update]);
+
+  /** Adds presets from an exported file; clashing ids get fresh ones. Returns how many were added. */
+  const importPresets = useCallback((text: string) => {
+    const imported = parsePresetLibrary(text);
+    update((current) => {
+      const ids = new Set(current.map((preset) => preset.id));
+      return [...imported.map((preset) => (ids.has(preset.id) ? { ...preset, id: createPresetId() } : preset)), ...current];
+    });
+    return imported.length;
+  }, [update]);
+
+  return { presets, savePreset, editPreset, deletePreset, importPresets };
+}
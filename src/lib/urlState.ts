@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { DEFAULT_NOTE_NAMING, NOTE_NAME_SYSTEMS } from "@/lib/dissonance/noteNames";
+import type { NoteNaming } from "@/lib/dissonance/noteNames";
+import { SPECTRUM_KINDS, formatPartialList, parsePartialList } from "@/lib/dissonance/spectra";
+import type { SpectrumSettings } from "@/lib/dissonance/types";
+
+const WRITE_DELAY_MS = 250;
+
+/** A finite number from the query, clamped to [min, max]; missing or garbled values fall back. */
+export function readNumberParam(params: URLSearchParams, key: string, fallback: number, min: number, max: number, step?: number) {
+  const raw = params.get(key);
+  const value = raw === null || raw.trim() === "" ? Number.NaN : Number(raw);
+  if (!Number.isFinite(value)) return fallback;
+  const clamped = Math.min(max, Math.max(min, value));
+  return step ? Math.min(max, Math.max(min, min + Math.round((clamped - min) / step) * step)) : clamped;
+}
+
+export function readBooleanParam(params: URLSearchParams, key: string, fallback: boolean) {
+  const raw = params.get(key);
+  if (raw === "1" || raw === "true") return true;
+  if (raw === "0" || raw === "false") return false;
+  return fallback;
+}
+
+export function readChoiceParam<T extends string>(params: URLSearchParams, key: string, choices: readonly T[], fallback: T) {
+  const raw = params.get(key);
+  return choices.find((choice) => choice === raw) ?? fallback;
+}
+
+/** Rounds for the query string so links stay short; 6 significant digits is below slider resolution. */
+export function formatParamNumber(value: number) {
+  return `${Number(value.toPrecision(6))}`;
+}
+
+type SpectrumParamRanges = { maxPartials: number };
+
+export function writeSpectrumParams(params: URLSearchParams, settings: SpectrumSettings) {
+  params.set("timbre", settings.kind);
+  if (settings.kind === "custom") {
+    params.set("custom", formatPartialList(settings.custom));
+    return;
+  }
+  params.set("partials", `${settings.partials}`);
+  params.set("rolloff", formatParamNumber(settings.rolloff));
+  if (settings.kind === "stretched") params.set("stretch", formatParamNumber(settings.stretch));
+}
+
+/** Reads what `writeSpectrumParams` wrote, clamped to the ranges of `SpectrumControls`. */
+export function readSpectrumParams(params: URLSearchParams, fallback: SpectrumSettings, { maxPartials }: SpectrumParamRanges): SpectrumSettings {
+  const kind = readChoiceParam(params, "timbre", SPECTRUM_KINDS.map((item) => item.kind), fallback.kind);
+  let custom = fallback.custom;
+  const customText = params.get("custom");
+  if (customText) {
+    try {
+      custom = parsePartialList(customText);
+    } catch {
+      // An unreadable partial list keeps the default one.
+    }
+  }
+  return {
+    kind,
+    partials: readNumberParam(params, "partials", fallback.partials, 1, maxPartials, 1),
+    rolloff: readNumberParam(params, "rolloff", fallback.rolloff, 0.5, 2.5),
+    stretch: readNumberParam(params, "stretch", fallback.stretch, 0.8, 1.2),
+    custom,
+  };
+}
+
+/** Note naming is only written when it differs from the default, to keep ordinary links short. */
+export function writeNoteNamingParams(params: URLSearchParams, naming: NoteNaming) {
+  if (naming.system !== DEFAULT_NOTE_NAMING.system) params.set("names", naming.system);
+  if (naming.system === "edo") params.set("nedo", `${naming.edo}`);
+  if (naming.concertPitch !== DEFAULT_NOTE_NAMING.concertPitch) params.set("a4", `${naming.concertPitch}`);
+}
+
+/** Reads what `writeNoteNamingParams` wrote, clamped to the ranges of `NoteNamingControls`. */
+export function readNoteNamingParams(params: URLSearchParams): NoteNaming {
+  return {
+    system: readChoiceParam(params, "names", NOTE_NAME_SYSTEMS.map((item) => item.value), DEFAULT_NOTE_NAMING.system),
+    edo: readNumberParam(params, "nedo", DEFAULT_NOTE_NAMING.edo, 5, 72, 1),
+    concertPitch: readNumberParam(params, "a4", DEFAULT_NOTE_NAMING.concertPitch, 400, 480, 1),
+  };
+}
+
+/**
+ * Keeps page state and the query string in step. `apply` runs once after mount and whenever the
+ * user navigates back or forward; `query` is written back with `replaceState`, debounced so hover-driven
+ * updates do not flood the history API. Nothing is written until the URL has been applied once.
+ */
+export function useUrlStateSync(query: string, apply: (params: URLSearchParams) => void) {
+  const applyRef = useRef(apply);
+  const appliedRef = useRef(false);
+
+  useEffect(() => {
+    applyRef.current = apply;
+  }, [apply]);
+
+  useEffect(() => {
+    const applyLocation = () => applyRef.current(new URLSearchParams(window.location.search));
+    applyLocation();
+    appliedRef.current = true;
+    window.addEventListener("popstate", applyLocation);
+    return () => window.removeEventListener("popstate", applyLocation);
+  }, []);
+
+  useEffect(() => {
+    if (!appliedRef.current) return;
+    const timer = window.setTimeout(() => {
+      if (window.location.search.replace(/^\?/u, "") === query) return;
+      window.history.replaceState(window.history.state, "", `${window.location.pathname}?${query}`);
+    }, WRITE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+}
+
+/** Absolute link to the current page with the given query. */
+export function shareableUrl(query: string) {
+  return `${window.location.origin}${window.location.pathname}?${query}`;
+}